@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Monitor, Smartphone, Pencil, Check, X, LogOut, Loader2 } from 'lucide-react';
+import { formatDistance, format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+interface Session {
+  id: number;
+  name: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string;
+  current: boolean;
+}
+
+// Turns a user agent string into a short "Browser on OS" label
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+
+  const os =
+    /Android/.test(userAgent) ? 'Android' :
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent.slice(0, 40);
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return !!userAgent && /Android|iPhone|iPad|iPod|Mobile/.test(userAgent);
+}
+
+export function ActiveSessions() {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<Session[]>({
+    queryKey: ['/api/auth/sessions'],
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      return apiRequest('PATCH', `/api/auth/sessions/${id}`, { name: name.trim() || null });
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to rename session',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('DELETE', `/api/auth/sessions/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Session Revoked',
+        description: 'That device has been signed out',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke session',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('DELETE', '/api/auth/sessions');
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Signed Out Everywhere Else',
+        description: 'All other sessions have been revoked',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke sessions',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const startEditing = (session: Session) => {
+    setEditingId(session.id);
+    setEditingName(session.name || '');
+  };
+
+  const otherSessions = sessions.filter(session => !session.current);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Active Sessions</CardTitle>
+        <CardDescription>
+          Devices that are currently signed in to your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead>Signed In</TableHead>
+                <TableHead>Last Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      {isMobile(session.userAgent) ? (
+                        <Smartphone className="h-4 w-4 text-muted-foreground shrink-0" />
+                      ) : (
+                        <Monitor className="h-4 w-4 text-muted-foreground shrink-0" />
+                      )}
+                      {editingId === session.id ? (
+                        <div className="flex items-center space-x-1">
+                          <Input
+                            value={editingName}
+                            onChange={(e) => setEditingName(e.target.value)}
+                            placeholder={describeUserAgent(session.userAgent)}
+                            maxLength={100}
+                            className="h-8 w-40"
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') renameMutation.mutate({ id: session.id, name: editingName });
+                              if (e.key === 'Escape') setEditingId(null);
+                            }}
+                          />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            onClick={() => renameMutation.mutate({ id: session.id, name: editingName })}
+                            disabled={renameMutation.isPending}
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div>
+                          <div className="flex items-center space-x-2">
+                            <span className="font-medium">{session.name || describeUserAgent(session.userAgent)}</span>
+                            {session.current && <Badge variant="secondary">This device</Badge>}
+                          </div>
+                          {session.name && (
+                            <p className="text-xs text-muted-foreground">{describeUserAgent(session.userAgent)}</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{session.ipAddress || '—'}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {format(new Date(session.createdAt), 'MMM d, yyyy HH:mm')}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {session.current
+                      ? 'Now'
+                      : session.lastUsedAt
+                        ? formatDistance(new Date(session.lastUsedAt), new Date(), { addSuffix: true })
+                        : '—'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end space-x-1">
+                      <Button size="icon" variant="ghost" onClick={() => startEditing(session)} title="Rename">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      {!session.current && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => revokeMutation.mutate(session.id)}
+                          disabled={revokeMutation.isPending}
+                          title="Sign out"
+                        >
+                          <LogOut className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {otherSessions.length > 0 && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={revokeOthersMutation.isPending}>
+                {revokeOthersMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Sign Out All Other Sessions
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Sign out other sessions?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every device except this one will be signed out and will need to log in again.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => revokeOthersMutation.mutate()}>
+                  Sign Out
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,10 +9,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Shield, Users, MessageSquare, Ban, UserCheck, Trash2, Settings, Activity } from 'lucide-react';
+import { Shield, Users, MessageSquare, Ban, UserCheck, Trash2, Settings, Activity, Mail } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, authHeaders } from '@/lib/queryClient';
 import { UserSearch } from './UserSearch';
+import { EmailTemplateEditor } from './EmailTemplateEditor';
 
 interface User {
   id: number;
@@ -59,7 +60,7 @@ export function AdminPanel() {
   const { data: logs = [] } = useQuery({
     queryKey: ['admin', 'logs'],
     queryFn: async () => {
-      const response = await fetch('/api/admin/logs');
+      const response = await fetch('/api/admin/logs', { headers: authHeaders() });
       if (!response.ok) throw new Error('Failed to fetch logs');
       return response.json();
     },
@@ -69,7 +70,7 @@ export function AdminPanel() {
   const { data: users = [] } = useQuery({
     queryKey: ['users', 'all'],
     queryFn: async () => {
-      const response = await fetch('/api/users');
+      const response = await fetch('/api/users', { headers: authHeaders() });
       if (!response.ok) throw new Error('Failed to fetch users');
       return response.json();
     },
@@ -79,7 +80,7 @@ export function AdminPanel() {
   const { data: rooms = [] } = useQuery({
     queryKey: ['chatRooms'],
     queryFn: async () => {
-      const response = await fetch('/api/chat-rooms');
+      const response = await fetch('/api/chat-rooms', { headers: authHeaders() });
       if (!response.ok) throw new Error('Failed to fetch rooms');
       return response.json();
     },
@@ -88,9 +89,8 @@ export function AdminPanel() {
   // Ban user mutation
   const banUserMutation = useMutation({
     mutationFn: async ({ userId, reason }: { userId: number; reason: string }) => {
-      return apiRequest('/api/admin/ban-user', 'POST', {
+      return apiRequest('POST', '/api/admin/ban-user', {
         userId,
-        adminId: 1, // In real app, get from auth context
         reason,
       });
     },
@@ -116,7 +116,7 @@ export function AdminPanel() {
   // Unban user mutation
   const unbanUserMutation = useMutation({
     mutationFn: async (userId: number) => {
-      return apiRequest('/api/admin/unban-user', 'POST', { userId });
+      return apiRequest('POST', '/api/admin/unban-user', { userId });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['users'] });
@@ -138,7 +138,7 @@ export function AdminPanel() {
   // Delete room mutation
   const deleteRoomMutation = useMutation({
     mutationFn: async (roomId: number) => {
-      return apiRequest(`/api/chat-rooms/${roomId}`, 'DELETE');
+      return apiRequest('DELETE', `/api/chat-rooms/${roomId}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['chatRooms'] });
@@ -209,6 +209,10 @@ export function AdminPanel() {
             <Activity className="h-4 w-4 mr-2" />
             Логи действий
           </TabsTrigger>
+          <TabsTrigger value="email-templates">
+            <Mail className="h-4 w-4 mr-2" />
+            Шаблоны писем
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="users" className="space-y-4">
@@ -423,6 +427,10 @@ export function AdminPanel() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="email-templates" className="space-y-4">
+          <EmailTemplateEditor />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -7,13 +7,15 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
-import { insertUserSchema } from "@shared/schema";
+import { insertUserSchema, type User } from "@shared/schema";
 import { useAuth } from "@/lib/auth-context";
 import { useLanguage } from "@/lib/language-context";
 import { EmailVerification } from "@/components/EmailVerification";
+import { PasswordReset } from "@/components/PasswordReset";
 
 const loginSchema = z.object({
   username: z.string().min(3, { message: "Username must be at least 3 characters long" }),
@@ -33,6 +35,8 @@ export function AuthForms() {
   const [activeTab, setActiveTab] = React.useState("login");
   const [showEmailVerification, setShowEmailVerification] = React.useState(false);
   const [registeredEmail, setRegisteredEmail] = React.useState("");
+  const [showPasswordReset, setShowPasswordReset] = React.useState(false);
+  const [twoFactorChallenge, setTwoFactorChallenge] = React.useState<string | null>(null);
   const { toast } = useToast();
   const [_, navigate] = useLocation();
   const { login } = useAuth();
@@ -56,6 +60,49 @@ export function AuthForms() {
     );
   }
 
+  if (showPasswordReset) {
+    return (
+      <div className="w-full max-w-md mx-auto">
+        <PasswordReset
+          onResetComplete={() => {
+            setShowPasswordReset(false);
+            setActiveTab("login");
+          }}
+          onCancel={() => setShowPasswordReset(false)}
+        />
+      </div>
+    );
+  }
+
+  const handleLoggedIn = ({ user, token }: { user: User; token: string }) => {
+    setTwoFactorChallenge(null);
+    login(user, token);
+    
+    // Signing in doesn't cancel a scheduled deletion; the settings page offers to restore
+    if (user.deletionScheduledAt) {
+      toast({
+        title: t('deletion_pending_title'),
+        description: t('deletion_pending_description')
+          .replace('{date}', new Date(user.deletionScheduledAt).toLocaleDateString()),
+      });
+      navigate("/settings");
+      return;
+    }
+    navigate("/");
+  };
+
+  if (twoFactorChallenge) {
+    return (
+      <div className="w-full max-w-md mx-auto">
+        <TwoFactorLoginForm
+          challengeToken={twoFactorChallenge}
+          onSuccess={handleLoggedIn}
+          onCancel={() => setTwoFactorChallenge(null)}
+        />
+      </div>
+    );
+  }
+
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader>
@@ -69,10 +116,11 @@ export function AuthForms() {
             <TabsTrigger value="register">{t('register')}</TabsTrigger>
           </TabsList>
           <TabsContent value="login">
-            <LoginForm onSuccess={(userData) => {
-              login(userData);
-              navigate("/");
-            }} />
+            <LoginForm
+              onSuccess={handleLoggedIn}
+              onTwoFactorRequired={setTwoFactorChallenge}
+              onForgotPassword={() => setShowPasswordReset(true)}
+            />
           </TabsContent>
           <TabsContent value="register">
             <RegisterForm onSuccess={(email: string) => {
@@ -87,10 +135,12 @@ export function AuthForms() {
 }
 
 interface LoginFormProps {
-  onSuccess: (userData: any) => void;
+  onSuccess: (session: { user: User; token: string }) => void;
+  onTwoFactorRequired: (challengeToken: string) => void;
+  onForgotPassword: () => void;
 }
 
-function LoginForm({ onSuccess }: LoginFormProps) {
+function LoginForm({ onSuccess, onTwoFactorRequired, onForgotPassword }: LoginFormProps) {
   const { toast } = useToast();
   const { t } = useLanguage();
   
@@ -119,8 +169,15 @@ function LoginForm({ onSuccess }: LoginFormProps) {
         throw new Error(errorData.message || "Login failed");
       }
       
-      const userData = await response.json();
-      onSuccess(userData);
+      const session = await response.json();
+      
+      // Accounts with 2FA get a challenge instead of a token
+      if (session.twoFactorRequired) {
+        onTwoFactorRequired(session.challengeToken);
+        return;
+      }
+      
+      onSuccess(session);
     } catch (error) {
       toast({
         title: t('error'),
@@ -164,18 +221,123 @@ function LoginForm({ onSuccess }: LoginFormProps) {
         <Button type="submit" className="w-full" disabled={isLoading}>
           {isLoading ? t('loading') + "..." : t('login_button')}
         </Button>
+        <Button type="button" variant="link" className="w-full" onClick={onForgotPassword}>
+          {t('forgot_password')}
+        </Button>
       </form>
     </Form>
   );
 }
 
+interface TwoFactorLoginFormProps {
+  challengeToken: string;
+  onSuccess: (session: { user: User; token: string }) => void;
+  onCancel: () => void;
+}
+
+function TwoFactorLoginForm({ challengeToken, onSuccess, onCancel }: TwoFactorLoginFormProps) {
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const [code, setCode] = React.useState("");
+  const [recoveryCode, setRecoveryCode] = React.useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = React.useState(false);
+  const [isLoading, setIsLoading] = React.useState(false);
+  
+  async function onSubmit(event?: React.FormEvent) {
+    event?.preventDefault();
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/auth/login/2fa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          useRecoveryCode ? { challengeToken, recoveryCode } : { challengeToken, code }
+        ),
+        credentials: 'include'
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Verification failed");
+      }
+      
+      onSuccess(await response.json());
+    } catch (error) {
+      setCode("");
+      toast({
+        title: t('error'),
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+  
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-center text-2xl">{t('two_factor_title')}</CardTitle>
+        <CardDescription className="text-center">
+          {useRecoveryCode ? t('recovery_code_prompt') : t('two_factor_prompt')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={onSubmit} className="space-y-4">
+          {useRecoveryCode ? (
+            <Input
+              placeholder={t('recovery_code')}
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value)}
+              autoComplete="one-time-code"
+              disabled={isLoading}
+            />
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={6}
+                value={code}
+                onChange={setCode}
+                onComplete={() => onSubmit()}
+                disabled={isLoading}
+                autoFocus
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isLoading || (useRecoveryCode ? !recoveryCode.trim() : code.length !== 6)}
+          >
+            {isLoading ? t('loading') + "..." : t('verify_button')}
+          </Button>
+        </form>
+      </CardContent>
+      <CardFooter className="flex flex-col">
+        <Button type="button" variant="link" onClick={() => setUseRecoveryCode(!useRecoveryCode)}>
+          {useRecoveryCode ? t('use_authenticator_code') : t('use_recovery_code')}
+        </Button>
+        <Button type="button" variant="link" onClick={onCancel}>
+          {t('back_to_login')}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
 interface RegisterFormProps {
   onSuccess: (email: string) => void;
 }
 
 function RegisterForm({ onSuccess }: RegisterFormProps) {
   const { toast } = useToast();
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   
   const form = useForm<z.infer<typeof registerSchema>>({
     resolver: zodResolver(registerSchema),
@@ -196,7 +358,8 @@ function RegisterForm({ onSuccess }: RegisterFormProps) {
       // Remove confirmPassword as it's not part of our API schema
       const { confirmPassword, ...userData } = values;
       
-      const response = await apiRequest('POST', '/api/auth/register', userData);
+      // Emails to the new account are sent in the language chosen on this page
+      const response = await apiRequest('POST', '/api/auth/register', { ...userData, language });
       onSuccess(values.email);
     } catch (error) {
       toast({
@@ -1,16 +1,23 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { User, ChatRoom, ChatMessage } from '@shared/schema';
+import { User, ChatRoom, ChatMessage, ReactionSummary, ReplyPreview } from '@shared/schema';
 import { socketClient } from '@/lib/socket';
 import { useAuth } from '@/lib/auth-context';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { ScrollArea } from '@/components/ui/scroll-area';
 import { Paperclip, Send, Image, Mic, Video, Users } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { queryClient } from '@/lib/queryClient';
+import { apiRequest } from '@/lib/queryClient';
+import { useMessageHistory } from '@/lib/message-history';
+import { useTypingSender, useTypingUsers, describeTyping } from '@/lib/typing';
+import { MessageActions, MessageEditor } from '@/components/MessageActions';
+import { MessageReactions } from '@/components/MessageReactions';
+import { ReplyQuote, ReplyComposerBar, toReplyPreview } from '@/components/MessageReply';
+import { PresenceDot } from '@/components/PresenceDot';
+import { PendingMessage } from '@/components/PendingMessage';
 import { useMediaUpload, getMediaTypeFromFile } from '@/lib/media';
+import { queueMessage, onMessageSent, useOutbox } from '@/lib/outbox';
 import { format } from 'date-fns';
 import { 
   Sheet,
@@ -21,6 +28,9 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 
+// History responses include aggregated reactions and quoted message previews; socket events may not
+type RoomMessage = ChatMessage & { reactions?: ReactionSummary[]; replyTo?: ReplyPreview | null };
+
 interface ChatRoomComponentProps {
   room: ChatRoom;
 }
@@ -28,93 +38,119 @@ interface ChatRoomComponentProps {
 const ChatRoomComponent: React.FC<ChatRoomComponentProps> = ({ room }) => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const messagesEndRef = useRef<HTMLDivElement>(null);
   const [messageText, setMessageText] = useState('');
   const [mediaUploadOpen, setMediaUploadOpen] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
+  const [replyingTo, setReplyingTo] = useState<RoomMessage | null>(null);
   const { uploadMedia, isUploading } = useMediaUpload();
   
   // Fetch messages and members
-  const { data: messages, isLoading: messagesLoading } = useQuery({
-    queryKey: [`/api/chat-messages/${room.id}`],
-    enabled: !!room,
-    refetchInterval: 5000, // Poll every 5 seconds as a fallback
-  });
+  const {
+    messages,
+    isLoading: messagesLoading,
+    isFetchingOlder,
+    containerRef,
+    onScroll,
+    scrollToMessage,
+    highlightedId,
+    appendMessage,
+    updateMessage,
+    scrollToBottom,
+  } = useMessageHistory<RoomMessage>(`/api/chat-messages/${room.id}`, !!room);
+  
+  const messagesById = useMemo(() => new Map(messages.map(message => [message.id, message])), [messages]);
+  
+  // Quotes of loaded messages are rebuilt locally so they follow edits and deletions
+  const quoteOf = (preview: ReplyPreview): ReplyPreview => {
+    const original = messagesById.get(preview.id);
+    return original ? toReplyPreview(original, original.userId) : preview;
+  };
+  
+  // A reply can't outlive its room
+  useEffect(() => {
+    setReplyingTo(null);
+  }, [room.id]);
+  
+  // Live updates also reach viewers of public rooms who have not joined them
+  useEffect(() => {
+    socketClient.subscribeRoom(room.id);
+    return () => socketClient.unsubscribeRoom(room.id);
+  }, [room.id]);
   
   const { data: members, isLoading: membersLoading } = useQuery({
     queryKey: [`/api/room-members/${room.id}`],
     enabled: !!room,
   });
   
+  // Room moderators and admins can remove anyone's messages and see their edit history
+  const { data: membership } = useQuery<{ role: string }>({
+    queryKey: [`/api/room-members/${room.id}/${user?.id}/role`],
+    enabled: !!room && !!user,
+  });
+  const canModerate = user?.role === 'admin' || membership?.role === 'admin' || membership?.role === 'moderator';
+
+  const { notifyTyping, stopTyping } = useTypingSender({ roomId: room.id });
+  const typingUserIds = useTypingUsers({ roomId: room.id });
+  const outbox = useOutbox(user?.id, { roomId: room.id });
+  
   // Set up WebSocket listener for new messages
   useEffect(() => {
     if (!user || !room) return;
     
     const unsubscribe = socketClient.onMessage('chat_message', (data) => {
       if (data.message.roomId === room.id) {
-        // Add the new message to the query cache
-        queryClient.setQueryData(
-          [`/api/chat-messages/${room.id}`],
-          (oldData: ChatMessage[] = []) => [...oldData, data.message]
-        );
+        appendMessage(data.message);
+      }
+    });
+    // Sent over REST while this client's socket was down, so no push arrives for it
+    const unsubscribeSent = onMessageSent((message) => {
+      if ('roomId' in message && message.roomId === room.id) {
+        appendMessage(message);
+      }
+    });
+    const unsubscribeEdited = socketClient.onMessage('chat_message_edited', (data) => {
+      if (data.message.roomId === room.id) {
+        updateMessage(data.message);
+      }
+    });
+    const unsubscribeDeleted = socketClient.onMessage('chat_message_deleted', (data) => {
+      if (data.message.roomId === room.id) {
+        updateMessage(data.message);
+      }
+    });
+    const unsubscribeReactions = socketClient.onMessage('chat_message_reactions', (data) => {
+      if (data.roomId === room.id) {
+        updateMessage({ id: data.messageId, reactions: data.reactions });
       }
     });
     
     return () => {
       unsubscribe();
+      unsubscribeSent();
+      unsubscribeEdited();
+      unsubscribeDeleted();
+      unsubscribeReactions();
     };
   }, [user, room]);
   
-  // Scroll to bottom when messages change
-  useEffect(() => {
-    if (messages && messagesEndRef.current) {
-      messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
-    }
-  }, [messages]);
-  
-  const handleSendMessage = async () => {
+  const handleSendMessage = () => {
     if (!user || !room || !messageText.trim()) return;
+    stopTyping();
     
-    try {
-      // Send via WebSocket
-      const sent = socketClient.sendChatRoomMessage(room.id, messageText);
-      
-      if (!sent) {
-        // Fallback to API if WebSocket is not connected
-        const response = await fetch('/api/chat-messages', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            roomId: room.id,
-            userId: user.id,
-            content: messageText,
-            mediaType: 'text',
-            mediaUrl: ''
-          }),
-          credentials: 'include'
-        });
-        
-        if (!response.ok) {
-          throw new Error('Failed to send message');
-        }
-        
-        const newMessage = await response.json();
-        
-        // Add the new message to the query cache
-        queryClient.setQueryData(
-          [`/api/chat-messages/${room.id}`],
-          (oldData: ChatMessage[] = []) => [...oldData, newMessage]
-        );
-      }
-      
-      // Clear input
-      setMessageText('');
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to send message. Please try again.",
-        variant: "destructive",
-      });
-    }
+    // Shown as pending until the server confirms it, and sent again after a reconnect
+    queueMessage({
+      senderId: user.id,
+      roomId: room.id,
+      content: messageText,
+      mediaType: 'text',
+      mediaUrl: '',
+      replyToId: replyingTo?.id
+    });
+    scrollToBottom();
+    
+    // Clear input
+    setMessageText('');
+    setReplyingTo(null);
   };
   
   const handleMediaUpload = async (file: File, type: 'image' | 'audio' | 'video') => {
@@ -136,44 +172,19 @@ const ChatRoomComponent: React.FC<ChatRoomComponentProps> = ({ room }) => {
       const content = `Shared a ${type}: ${result.title}`;
       const mediaUrl = result.url;
       
-      // Send via WebSocket
-      const sent = socketClient.sendChatRoomMessage(
-        room.id, 
-        content, 
-        type, 
-        mediaUrl
-      );
-      
-      if (!sent) {
-        // Fallback to API
-        const response = await fetch('/api/chat-messages', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            roomId: room.id,
-            userId: user.id,
-            content,
-            mediaType: type,
-            mediaUrl
-          }),
-          credentials: 'include'
-        });
-        
-        if (!response.ok) {
-          throw new Error('Failed to send message with media');
-        }
-        
-        const newMessage = await response.json();
-        
-        // Add the new message to the query cache
-        queryClient.setQueryData(
-          [`/api/chat-messages/${room.id}`],
-          (oldData: ChatMessage[] = []) => [...oldData, newMessage]
-        );
-      }
+      queueMessage({
+        senderId: user.id,
+        roomId: room.id,
+        content,
+        mediaType: type,
+        mediaUrl,
+        replyToId: replyingTo?.id
+      });
+      scrollToBottom();
       
       // Close media upload
       setMediaUploadOpen(false);
+      setReplyingTo(null);
     } catch (error) {
       toast({
         title: "Error",
@@ -183,10 +194,58 @@ const ChatRoomComponent: React.FC<ChatRoomComponentProps> = ({ room }) => {
     }
   };
   
+  const handleEditMessage = async (messageId: number, content: string) => {
+    try {
+      const response = await apiRequest('PATCH', `/api/chat-messages/${messageId}`, { content });
+      updateMessage(await response.json());
+      setEditingMessageId(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to edit message. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handleDeleteMessage = async (messageId: number) => {
+    try {
+      const response = await apiRequest('DELETE', `/api/chat-messages/${messageId}`);
+      updateMessage(await response.json());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete message. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handleToggleReaction = async (messageId: number, emoji: string, reacted: boolean) => {
+    try {
+      const response = reacted
+        ? await apiRequest('DELETE', `/api/chat-messages/${messageId}/reactions/${encodeURIComponent(emoji)}`)
+        : await apiRequest('POST', `/api/chat-messages/${messageId}/reactions`, { emoji });
+      const { reactions } = await response.json();
+      updateMessage({ id: messageId, reactions });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update reaction. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
   const getMemberById = (id: number): User | undefined => {
     return (Array.isArray(members) ? members : []).find(member => member.id === id);
   };
   
+  const authorName = (authorId: number) =>
+    authorId === user?.id ? 'You' : getMemberById(authorId)?.displayName || 'Unknown User';
+  
+  const typingText = describeTyping(typingUserIds.map(authorName));
+  
   if (!user) return null;
   
   return (
@@ -229,7 +288,10 @@ const ChatRoomComponent: React.FC<ChatRoomComponentProps> = ({ room }) => {
                         <AvatarFallback>{member.displayName.substring(0, 2).toUpperCase()}</AvatarFallback>
                       </Avatar>
                       <div>
-                        <p className="text-sm font-medium">{member.displayName}</p>
+                        <div className="flex items-center space-x-2">
+                          <p className="text-sm font-medium">{member.displayName}</p>
+                          <PresenceDot user={member} />
+                        </div>
                         <p className="text-xs text-gray-500">@{member.username}</p>
                       </div>
                     </div>
@@ -244,22 +306,29 @@ const ChatRoomComponent: React.FC<ChatRoomComponentProps> = ({ room }) => {
       </div>
       
       {/* Messages */}
-      <ScrollArea className="flex-1 p-4">
+      <div ref={containerRef} onScroll={onScroll} className="flex-1 overflow-y-auto p-4">
         <div className="space-y-4">
+          {isFetchingOlder && (
+            <p className="text-center text-sm text-gray-500">Loading earlier messages...</p>
+          )}
           {messagesLoading ? (
             <div className="flex justify-center items-center h-32">
               <p className="text-gray-500">Loading messages...</p>
             </div>
-          ) : Array.isArray(messages) && messages.length > 0 ? (
+          ) : messages.length > 0 || outbox.length > 0 ? (
             messages.map((message) => {
               const isCurrentUser = message.userId === user.id;
-              const date = new Date(message.createdAt);
+              const date = message.createdAt ? new Date(message.createdAt) : new Date();
               const sender = getMemberById(message.userId);
+              const isDeleted = !!message.deletedAt;
               
               return (
                 <div 
                   key={message.id} 
-                  className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'}`}
+                  data-message-id={message.id}
+                  className={`flex rounded-lg transition-colors ${isCurrentUser ? 'justify-end' : 'justify-start'} ${
+                    highlightedId === message.id ? 'bg-yellow-50' : ''
+                  }`}
                 >
                   {!isCurrentUser && (
                     <Avatar className="h-8 w-8 mr-2 flex-shrink-0">
@@ -268,47 +337,92 @@ const ChatRoomComponent: React.FC<ChatRoomComponentProps> = ({ room }) => {
                     </Avatar>
                   )}
                   
-                  <div 
-                    className={`max-w-[75%] rounded-lg p-3 ${
-                      isCurrentUser 
-                        ? 'bg-primary text-white' 
-                        : 'bg-gray-100 text-gray-900'
-                    }`}
-                  >
-                    {!isCurrentUser && (
-                      <p className={`text-xs font-medium mb-1 ${isCurrentUser ? 'text-gray-200' : 'text-gray-700'}`}>
-                        {sender?.displayName || 'Unknown User'}
-                      </p>
-                    )}
+                  {!isDeleted && (
+                    <MessageActions
+                      canEdit={isCurrentUser}
+                      canDelete={isCurrentUser || canModerate}
+                      historyUrl={canModerate ? `/api/chat-messages/${message.id}/edits` : undefined}
+                      onEdit={() => setEditingMessageId(message.id)}
+                      onDelete={() => handleDeleteMessage(message.id)}
+                      onReply={() => setReplyingTo(message)}
+                    />
+                  )}
+                  
+                  <div className={`flex flex-col max-w-[75%] ${isCurrentUser ? 'items-end' : 'items-start'}`}>
+                    <div 
+                      className={`rounded-lg p-3 ${
+                        isCurrentUser 
+                          ? 'bg-primary text-white' 
+                          : 'bg-gray-100 text-gray-900'
+                      }`}
+                    >
+                      {!isCurrentUser && (
+                        <p className={`text-xs font-medium mb-1 ${isCurrentUser ? 'text-gray-200' : 'text-gray-700'}`}>
+                          {sender?.displayName || 'Unknown User'}
+                        </p>
+                      )}
                     
-                    {message.mediaType === 'image' && (
-                      <a href={message.mediaUrl} target="_blank" rel="noopener noreferrer">
-                        <img 
-                          src={message.mediaUrl} 
-                          alt="Shared image" 
-                          className="max-w-full rounded mb-2"
+                      {!isDeleted && message.replyTo && (
+                        <ReplyQuote
+                          preview={quoteOf(message.replyTo)}
+                          authorName={authorName(quoteOf(message.replyTo).authorId)}
+                          isCurrentUser={isCurrentUser}
+                          onClick={() => scrollToMessage(message.replyTo!.id)}
                         />
-                      </a>
-                    )}
+                      )}
+                      
+                      {!isDeleted && message.mediaType === 'image' && (
+                        <a href={message.mediaUrl || undefined} target="_blank" rel="noopener noreferrer">
+                          <img 
+                            src={message.mediaUrl || undefined} 
+                            alt="Shared image" 
+                            className="max-w-full rounded mb-2"
+                          />
+                        </a>
+                      )}
                     
-                    {message.mediaType === 'audio' && (
-                      <audio controls className="w-full mb-2">
-                        <source src={message.mediaUrl} />
-                        Your browser does not support the audio element.
-                      </audio>
-                    )}
+                      {!isDeleted && message.mediaType === 'audio' && (
+                        <audio controls className="w-full mb-2">
+                          <source src={message.mediaUrl || undefined} />
+                          Your browser does not support the audio element.
+                        </audio>
+                      )}
                     
-                    {message.mediaType === 'video' && (
-                      <video controls className="max-w-full rounded mb-2">
-                        <source src={message.mediaUrl} />
-                        Your browser does not support the video element.
-                      </video>
-                    )}
+                      {!isDeleted && message.mediaType === 'video' && (
+                        <video controls className="max-w-full rounded mb-2">
+                          <source src={message.mediaUrl || undefined} />
+                          Your browser does not support the video element.
+                        </video>
+                      )}
                     
-                    <p>{message.content}</p>
-                    <p className={`text-xs mt-1 ${isCurrentUser ? 'text-gray-200' : 'text-gray-500'}`}>
-                      {format(date, 'p')}
-                    </p>
+                      {isDeleted ? (
+                        <p className="italic opacity-75">
+                          {message.deletedBy && message.deletedBy !== message.userId
+                            ? 'This message was removed by a moderator'
+                            : 'This message was deleted'}
+                        </p>
+                      ) : editingMessageId === message.id ? (
+                        <MessageEditor
+                          initialContent={message.content}
+                          onSave={(content) => handleEditMessage(message.id, content)}
+                          onCancel={() => setEditingMessageId(null)}
+                        />
+                      ) : (
+                        <p>{message.content}</p>
+                      )}
+                      <p className={`text-xs mt-1 ${isCurrentUser ? 'text-gray-200' : 'text-gray-500'}`}>
+                        {format(date, 'p')}
+                        {message.editedAt && !isDeleted && ' · edited'}
+                      </p>
+                    </div>
+                    {!isDeleted && (
+                      <MessageReactions
+                        reactions={message.reactions || []}
+                        currentUserId={user.id}
+                        onToggle={(emoji, reacted) => handleToggleReaction(message.id, emoji, reacted)}
+                        align={isCurrentUser ? 'end' : 'start'}
+                      />
+                    )}
                   </div>
                   
                   {isCurrentUser && (
@@ -326,9 +440,15 @@ const ChatRoomComponent: React.FC<ChatRoomComponentProps> = ({ room }) => {
               <p className="text-sm text-gray-400">Be the first to send a message in this room!</p>
             </div>
           )}
-          <div ref={messagesEndRef} />
+          {!messagesLoading && outbox.map((entry) => (
+            <PendingMessage key={entry.clientId} entry={entry} sender={user} />
+          ))}
         </div>
-      </ScrollArea>
+      </div>
+      
+      {typingText && (
+        <p className="px-4 pb-1 text-xs italic text-gray-500">{typingText}</p>
+      )}
       
       {/* Media upload selection */}
       {mediaUploadOpen && (
@@ -388,6 +508,13 @@ const ChatRoomComponent: React.FC<ChatRoomComponentProps> = ({ room }) => {
       
       {/* Input */}
       <div className="p-4 border-t border-gray-200">
+        {replyingTo && (
+          <ReplyComposerBar
+            preview={toReplyPreview(replyingTo, replyingTo.userId)}
+            authorName={authorName(replyingTo.userId)}
+            onCancel={() => setReplyingTo(null)}
+          />
+        )}
         <div className="flex items-center">
           <Button 
             variant="ghost" 
@@ -400,7 +527,14 @@ const ChatRoomComponent: React.FC<ChatRoomComponentProps> = ({ room }) => {
           
           <Input
             value={messageText}
-            onChange={(e) => setMessageText(e.target.value)}
+            onChange={(e) => {
+              setMessageText(e.target.value);
+              if (e.target.value.trim()) {
+                notifyTyping();
+              } else {
+                stopTyping();
+              }
+            }}
             placeholder="Type your message..."
             className="flex-1 mx-2"
             onKeyDown={(e) => {
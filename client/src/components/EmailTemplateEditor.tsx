@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, RotateCcw, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, authHeaders } from '@/lib/queryClient';
+import {
+  EMAIL_TEMPLATE_NAMES,
+  EMAIL_TEMPLATE_VARIABLES,
+  renderEmailTemplate,
+  type EmailTemplateContent,
+  type EmailTemplateName,
+} from '@shared/email-templates';
+import { SUPPORTED_LANGUAGES, type SupportedLanguage } from '@shared/schema';
+
+interface EmailTemplate extends EmailTemplateContent {
+  name: EmailTemplateName;
+  locale: SupportedLanguage;
+  isCustom: boolean;
+  variables: string[];
+  updatedAt: string | null;
+}
+
+const templateTitles: Record<EmailTemplateName, string> = {
+  verification: 'Подтверждение email',
+  password_reset: 'Восстановление пароля',
+  digest: 'Дайджест непрочитанных',
+  ban_notice: 'Уведомление о блокировке',
+};
+
+const languageTitles: Record<SupportedLanguage, string> = {
+  en: 'English',
+  ru: 'Русский',
+};
+
+const emptyDraft: EmailTemplateContent = { subject: '', html: '', text: '' };
+
+export function EmailTemplateEditor() {
+  const [name, setName] = useState<EmailTemplateName>('verification');
+  const [locale, setLocale] = useState<SupportedLanguage>('en');
+  const [draft, setDraft] = useState<EmailTemplateContent>(emptyDraft);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery<EmailTemplate[]>({
+    queryKey: ['admin', 'email-templates'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/email-templates', { headers: authHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch email templates');
+      return response.json();
+    },
+  });
+
+  const template = templates.find(item => item.name === name && item.locale === locale);
+
+  // Load the stored version whenever another template is selected, saved or reset,
+  // but not on background refetches that would discard unsaved edits
+  const templateVersion = template ? `${template.name}:${template.locale}:${template.isCustom}:${template.updatedAt}` : null;
+  useEffect(() => {
+    if (template) {
+      setDraft({ subject: template.subject, html: template.html, text: template.text });
+    }
+  }, [templateVersion]);
+
+  const isDirty = !!template && (
+    draft.subject !== template.subject || draft.html !== template.html || draft.text !== template.text
+  );
+
+  // The preview uses the same interpolation as the server, filled with sample values
+  const preview = useMemo(() => renderEmailTemplate(draft, EMAIL_TEMPLATE_VARIABLES[name]), [draft, name]);
+
+  const onSaved = (title: string) => (saved: EmailTemplate) => {
+    queryClient.setQueryData<EmailTemplate[]>(['admin', 'email-templates'], (current = []) =>
+      current.map(item => (item.name === saved.name && item.locale === saved.locale ? saved : item))
+    );
+    toast({ title });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', `/api/admin/email-templates/${name}/${locale}`, draft);
+      return response.json() as Promise<EmailTemplate>;
+    },
+    onSuccess: onSaved('Шаблон сохранён'),
+    onError: () => {
+      toast({
+        title: 'Ошибка',
+        description: 'Не удалось сохранить шаблон. Тема, HTML и текст обязательны',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', `/api/admin/email-templates/${name}/${locale}`);
+      return response.json() as Promise<EmailTemplate>;
+    },
+    onSuccess: onSaved('Восстановлен шаблон по умолчанию'),
+    onError: () => {
+      toast({
+        title: 'Ошибка',
+        description: 'Не удалось сбросить шаблон',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const isSaving = saveMutation.isPending || resetMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Шаблоны писем</CardTitle>
+        <CardDescription>
+          Письма отправляются на языке пользователя. Переменные вставляются как {'{{name}}'};
+          в HTML значения экранируются, {'{{{name}}}'} вставляет их как есть
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={name} onValueChange={(value) => setName(value as EmailTemplateName)}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EMAIL_TEMPLATE_NAMES.map(item => (
+                <SelectItem key={item} value={item}>{templateTitles[item]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={locale} onValueChange={(value) => setLocale(value as SupportedLanguage)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPORTED_LANGUAGES.map(item => (
+                <SelectItem key={item} value={item}>{languageTitles[item]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {template && (
+            <Badge variant={template.isCustom ? 'default' : 'secondary'}>
+              {template.isCustom ? 'Изменён' : 'По умолчанию'}
+            </Badge>
+          )}
+        </div>
+
+        {isLoading || !template ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="email-template-subject">Тема</Label>
+                <Input
+                  id="email-template-subject"
+                  value={draft.subject}
+                  onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="email-template-html">HTML</Label>
+                <Textarea
+                  id="email-template-html"
+                  className="font-mono text-xs min-h-[200px]"
+                  value={draft.html}
+                  onChange={(e) => setDraft({ ...draft, html: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="email-template-text">Текстовая версия</Label>
+                <Textarea
+                  id="email-template-text"
+                  className="font-mono text-xs min-h-[120px]"
+                  value={draft.text}
+                  onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                />
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {template.variables.map(variable => (
+                  <Badge key={variable} variant="outline" className="font-mono">
+                    {`{{${variable}}}`}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={() => saveMutation.mutate()} disabled={!isDirty || isSaving}>
+                  {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  Сохранить
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => resetMutation.mutate()}
+                  disabled={!template.isCustom || isSaving}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Сбросить
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Предпросмотр</Label>
+              <p className="text-sm font-medium">{preview.subject}</p>
+              <Tabs defaultValue="html">
+                <TabsList>
+                  <TabsTrigger value="html">HTML</TabsTrigger>
+                  <TabsTrigger value="text">Текст</TabsTrigger>
+                </TabsList>
+                <TabsContent value="html">
+                  {/* sandbox without allow-scripts keeps template markup inert */}
+                  <iframe
+                    title="Предпросмотр письма"
+                    sandbox=""
+                    srcDoc={preview.html}
+                    className="w-full h-80 rounded-md border bg-white"
+                  />
+                </TabsContent>
+                <TabsContent value="text">
+                  <pre className="h-80 overflow-auto whitespace-pre-wrap rounded-md border p-3 text-sm">
+                    {preview.text}
+                  </pre>
+                </TabsContent>
+              </Tabs>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import React, { useState } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -7,6 +7,87 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Mail, Check, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import { useLanguage } from '@/lib/language-context';
+
+interface VerificationCodeStepProps {
+  email: string;
+  code: string;
+  onCodeChange: (code: string) => void;
+  onSubmit: () => void;
+  onResend: () => void;
+  onChangeEmail: () => void;
+  isSubmitting: boolean;
+  isResending: boolean;
+  submitLabel: string;
+  // Extra fields rendered between the code input and the buttons
+  children?: React.ReactNode;
+}
+
+// Entry form for a 6-digit code sent by email, shared by email verification
+// and password reset
+export function VerificationCodeStep({
+  email,
+  code,
+  onCodeChange,
+  onSubmit,
+  onResend,
+  onChangeEmail,
+  isSubmitting,
+  isResending,
+  submitLabel,
+  children
+}: VerificationCodeStepProps) {
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          Код отправлен на {email}. Проверьте папку "Спам" если не получили письмо.
+        </AlertDescription>
+      </Alert>
+      
+      <Input
+        placeholder="Введите 6-значный код"
+        value={code}
+        onChange={(e) => {
+          const value = e.target.value.replace(/\D/g, '').slice(0, 6);
+          onCodeChange(value);
+        }}
+        disabled={isSubmitting}
+        maxLength={6}
+        className="text-center text-lg tracking-widest"
+      />
+      
+      {children}
+      
+      <div className="flex space-x-2">
+        <Button
+          onClick={onSubmit}
+          disabled={isSubmitting || code.length !== 6}
+          className="flex-1"
+        >
+          {isSubmitting ? 'Проверка...' : submitLabel}
+        </Button>
+        
+        <Button
+          variant="outline"
+          onClick={onResend}
+          disabled={isResending}
+        >
+          Отправить снова
+        </Button>
+      </div>
+      
+      <Button
+        variant="ghost"
+        onClick={onChangeEmail}
+        className="w-full"
+      >
+        Изменить email
+      </Button>
+    </div>
+  );
+}
 
 interface EmailVerificationProps {
   email?: string;
@@ -24,12 +105,14 @@ export function EmailVerification({
   const [codeSent, setCodeSent] = useState(false);
   const [isVerified, setIsVerified] = useState(false);
   const { toast } = useToast();
+  const { language } = useLanguage();
 
   // Send verification code mutation
   const sendCodeMutation = useMutation({
     mutationFn: async (emailAddress: string) => {
       return apiRequest('POST', '/api/auth/send-verification', {
         email: emailAddress,
+        language,
       });
     },
     onSuccess: () => {
@@ -153,55 +236,20 @@ export function EmailVerification({
             </Button>
           </div>
         ) : (
-          <div className="space-y-4">
-            <Alert>
-              <AlertCircle className="h-4 w-4" />
-              <AlertDescription>
-                Код отправлен на {email}. Проверьте папку "Спам" если не получили письмо.
-              </AlertDescription>
-            </Alert>
-            
-            <Input
-              placeholder="Введите 6-значный код"
-              value={verificationCode}
-              onChange={(e) => {
-                const value = e.target.value.replace(/\D/g, '').slice(0, 6);
-                setVerificationCode(value);
-              }}
-              disabled={verifyCodeMutation.isPending}
-              maxLength={6}
-              className="text-center text-lg tracking-widest"
-            />
-            
-            <div className="flex space-x-2">
-              <Button
-                onClick={handleVerifyCode}
-                disabled={verifyCodeMutation.isPending || verificationCode.length !== 6}
-                className="flex-1"
-              >
-                {verifyCodeMutation.isPending ? 'Проверка...' : 'Подтвердить'}
-              </Button>
-              
-              <Button
-                variant="outline"
-                onClick={handleResendCode}
-                disabled={sendCodeMutation.isPending}
-              >
-                Отправить снова
-              </Button>
-            </div>
-            
-            <Button
-              variant="ghost"
-              onClick={() => {
-                setCodeSent(false);
-                setVerificationCode('');
-              }}
-              className="w-full"
-            >
-              Изменить email
-            </Button>
-          </div>
+          <VerificationCodeStep
+            email={email}
+            code={verificationCode}
+            onCodeChange={setVerificationCode}
+            onSubmit={handleVerifyCode}
+            onResend={handleResendCode}
+            onChangeEmail={() => {
+              setCodeSent(false);
+              setVerificationCode('');
+            }}
+            isSubmitting={verifyCodeMutation.isPending}
+            isResending={sendCodeMutation.isPending}
+            submitLabel="Подтвердить"
+          />
         )}
       </CardContent>
     </Card>
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { MessageEdit } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { MoreVertical, Pencil, Trash2, History, Reply, Check, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface MessageActionsProps {
+  canEdit: boolean;
+  canDelete: boolean;
+  // Endpoint with the message's previous versions, set only for users allowed to see them
+  historyUrl?: string;
+  onEdit: () => void;
+  onDelete: () => void;
+  onReply?: () => void;
+}
+
+// Menu shown next to a message bubble; renders nothing when no action is allowed
+export const MessageActions: React.FC<MessageActionsProps> = ({ canEdit, canDelete, historyUrl, onEdit, onDelete, onReply }) => {
+  const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  const { data: edits, isLoading: editsLoading } = useQuery<MessageEdit[]>({
+    queryKey: [historyUrl],
+    enabled: historyOpen && !!historyUrl,
+    staleTime: 0,
+  });
+
+  if (!canEdit && !canDelete && !historyUrl && !onReply) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-6 w-6 self-center text-gray-400">
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {onReply && (
+            <DropdownMenuItem onSelect={onReply}>
+              <Reply className="h-4 w-4 mr-2" />
+              Reply
+            </DropdownMenuItem>
+          )}
+          {canEdit && (
+            <DropdownMenuItem onSelect={onEdit}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </DropdownMenuItem>
+          )}
+          {historyUrl && (
+            <DropdownMenuItem onSelect={() => setHistoryOpen(true)}>
+              <History className="h-4 w-4 mr-2" />
+              Edit history
+            </DropdownMenuItem>
+          )}
+          {canDelete && (
+            <DropdownMenuItem className="text-red-600" onSelect={() => setConfirmDeleteOpen(true)}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={confirmDeleteOpen} onOpenChange={setConfirmDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everyone in the conversation will see that a message was deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {historyUrl && (
+        <Dialog open={historyOpen} onOpenChange={setHistoryOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Edit history</DialogTitle>
+              <DialogDescription>Previous versions of this message, oldest first</DialogDescription>
+            </DialogHeader>
+            {editsLoading ? (
+              <p className="text-sm text-gray-500">Loading history...</p>
+            ) : edits && edits.length > 0 ? (
+              <div className="space-y-3 max-h-80 overflow-y-auto">
+                {edits.map(edit => (
+                  <div key={edit.id} className="rounded-md border p-3">
+                    <p className="text-sm whitespace-pre-wrap">{edit.content}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Replaced {edit.createdAt ? format(new Date(edit.createdAt), 'PPp') : ''}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">This message has not been changed</p>
+            )}
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  );
+};
+
+interface MessageEditorProps {
+  initialContent: string;
+  onSave: (content: string) => void;
+  onCancel: () => void;
+}
+
+// Inline replacement for a message's text while it is being edited
+export const MessageEditor: React.FC<MessageEditorProps> = ({ initialContent, onSave, onCancel }) => {
+  const [content, setContent] = useState(initialContent);
+  const canSave = !!content.trim() && content.trim() !== initialContent;
+
+  return (
+    <div className="flex items-center gap-1">
+      <Input
+        autoFocus
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        className="h-8 text-gray-900"
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            if (canSave) onSave(content.trim());
+          } else if (e.key === 'Escape') {
+            onCancel();
+          }
+        }}
+      />
+      <Button size="icon" variant="ghost" className="h-8 w-8" disabled={!canSave} onClick={() => onSave(content.trim())}>
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onCancel}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
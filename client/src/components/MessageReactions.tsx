@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { REACTION_EMOJIS, ReactionSummary } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SmilePlus } from 'lucide-react';
+
+interface MessageReactionsProps {
+  reactions: ReactionSummary[];
+  currentUserId: number;
+  onToggle: (emoji: string, reacted: boolean) => void;
+  align?: 'start' | 'end';
+}
+
+// Reaction chips under a message bubble, followed by the emoji picker.
+// Clicking a chip adds the reaction, or removes it if it is the user's own.
+export const MessageReactions: React.FC<MessageReactionsProps> = ({ reactions, currentUserId, onToggle, align = 'start' }) => {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const hasReacted = (emoji: string) =>
+    !!reactions.find(reaction => reaction.emoji === emoji)?.userIds.includes(currentUserId);
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 mt-1 ${align === 'end' ? 'justify-end' : ''}`}>
+      {reactions.map(reaction => {
+        const reacted = reaction.userIds.includes(currentUserId);
+        return (
+          <button
+            key={reaction.emoji}
+            type="button"
+            onClick={() => onToggle(reaction.emoji, reacted)}
+            className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+              reacted
+                ? 'border-primary bg-primary/10 text-primary'
+                : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <span>{reaction.emoji}</span>
+            <span>{reaction.count}</span>
+          </button>
+        );
+      })}
+
+      <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-6 w-6 text-gray-400">
+            <SmilePlus className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-1 flex gap-1" align={align}>
+          {REACTION_EMOJIS.map(emoji => (
+            <button
+              key={emoji}
+              type="button"
+              className={`rounded p-1 text-lg hover:bg-gray-100 ${hasReacted(emoji) ? 'bg-primary/10' : ''}`}
+              onClick={() => {
+                onToggle(emoji, hasReacted(emoji));
+                setPickerOpen(false);
+              }}
+            >
+              {emoji}
+            </button>
+          ))}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ReplyPreview } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Reply, X } from 'lucide-react';
+
+// Text for a quoted message, falling back to its media type for media without a caption
+function describeQuote(content: string, mediaType: string | null): string {
+  if (content) return content;
+  return mediaType && mediaType !== 'text' ? `[${mediaType}]` : '';
+}
+
+// Builds a preview on the client for messages that are already loaded, so
+// quotes follow later edits and deletions of the original
+export function toReplyPreview(
+  message: { id: number; content: string; mediaType: string | null; deletedAt: Date | string | null },
+  authorId: number
+): ReplyPreview {
+  const deleted = !!message.deletedAt;
+  return { id: message.id, authorId, content: deleted ? '' : message.content, mediaType: message.mediaType, deleted };
+}
+
+interface ReplyQuoteProps {
+  preview: ReplyPreview;
+  authorName: string;
+  isCurrentUser: boolean;
+  onClick: () => void;
+}
+
+// Quote block at the top of a reply; clicking it jumps to the original
+export const ReplyQuote: React.FC<ReplyQuoteProps> = ({ preview, authorName, isCurrentUser, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`block w-full text-left mb-2 border-l-2 pl-2 text-sm ${
+      isCurrentUser ? 'border-white/70 text-gray-100' : 'border-primary text-gray-600'
+    }`}
+  >
+    {preview.deleted ? (
+      <span className="italic">Deleted message</span>
+    ) : (
+      <>
+        <span className="block text-xs font-medium">{authorName}</span>
+        <span className="block truncate">{describeQuote(preview.content, preview.mediaType)}</span>
+      </>
+    )}
+  </button>
+);
+
+interface ReplyComposerBarProps {
+  preview: ReplyPreview;
+  authorName: string;
+  onCancel: () => void;
+}
+
+// Shown above the message input while composing a reply
+export const ReplyComposerBar: React.FC<ReplyComposerBarProps> = ({ preview, authorName, onCancel }) => (
+  <div className="flex items-center mb-3 text-sm">
+    <Reply className="h-4 w-4 mr-2 text-primary flex-shrink-0" />
+    <div className="flex-1 min-w-0 border-l-2 border-primary pl-2">
+      <p className="text-xs font-medium">Replying to {authorName}</p>
+      <p className="truncate text-gray-500">{describeQuote(preview.content, preview.mediaType)}</p>
+    </div>
+    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onCancel}>
+      <X className="h-4 w-4" />
+    </Button>
+  </div>
+);
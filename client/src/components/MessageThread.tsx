@@ -1,107 +1,194 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { User, Message } from '@shared/schema';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { User, Message, ReactionSummary, ReplyPreview } from '@shared/schema';
 import { socketClient } from '@/lib/socket';
 import { useAuth } from '@/lib/auth-context';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
-import { Paperclip, Send, Image, Mic, Video } from 'lucide-react';
+import { Paperclip, Send, Image, Mic, Video, Check, CheckCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { queryClient } from '@/lib/queryClient';
+import { apiRequest } from '@/lib/queryClient';
+import { useMessageHistory } from '@/lib/message-history';
+import { useTypingSender, useTypingUsers, describeTyping } from '@/lib/typing';
+import { MessageActions, MessageEditor } from '@/components/MessageActions';
+import { MessageReactions } from '@/components/MessageReactions';
+import { ReplyQuote, ReplyComposerBar, toReplyPreview } from '@/components/MessageReply';
 import { useMediaUpload, getMediaTypeFromFile } from '@/lib/media';
-import { format } from 'date-fns';
+import { usePresence } from '@/lib/presence';
+import { queueMessage, onMessageSent, useOutbox } from '@/lib/outbox';
+import { PendingMessage } from '@/components/PendingMessage';
+import { format, formatDistanceToNow } from 'date-fns';
+
+// History responses include aggregated reactions and quoted message previews; socket events may not
+type ThreadMessage = Message & { reactions?: ReactionSummary[]; replyTo?: ReplyPreview | null };
 
 interface MessageThreadProps {
   receiver: User;
 }
 
+// Sent, delivered and read ticks on the user's own messages
+const MessageTicks: React.FC<{ message: Message }> = ({ message }) => {
+  if (message.read) return <CheckCheck className="inline h-3 w-3 ml-1 text-sky-300" aria-label="Read" />;
+  if (message.delivered) return <CheckCheck className="inline h-3 w-3 ml-1" aria-label="Delivered" />;
+  return <Check className="inline h-3 w-3 ml-1" aria-label="Sent" />;
+};
+
 const MessageThread: React.FC<MessageThreadProps> = ({ receiver }) => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const messagesEndRef = useRef<HTMLDivElement>(null);
   const [messageText, setMessageText] = useState('');
   const [mediaUploadOpen, setMediaUploadOpen] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
+  const [replyingTo, setReplyingTo] = useState<ThreadMessage | null>(null);
   const { uploadMedia, isUploading } = useMediaUpload();
   
-  // Fetch messages
-  const { data: messages, isLoading } = useQuery({
-    queryKey: [`/api/messages/${user?.id}/${receiver.id}`],
-    enabled: !!user && !!receiver,
-    refetchInterval: 5000, // Poll every 5 seconds as a fallback
-  });
+  // Fetch messages, older pages load as the list is scrolled up
+  const {
+    messages,
+    isLoading,
+    isFetchingOlder,
+    containerRef,
+    onScroll,
+    scrollToMessage,
+    highlightedId,
+    appendMessage,
+    updateMessage,
+    updateMatchingMessages,
+    scrollToBottom,
+  } = useMessageHistory<ThreadMessage>(`/api/messages/${user?.id}/${receiver.id}`, !!user && !!receiver);
+  
+  const messagesById = useMemo(() => new Map(messages.map(message => [message.id, message])), [messages]);
+  const { notifyTyping, stopTyping } = useTypingSender({ receiverId: receiver.id });
+  const peerTyping = useTypingUsers({ receiverId: receiver.id }).length > 0;
+  const presence = usePresence(receiver);
+  const outbox = useOutbox(user?.id, { receiverId: receiver.id });
+
+  const authorName = (authorId: number) => (authorId === user?.id ? 'You' : receiver.displayName);
+  
+  // Quotes of loaded messages are rebuilt locally so they follow edits and deletions
+  const quoteOf = (preview: ReplyPreview): ReplyPreview => {
+    const original = messagesById.get(preview.id);
+    return original ? toReplyPreview(original, original.senderId) : preview;
+  };
+  
+  // Highest incoming message id already reported as read in this thread
+  const lastMarkedReadRef = useRef(0);
+  
+  // A reply can't outlive its thread
+  useEffect(() => {
+    setReplyingTo(null);
+    lastMarkedReadRef.current = 0;
+  }, [receiver.id]);
+  
+  // Incoming messages count as read once they are loaded in a visible tab
+  useEffect(() => {
+    if (!user) return;
+    
+    const markRead = () => {
+      if (document.visibilityState !== 'visible') return;
+      
+      const unreadIds = messages.filter(message => message.senderId === receiver.id && !message.read).map(message => message.id);
+      const upToId = Math.max(0, ...unreadIds);
+      if (upToId <= lastMarkedReadRef.current) return;
+      
+      lastMarkedReadRef.current = upToId;
+      if (!socketClient.sendMarkRead(receiver.id, upToId)) {
+        apiRequest('POST', `/api/conversations/${receiver.id}/read`, { upToId }).catch(() => {
+          // Let the next change try again
+          lastMarkedReadRef.current = 0;
+        });
+      }
+    };
+    
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [user, receiver.id, messages]);
   
   // Set up WebSocket listener for new messages
   useEffect(() => {
     if (!user) return;
     
+    const isInThread = ({ senderId, receiverId }: Pick<Message, 'senderId' | 'receiverId'>) =>
+      (senderId === receiver.id && receiverId === user.id) ||
+      (senderId === user.id && receiverId === receiver.id);
+    
+    // Messages sent from the user's other devices arrive here too
     const unsubscribe = socketClient.onMessage('private_message', (data) => {
-      if (data.message.senderId === receiver.id && data.message.receiverId === user.id) {
-        // Add the new message to the query cache
-        queryClient.setQueryData(
-          [`/api/messages/${user.id}/${receiver.id}`],
-          (oldData: Message[] = []) => [...oldData, data.message]
+      if (isInThread(data.message)) {
+        appendMessage(data.message);
+      }
+    });
+    // Sent over REST while this client's socket was down, so no push arrives for it
+    const unsubscribeSent = onMessageSent((message) => {
+      if ('receiverId' in message && isInThread(message)) {
+        appendMessage(message);
+      }
+    });
+    const unsubscribeEdited = socketClient.onMessage('private_message_edited', (data) => {
+      if (isInThread(data.message)) {
+        updateMessage(data.message);
+      }
+    });
+    const unsubscribeDeleted = socketClient.onMessage('private_message_deleted', (data) => {
+      if (isInThread(data.message)) {
+        updateMessage(data.message);
+      }
+    });
+    const unsubscribeReactions = socketClient.onMessage('private_message_reactions', (data) => {
+      if (isInThread(data)) {
+        updateMessage({ id: data.messageId, reactions: data.reactions });
+      }
+    });
+    // Receipts cover every message from senderId to receiverId up to upToId; a
+    // read receipt also arrives when the user read the thread on another device
+    const unsubscribeDelivered = socketClient.onMessage('delivery_receipt', (data) => {
+      if (isInThread(data)) {
+        updateMatchingMessages(
+          message => message.senderId === data.senderId && message.id <= data.upToId,
+          { delivered: true }
+        );
+      }
+    });
+    const unsubscribeRead = socketClient.onMessage('read_receipt', (data) => {
+      if (isInThread(data)) {
+        updateMatchingMessages(
+          message => message.senderId === data.senderId && message.id <= data.upToId,
+          { delivered: true, read: true }
         );
       }
     });
     
     return () => {
       unsubscribe();
+      unsubscribeSent();
+      unsubscribeEdited();
+      unsubscribeDeleted();
+      unsubscribeReactions();
+      unsubscribeDelivered();
+      unsubscribeRead();
     };
   }, [user, receiver.id]);
   
-  // Scroll to bottom when messages change
-  useEffect(() => {
-    if (messages && messagesEndRef.current) {
-      messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
-    }
-  }, [messages]);
-  
-  const handleSendMessage = async () => {
+  const handleSendMessage = () => {
     if (!user || !messageText.trim()) return;
+    stopTyping();
     
-    try {
-      // Send via WebSocket
-      const sent = socketClient.sendPrivateMessage(receiver.id, messageText);
-      
-      if (!sent) {
-        // Fallback to API if WebSocket is not connected
-        const response = await fetch('/api/messages', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            senderId: user.id,
-            receiverId: receiver.id,
-            content: messageText,
-            mediaType: 'text',
-            mediaUrl: ''
-          }),
-          credentials: 'include'
-        });
-        
-        if (!response.ok) {
-          throw new Error('Failed to send message');
-        }
-        
-        const newMessage = await response.json();
-        
-        // Add the new message to the query cache
-        queryClient.setQueryData(
-          [`/api/messages/${user.id}/${receiver.id}`],
-          (oldData: Message[] = []) => [...oldData, newMessage]
-        );
-      }
-      
-      // Clear input
-      setMessageText('');
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to send message. Please try again.",
-        variant: "destructive",
-      });
-    }
+    // Shown as pending until the server confirms it, and sent again after a reconnect
+    queueMessage({
+      senderId: user.id,
+      receiverId: receiver.id,
+      content: messageText,
+      mediaType: 'text',
+      mediaUrl: '',
+      replyToId: replyingTo?.id
+    });
+    scrollToBottom();
+    
+    // Clear input
+    setMessageText('');
+    setReplyingTo(null);
   };
   
   const handleMediaUpload = async (file: File, type: 'image' | 'audio' | 'video') => {
@@ -123,44 +210,19 @@ const MessageThread: React.FC<MessageThreadProps> = ({ receiver }) => {
       const content = `Shared a ${type}: ${result.title}`;
       const mediaUrl = result.url;
       
-      // Send via WebSocket
-      const sent = socketClient.sendPrivateMessage(
-        receiver.id, 
-        content, 
-        type, 
-        mediaUrl
-      );
-      
-      if (!sent) {
-        // Fallback to API
-        const response = await fetch('/api/messages', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            senderId: user.id,
-            receiverId: receiver.id,
-            content,
-            mediaType: type,
-            mediaUrl
-          }),
-          credentials: 'include'
-        });
-        
-        if (!response.ok) {
-          throw new Error('Failed to send message with media');
-        }
-        
-        const newMessage = await response.json();
-        
-        // Add the new message to the query cache
-        queryClient.setQueryData(
-          [`/api/messages/${user.id}/${receiver.id}`],
-          (oldData: Message[] = []) => [...oldData, newMessage]
-        );
-      }
+      queueMessage({
+        senderId: user.id,
+        receiverId: receiver.id,
+        content,
+        mediaType: type,
+        mediaUrl,
+        replyToId: replyingTo?.id
+      });
+      scrollToBottom();
       
       // Close media upload
       setMediaUploadOpen(false);
+      setReplyingTo(null);
     } catch (error) {
       toast({
         title: "Error",
@@ -170,6 +232,49 @@ const MessageThread: React.FC<MessageThreadProps> = ({ receiver }) => {
     }
   };
   
+  const handleEditMessage = async (messageId: number, content: string) => {
+    try {
+      const response = await apiRequest('PATCH', `/api/messages/${messageId}`, { content });
+      updateMessage(await response.json());
+      setEditingMessageId(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to edit message. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handleDeleteMessage = async (messageId: number) => {
+    try {
+      const response = await apiRequest('DELETE', `/api/messages/${messageId}`);
+      updateMessage(await response.json());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete message. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handleToggleReaction = async (messageId: number, emoji: string, reacted: boolean) => {
+    try {
+      const response = reacted
+        ? await apiRequest('DELETE', `/api/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`)
+        : await apiRequest('POST', `/api/messages/${messageId}/reactions`, { emoji });
+      const { reactions } = await response.json();
+      updateMessage({ id: messageId, reactions });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update reaction. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
   if (!user) return null;
   
   return (
@@ -182,25 +287,37 @@ const MessageThread: React.FC<MessageThreadProps> = ({ receiver }) => {
         </Avatar>
         <div>
           <h2 className="text-lg font-semibold">{receiver.displayName}</h2>
-          <p className="text-sm text-gray-500">@{receiver.username}</p>
+          <p className="text-sm text-gray-500">
+            @{receiver.username}
+            {presence.isOnline
+              ? ' · Online'
+              : presence.lastSeen && ` · Last seen ${formatDistanceToNow(new Date(presence.lastSeen), { addSuffix: true })}`}
+          </p>
         </div>
       </div>
       
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div ref={containerRef} onScroll={onScroll} className="flex-1 overflow-y-auto p-4 space-y-4">
+        {isFetchingOlder && (
+          <p className="text-center text-sm text-gray-500">Loading earlier messages...</p>
+        )}
         {isLoading ? (
           <div className="flex justify-center items-center h-full">
             <p className="text-gray-500">Loading messages...</p>
           </div>
-        ) : Array.isArray(messages) && messages.length > 0 ? (
-          (messages as Message[]).map((message) => {
+        ) : messages.length > 0 || outbox.length > 0 ? (
+          messages.map((message) => {
             const isCurrentUser = message.senderId === user.id;
             const date = message.createdAt ? new Date(message.createdAt) : new Date();
+            const isDeleted = !!message.deletedAt;
             
             return (
               <div 
                 key={message.id} 
-                className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'}`}
+                data-message-id={message.id}
+                className={`flex rounded-lg transition-colors ${isCurrentUser ? 'justify-end' : 'justify-start'} ${
+                  highlightedId === message.id ? 'bg-yellow-50' : ''
+                }`}
               >
                 {!isCurrentUser && (
                   <Avatar className="h-8 w-8 mr-2 flex-shrink-0">
@@ -209,41 +326,83 @@ const MessageThread: React.FC<MessageThreadProps> = ({ receiver }) => {
                   </Avatar>
                 )}
                 
-                <div 
-                  className={`max-w-[75%] rounded-lg p-3 ${
-                    isCurrentUser 
-                      ? 'bg-primary text-white' 
-                      : 'bg-gray-100 text-gray-900'
-                  }`}
-                >
-                  {message.mediaType === 'image' && (
-                    <a href={message.mediaUrl || undefined} target="_blank" rel="noopener noreferrer">
-                      <img 
-                        src={message.mediaUrl || undefined} 
-                        alt="Shared image" 
-                        className="max-w-full rounded mb-2"
+                {!isDeleted && (
+                  <MessageActions
+                    canEdit={isCurrentUser}
+                    canDelete={isCurrentUser}
+                    historyUrl={user.role === 'admin' ? `/api/messages/${message.id}/edits` : undefined}
+                    onEdit={() => setEditingMessageId(message.id)}
+                    onDelete={() => handleDeleteMessage(message.id)}
+                    onReply={() => setReplyingTo(message)}
+                  />
+                )}
+                
+                <div className={`flex flex-col max-w-[75%] ${isCurrentUser ? 'items-end' : 'items-start'}`}>
+                  <div 
+                    className={`rounded-lg p-3 ${
+                      isCurrentUser 
+                        ? 'bg-primary text-white' 
+                        : 'bg-gray-100 text-gray-900'
+                    }`}
+                  >
+                    {!isDeleted && message.replyTo && (
+                      <ReplyQuote
+                        preview={quoteOf(message.replyTo)}
+                        authorName={authorName(quoteOf(message.replyTo).authorId)}
+                        isCurrentUser={isCurrentUser}
+                        onClick={() => scrollToMessage(message.replyTo!.id)}
                       />
-                    </a>
-                  )}
+                    )}
+                    
+                    {!isDeleted && message.mediaType === 'image' && (
+                      <a href={message.mediaUrl || undefined} target="_blank" rel="noopener noreferrer">
+                        <img 
+                          src={message.mediaUrl || undefined} 
+                          alt="Shared image" 
+                          className="max-w-full rounded mb-2"
+                        />
+                      </a>
+                    )}
                   
-                  {message.mediaType === 'audio' && (
-                    <audio controls className="w-full mb-2">
-                      <source src={message.mediaUrl || undefined} />
-                      Your browser does not support the audio element.
-                    </audio>
-                  )}
+                    {!isDeleted && message.mediaType === 'audio' && (
+                      <audio controls className="w-full mb-2">
+                        <source src={message.mediaUrl || undefined} />
+                        Your browser does not support the audio element.
+                      </audio>
+                    )}
                   
-                  {message.mediaType === 'video' && (
-                    <video controls className="max-w-full rounded mb-2">
-                      <source src={message.mediaUrl || undefined} />
-                      Your browser does not support the video element.
-                    </video>
-                  )}
+                    {!isDeleted && message.mediaType === 'video' && (
+                      <video controls className="max-w-full rounded mb-2">
+                        <source src={message.mediaUrl || undefined} />
+                        Your browser does not support the video element.
+                      </video>
+                    )}
                   
-                  <p>{message.content}</p>
-                  <p className={`text-xs mt-1 ${isCurrentUser ? 'text-gray-200' : 'text-gray-500'}`}>
-                    {format(date, 'p')}
-                  </p>
+                    {isDeleted ? (
+                      <p className="italic opacity-75">This message was deleted</p>
+                    ) : editingMessageId === message.id ? (
+                      <MessageEditor
+                        initialContent={message.content}
+                        onSave={(content) => handleEditMessage(message.id, content)}
+                        onCancel={() => setEditingMessageId(null)}
+                      />
+                    ) : (
+                      <p>{message.content}</p>
+                    )}
+                    <p className={`text-xs mt-1 ${isCurrentUser ? 'text-gray-200' : 'text-gray-500'}`}>
+                      {format(date, 'p')}
+                      {message.editedAt && !isDeleted && ' · edited'}
+                      {isCurrentUser && !isDeleted && <MessageTicks message={message} />}
+                    </p>
+                  </div>
+                  {!isDeleted && (
+                    <MessageReactions
+                      reactions={message.reactions || []}
+                      currentUserId={user.id}
+                      onToggle={(emoji, reacted) => handleToggleReaction(message.id, emoji, reacted)}
+                      align={isCurrentUser ? 'end' : 'start'}
+                    />
+                  )}
                 </div>
                 
                 {isCurrentUser && (
@@ -261,9 +420,15 @@ const MessageThread: React.FC<MessageThreadProps> = ({ receiver }) => {
             <p className="text-sm text-gray-400">Start a conversation with {receiver.displayName}</p>
           </div>
         )}
-        <div ref={messagesEndRef} />
+        {!isLoading && outbox.map((entry) => (
+          <PendingMessage key={entry.clientId} entry={entry} sender={user} />
+        ))}
       </div>
       
+      {peerTyping && (
+        <p className="px-4 pb-1 text-xs italic text-gray-500">{describeTyping([receiver.displayName])}</p>
+      )}
+      
       {/* Media upload selection */}
       {mediaUploadOpen && (
         <div className="p-3 border-t border-gray-200 grid grid-cols-3 gap-2">
@@ -322,6 +487,13 @@ const MessageThread: React.FC<MessageThreadProps> = ({ receiver }) => {
       
       {/* Input */}
       <div className="p-4 border-t border-gray-200">
+        {replyingTo && (
+          <ReplyComposerBar
+            preview={toReplyPreview(replyingTo, replyingTo.senderId)}
+            authorName={authorName(replyingTo.senderId)}
+            onCancel={() => setReplyingTo(null)}
+          />
+        )}
         <div className="flex items-center">
           <Button 
             variant="ghost" 
@@ -334,7 +506,14 @@ const MessageThread: React.FC<MessageThreadProps> = ({ receiver }) => {
           
           <Input
             value={messageText}
-            onChange={(e) => setMessageText(e.target.value)}
+            onChange={(e) => {
+              setMessageText(e.target.value);
+              if (e.target.value.trim()) {
+                notifyTyping();
+              } else {
+                stopTyping();
+              }
+            }}
             placeholder="Type your message..."
             className="flex-1 mx-2"
             onKeyDown={(e) => {
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { KeyRound } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { VerificationCodeStep } from '@/components/EmailVerification';
+
+interface PasswordResetProps {
+  onResetComplete?: () => void;
+  onCancel?: () => void;
+  className?: string;
+}
+
+export function PasswordReset({ onResetComplete, onCancel, className }: PasswordResetProps) {
+  const [email, setEmail] = useState('');
+  const [resetCode, setResetCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const { toast } = useToast();
+
+  // Request reset code mutation
+  const sendCodeMutation = useMutation({
+    mutationFn: async (emailAddress: string) => {
+      return apiRequest('POST', '/api/auth/forgot-password', {
+        email: emailAddress,
+      });
+    },
+    onSuccess: () => {
+      setCodeSent(true);
+      toast({
+        title: 'Код отправлен',
+        description: 'Если этот email зарегистрирован, на него придет код для сброса пароля',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Ошибка отправки',
+        description: error.message || 'Не удалось отправить код для сброса пароля',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Reset password mutation
+  const resetPasswordMutation = useMutation({
+    mutationFn: async ({ email, code, password }: { email: string; code: string; password: string }) => {
+      return apiRequest('POST', '/api/auth/reset-password', {
+        email,
+        code,
+        password,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Пароль изменен',
+        description: 'Теперь вы можете войти с новым паролем',
+      });
+      if (onResetComplete) {
+        onResetComplete();
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Не удалось сбросить пароль',
+        description: error.message || 'Код неверный или истек',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSendCode = () => {
+    if (!email.trim()) return;
+    if (!email.includes('@') || !email.includes('.')) {
+      toast({
+        title: 'Неверный email',
+        description: 'Введите корректный email адрес',
+        variant: 'destructive',
+      });
+      return;
+    }
+    sendCodeMutation.mutate(email);
+  };
+
+  const handleResetPassword = () => {
+    if (newPassword.length < 6) {
+      toast({
+        title: 'Слишком короткий пароль',
+        description: 'Пароль должен содержать не менее 6 символов',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: 'Пароли не совпадают',
+        description: 'Введите одинаковый пароль в оба поля',
+        variant: 'destructive',
+      });
+      return;
+    }
+    resetPasswordMutation.mutate({ email, code: resetCode, password: newPassword });
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="h-5 w-5" />
+          <span>Восстановление пароля</span>
+        </CardTitle>
+        <CardDescription>
+          {!codeSent
+            ? 'Введите email, указанный при регистрации, чтобы получить код для сброса пароля'
+            : 'Введите 6-значный код из письма и придумайте новый пароль'
+          }
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {!codeSent ? (
+          <div className="space-y-4">
+            <Input
+              type="email"
+              placeholder="Введите email адрес"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={sendCodeMutation.isPending}
+            />
+
+            <Button
+              onClick={handleSendCode}
+              disabled={sendCodeMutation.isPending || !email.trim()}
+              className="w-full"
+            >
+              {sendCodeMutation.isPending ? 'Отправка...' : 'Отправить код'}
+            </Button>
+          </div>
+        ) : (
+          <VerificationCodeStep
+            email={email}
+            code={resetCode}
+            onCodeChange={setResetCode}
+            onSubmit={handleResetPassword}
+            onResend={() => sendCodeMutation.mutate(email)}
+            onChangeEmail={() => {
+              setCodeSent(false);
+              setResetCode('');
+            }}
+            isSubmitting={resetPasswordMutation.isPending}
+            isResending={sendCodeMutation.isPending}
+            submitLabel="Сменить пароль"
+          >
+            <Input
+              type="password"
+              placeholder="Новый пароль"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              disabled={resetPasswordMutation.isPending}
+            />
+            <Input
+              type="password"
+              placeholder="Повторите новый пароль"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              disabled={resetPasswordMutation.isPending}
+            />
+          </VerificationCodeStep>
+        )}
+
+        {onCancel && (
+          <Button variant="link" onClick={onCancel} className="w-full">
+            Вернуться ко входу
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
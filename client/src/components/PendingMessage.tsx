@@ -0,0 +1,53 @@
+import React from 'react';
+import { OutboxEntry, retryMessage, discardMessage } from '@/lib/outbox';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { AlertCircle, Clock } from 'lucide-react';
+
+interface PendingMessageProps {
+  entry: OutboxEntry;
+  sender: { displayName: string; profilePicture: string | null };
+}
+
+// The user's own message while it waits in the outbox, with retry and discard
+// once sending has failed
+export const PendingMessage: React.FC<PendingMessageProps> = ({ entry, sender }) => {
+  const failed = entry.status === 'failed';
+
+  return (
+    <div className="flex justify-end">
+      <div className="flex flex-col max-w-[75%] items-end">
+        <div className={`rounded-lg p-3 bg-primary text-white ${failed ? 'opacity-50' : 'opacity-70'}`}>
+          <p>{entry.content}</p>
+          <p className="text-xs mt-1 text-gray-200 flex items-center">
+            {failed ? (
+              <>
+                <AlertCircle className="h-3 w-3 mr-1" />
+                Not sent
+              </>
+            ) : (
+              <>
+                <Clock className="h-3 w-3 mr-1" />
+                Sending...
+              </>
+            )}
+          </p>
+        </div>
+        {failed && (
+          <div className="flex gap-3 mt-1 text-xs">
+            <button type="button" className="text-primary hover:underline" onClick={() => retryMessage(entry.clientId)}>
+              Retry
+            </button>
+            <button type="button" className="text-gray-500 hover:underline" onClick={() => discardMessage(entry.clientId)}>
+              Discard
+            </button>
+          </div>
+        )}
+      </div>
+
+      <Avatar className="h-8 w-8 ml-2 flex-shrink-0">
+        <AvatarImage src={sender.profilePicture || undefined} alt={sender.displayName} />
+        <AvatarFallback>{sender.displayName.substring(0, 2).toUpperCase()}</AvatarFallback>
+      </Avatar>
+    </div>
+  );
+};
@@ -0,0 +1,8 @@
+import React from 'react';
+import { usePresence, type PresenceUser } from '@/lib/presence';
+
+// Green dot next to a user's name while they are online
+export const PresenceDot: React.FC<{ user: PresenceUser }> = ({ user }) => {
+  const { isOnline } = usePresence(user);
+  return isOnline ? <div className="w-2 h-2 bg-green-500 rounded-full flex-shrink-0"></div> : null;
+};
@@ -11,7 +11,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Plus, Trash2, UserPlus, Settings, Users, Crown, Shield } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, authHeaders } from '@/lib/queryClient';
 import { UserSearch } from './UserSearch';
 
 interface User {
@@ -57,7 +57,7 @@ export function RoomManagement({ currentUserId, userRole }: RoomManagementProps)
   const { data: rooms = [] } = useQuery({
     queryKey: ['chatRooms', 'user', currentUserId],
     queryFn: async () => {
-      const response = await fetch(`/api/chat-rooms/user/${currentUserId}`);
+      const response = await fetch(`/api/chat-rooms/user/${currentUserId}`, { headers: authHeaders() });
       if (!response.ok) throw new Error('Failed to fetch rooms');
       return response.json();
     },
@@ -68,14 +68,16 @@ export function RoomManagement({ currentUserId, userRole }: RoomManagementProps)
     queryKey: ['roomMembers', selectedRoom?.id],
     queryFn: async () => {
       if (!selectedRoom) return [];
-      const response = await fetch(`/api/room-members/${selectedRoom.id}`);
+      const response = await fetch(`/api/room-members/${selectedRoom.id}`, { headers: authHeaders() });
       if (!response.ok) throw new Error('Failed to fetch members');
       const members = await response.json();
       
       // Get role for each member
       const membersWithRoles = await Promise.all(
         members.map(async (member: User) => {
-          const roleResponse = await fetch(`/api/room-members/${selectedRoom.id}/${member.id}/role`);
+          const roleResponse = await fetch(`/api/room-members/${selectedRoom.id}/${member.id}/role`, {
+            headers: authHeaders(),
+          });
           const roleData = roleResponse.ok ? await roleResponse.json() : { role: 'member' };
           return {
             user: member,
@@ -93,10 +95,7 @@ export function RoomManagement({ currentUserId, userRole }: RoomManagementProps)
   // Create room mutation
   const createRoomMutation = useMutation({
     mutationFn: async (roomData: { name: string; description: string; isPrivate: boolean }) => {
-      return apiRequest('/api/chat-rooms', 'POST', {
-        ...roomData,
-        createdBy: currentUserId,
-      });
+      return apiRequest('POST', '/api/chat-rooms', roomData);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['chatRooms'] });
@@ -121,7 +120,7 @@ export function RoomManagement({ currentUserId, userRole }: RoomManagementProps)
   // Delete room mutation
   const deleteRoomMutation = useMutation({
     mutationFn: async (roomId: number) => {
-      return apiRequest(`/api/chat-rooms/${roomId}`, 'DELETE');
+      return apiRequest('DELETE', `/api/chat-rooms/${roomId}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['chatRooms'] });
@@ -143,7 +142,7 @@ export function RoomManagement({ currentUserId, userRole }: RoomManagementProps)
   // Remove member mutation
   const removeMemberMutation = useMutation({
     mutationFn: async ({ roomId, userId }: { roomId: number; userId: number }) => {
-      return apiRequest(`/api/room-members/${roomId}/${userId}`, 'DELETE');
+      return apiRequest('DELETE', `/api/room-members/${roomId}/${userId}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['roomMembers', selectedRoom?.id] });
@@ -164,7 +163,7 @@ export function RoomManagement({ currentUserId, userRole }: RoomManagementProps)
   // Update member role mutation
   const updateRoleMutation = useMutation({
     mutationFn: async ({ roomId, userId, role }: { roomId: number; userId: number; role: string }) => {
-      return apiRequest(`/api/room-members/${roomId}/${userId}/role`, 'PATCH', { role });
+      return apiRequest('PATCH', `/api/room-members/${roomId}/${userId}/role`, { role });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['roomMembers', selectedRoom?.id] });
@@ -0,0 +1,311 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ShieldCheck, Copy, Download, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+// apiRequest errors look like `400: {"message":"..."}`; only 400s carry a message worth showing
+function validationMessage(error: Error): string | null {
+  if (!error.message.startsWith('400: ')) return null;
+
+  try {
+    return JSON.parse(error.message.slice(5)).message || null;
+  } catch {
+    return null;
+  }
+}
+
+function CodeInput({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled?: boolean }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export function TwoFactorSettings() {
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [disableOpen, setDisableOpen] = useState(false);
+  const [regenerateOpen, setRegenerateOpen] = useState(false);
+  const [password, setPassword] = useState('');
+  const [disableCode, setDisableCode] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/users/me/2fa'],
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: 'Error',
+      description: validationMessage(error) || fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/users/me/2fa/setup');
+      return response.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setSetupCode('');
+    },
+    onError: onError('Failed to start two-factor setup'),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest('POST', '/api/users/me/2fa/enable', { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/2fa'] });
+      toast({
+        title: 'Two-Factor Authentication Enabled',
+        description: 'You will be asked for a code from your authenticator app when you log in',
+      });
+    },
+    onError: (error: Error) => {
+      setSetupCode('');
+      onError('Failed to enable two-factor authentication')(error);
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      // Codes from the authenticator are 6 digits; anything else is treated as a recovery code
+      const secondFactor = /^\d{6}$/.test(disableCode) ? { code: disableCode } : { recoveryCode: disableCode };
+      return apiRequest('POST', '/api/users/me/2fa/disable', { password, ...secondFactor });
+    },
+    onSuccess: () => {
+      closeDialogs();
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/2fa'] });
+      toast({
+        title: 'Two-Factor Authentication Disabled',
+        description: 'Your account is now protected by your password only',
+      });
+    },
+    onError: onError('Failed to disable two-factor authentication'),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/users/me/2fa/recovery-codes', { password });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      closeDialogs();
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/2fa'] });
+    },
+    onError: onError('Failed to regenerate recovery codes'),
+  });
+
+  const closeDialogs = () => {
+    setDisableOpen(false);
+    setRegenerateOpen(false);
+    setPassword('');
+    setDisableCode('');
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast({ title: 'Copied', description: 'Recovery codes copied to clipboard' });
+  };
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    const url = URL.createObjectURL(new Blob([recoveryCodes.join('\n') + '\n'], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5" />
+          <span>Two-Factor Authentication</span>
+          {status?.enabled && <Badge variant="secondary">Enabled</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app in addition to your password when you log in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : recoveryCodes ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Save these recovery codes somewhere safe. Each one can be used once to log in if you lose
+              access to your authenticator app. They will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-md border border-input p-4 font-mono text-sm">
+              {recoveryCodes.map(code => (
+                <span key={code}>{code}</span>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={copyRecoveryCodes}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button variant="outline" onClick={downloadRecoveryCodes}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+              <Button onClick={() => setRecoveryCodes(null)}>
+                I've Saved My Codes
+              </Button>
+            </div>
+          </div>
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with an authenticator app such as Google Authenticator, Authy or 1Password,
+              then enter the 6-digit code it shows.
+            </p>
+            <div className="flex justify-center rounded-md bg-white p-4 w-fit">
+              <QRCodeSVG value={setup.otpauthUri} size={180} />
+            </div>
+            <div className="space-y-1">
+              <Label>Can't scan it? Enter this key manually</Label>
+              <p className="font-mono text-sm break-all">{setup.secret.match(/.{1,4}/g)?.join(' ')}</p>
+            </div>
+            <CodeInput value={setupCode} onChange={setSetupCode} disabled={enableMutation.isPending} />
+            <div className="flex gap-2">
+              <Button
+                onClick={() => enableMutation.mutate(setupCode)}
+                disabled={setupCode.length !== 6 || enableMutation.isPending}
+              >
+                {enableMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Enable
+              </Button>
+              <Button variant="ghost" onClick={() => setSetup(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : status?.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesRemaining} of 10 recovery codes remaining
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setRegenerateOpen(true)}>
+                Regenerate Recovery Codes
+              </Button>
+              <Button variant="destructive" onClick={() => setDisableOpen(true)}>
+                Disable Two-Factor Authentication
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Set Up Two-Factor Authentication
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={disableOpen} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Disable two-factor authentication?</DialogTitle>
+            <DialogDescription>
+              Confirm with your password and a code from your authenticator app or a recovery code.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              type="password"
+              placeholder="Password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <Input
+              placeholder="Authentication or recovery code"
+              value={disableCode}
+              onChange={(e) => setDisableCode(e.target.value.trim())}
+              autoComplete="one-time-code"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={closeDialogs}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => disableMutation.mutate()}
+              disabled={!password || !disableCode || disableMutation.isPending}
+            >
+              {disableMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Disable
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={regenerateOpen} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Regenerate recovery codes?</DialogTitle>
+            <DialogDescription>
+              Your existing recovery codes will stop working. Enter your password to continue.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={closeDialogs}>Cancel</Button>
+            <Button
+              onClick={() => regenerateMutation.mutate()}
+              disabled={!password || regenerateMutation.isPending}
+            >
+              {regenerateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Regenerate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -6,7 +6,8 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Search, UserPlus, UserMinus } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, authHeaders } from '@/lib/queryClient';
+import { PresenceDot } from '@/components/PresenceDot';
 
 interface User {
   id: number;
@@ -44,7 +45,7 @@ export function UserSearch({
     if (roomId) {
       const fetchRoomMembers = async () => {
         try {
-          const response = await fetch(`/api/room-members/${roomId}`);
+          const response = await fetch(`/api/room-members/${roomId}`, { headers: authHeaders() });
           if (response.ok) {
             const members = await response.json();
             setRoomMembers(members.map((m: User) => m.id));
@@ -61,7 +62,9 @@ export function UserSearch({
     queryKey: ['users', 'search', query],
     queryFn: async () => {
       if (!query.trim()) return [];
-      const response = await fetch(`/api/users/search?q=${encodeURIComponent(query)}`);
+      const response = await fetch(`/api/users/search?q=${encodeURIComponent(query)}`, {
+        headers: authHeaders(),
+      });
       if (!response.ok) throw new Error('Search failed');
       return response.json();
     },
@@ -80,7 +83,7 @@ export function UserSearch({
     if (!roomId || !currentUserId) return;
 
     try {
-      await apiRequest('/api/room-members', 'POST', {
+      await apiRequest('POST', '/api/room-members', {
         roomId,
         userId: user.id,
         role: 'member'
@@ -170,9 +173,7 @@ export function UserSearch({
                     <div className="flex flex-col">
                       <div className="flex items-center space-x-2">
                         <span className="font-medium">{user.displayName}</span>
-                        {user.isOnline && (
-                          <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                        )}
+                        <PresenceDot user={user} />
                       </div>
                       <span className="text-sm text-muted-foreground">@{user.username}</span>
                     </div>
@@ -1,11 +1,13 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { User } from '@shared/schema';
-import { queryClient } from './queryClient';
+import { queryClient, authHeaders, getAuthToken, setAuthToken } from './queryClient';
+import { socketClient, useSocket } from './socket';
+import { clearOutbox } from './outbox';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
-  login: (user: User) => void;
+  login: (user: User, token: string) => void;
   logout: () => void;
   refreshUser: () => Promise<void>;
 }
@@ -23,25 +25,30 @@ export const useAuth = () => useContext(AuthContext);
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  
+  // Keep the WebSocket connected for as long as someone is logged in
+  useSocket(user ? getAuthToken() : null);
 
   // Check if user is already logged in on mount
   useEffect(() => {
     const checkAuth = async () => {
       try {
-        const storedUserId = localStorage.getItem('userId');
+        // Sessions from before token auth only stored the user id
+        localStorage.removeItem('userId');
         
-        if (storedUserId) {
-          // Fetch user data
-          const response = await fetch(`/api/users/${storedUserId}`, {
+        if (getAuthToken()) {
+          // Fetch the user the stored token belongs to
+          const response = await fetch('/api/auth/me', {
+            headers: authHeaders(),
             credentials: 'include',
           });
           
           if (response.ok) {
             const userData = await response.json();
             setUser(userData);
-          } else {
-            // If we get an error, clear the stored ID
-            localStorage.removeItem('userId');
+          } else if (response.status === 401 || response.status === 403) {
+            // The token expired, was revoked or the account is banned
+            setAuthToken(null);
           }
         }
       } catch (error) {
@@ -54,30 +61,53 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     checkAuth();
   }, []);
   
-  const login = (userData: User) => {
+  const login = (userData: User, token: string) => {
+    setAuthToken(token);
     setUser(userData);
-    localStorage.setItem('userId', userData.id.toString());
+  };
+  
+  const clearSession = () => {
+    setUser(null);
+    setAuthToken(null);
+    
+    // Clear query cache
+    queryClient.clear();
+    clearOutbox();
+    
+    // Redirect to login page handled by components
   };
   
   const logout = async () => {
     try {
-      setUser(null);
-      localStorage.removeItem('userId');
-      
-      // Clear query cache
-      queryClient.clear();
-      
-      // Redirect to login page handled by components
+      // Delete the token on the server so it can't be reused
+      if (getAuthToken()) {
+        await fetch('/api/auth/logout', {
+          method: 'POST',
+          headers: authHeaders(),
+          credentials: 'include',
+        });
+      }
     } catch (error) {
       console.error('Logout error:', error);
+    } finally {
+      clearSession();
     }
   };
   
+  // The server rejects the socket when the token was revoked or the account banned,
+  // so there is nothing left to delete server-side
+  useEffect(() => {
+    return socketClient.onMessage('auth_error', () => {
+      clearSession();
+    });
+  }, []);
+  
   const refreshUser = async () => {
     if (!user) return;
     
     try {
-      const response = await fetch(`/api/users/${user.id}`, {
+      const response = await fetch('/api/auth/me', {
+        headers: authHeaders(),
         credentials: 'include',
       });
       
@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { useAuth } from './auth-context';
+import { apiRequest } from './queryClient';
 
 // Определяем доступные языки
 export type Language = 'en' | 'ru';
@@ -28,6 +30,17 @@ const translations: Record<Language, Record<string, string>> = {
     'confirm_password': 'Confirm Password',
     'display_name': 'Display Name',
     'login_button': 'Log In',
+    'forgot_password': 'Forgot password?',
+    'two_factor_title': 'Two-Factor Authentication',
+    'deletion_pending_title': 'Account scheduled for deletion',
+    'deletion_pending_description': 'Your account will be permanently deleted on {date}. You can restore it in Settings until then.',
+    'two_factor_prompt': 'Enter the 6-digit code from your authenticator app',
+    'recovery_code_prompt': 'Enter one of your recovery codes',
+    'recovery_code': 'Recovery code',
+    'use_recovery_code': 'Use a recovery code instead',
+    'use_authenticator_code': 'Use an authenticator code instead',
+    'verify_button': 'Verify',
+    'back_to_login': 'Back to login',
     'register_button': 'Register',
     'logout': 'Logout',
     
@@ -177,6 +190,17 @@ const translations: Record<Language, Record<string, string>> = {
     'confirm_password': 'Подтвердите пароль',
     'display_name': 'Отображаемое имя',
     'login_button': 'Войти',
+    'forgot_password': 'Забыли пароль?',
+    'two_factor_title': 'Двухфакторная аутентификация',
+    'deletion_pending_title': 'Аккаунт будет удален',
+    'deletion_pending_description': 'Ваш аккаунт будет окончательно удален {date}. До этого его можно восстановить в настройках.',
+    'two_factor_prompt': 'Введите 6-значный код из приложения-аутентификатора',
+    'recovery_code_prompt': 'Введите один из резервных кодов',
+    'recovery_code': 'Резервный код',
+    'use_recovery_code': 'Использовать резервный код',
+    'use_authenticator_code': 'Использовать код из приложения',
+    'verify_button': 'Подтвердить',
+    'back_to_login': 'Вернуться ко входу',
     'register_button': 'Зарегистрироваться',
     'logout': 'Выйти',
     
@@ -290,10 +314,28 @@ export const useLanguage = () => useContext(LanguageContext);
 // Провайдер компонента языкового контекста
 export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   // Устанавливаем начальный язык из localStorage или используем английский по умолчанию
-  const [language, setLanguage] = useState<Language>(() => {
+  const [language, setLanguageState] = useState<Language>(() => {
     const savedLanguage = localStorage.getItem('language') as Language;
     return savedLanguage || 'en';
   });
+  const { user } = useAuth();
+
+  // После входа используем язык, сохранённый в профиле
+  useEffect(() => {
+    if (user?.language === 'en' || user?.language === 'ru') {
+      setLanguageState(user.language);
+    }
+  }, [user?.id]);
+
+  // Язык хранится и в профиле, чтобы письма приходили на нём же
+  const setLanguage = (newLanguage: Language) => {
+    setLanguageState(newLanguage);
+    if (user) {
+      apiRequest('PATCH', `/api/users/${user.id}`, { language: newLanguage }).catch(error => {
+        console.error('Failed to save language:', error);
+      });
+    }
+  };
 
   // Функция для перевода строк
   const t = (key: string): string => {
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { apiRequest } from './queryClient';
+import { apiRequest, authHeaders, getAuthToken } from './queryClient';
 
 export type MediaType = 'image' | 'audio' | 'video';
 
@@ -92,6 +92,10 @@ export const useMediaUpload = () => {
         });
         
         xhr.open('POST', '/api/media');
+        const token = getAuthToken();
+        if (token) {
+          xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+        }
         xhr.send(formData);
       });
     } catch (err) {
@@ -187,6 +191,7 @@ export const useProfilePictureUpload = () => {
 
       const response = await fetch(`/api/users/${userId}/profile-picture`, {
         method: 'POST',
+        headers: authHeaders(),
         body: formData,
         credentials: 'include'
       });
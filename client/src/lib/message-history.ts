@@ -0,0 +1,211 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useInfiniteQuery, type InfiniteData } from '@tanstack/react-query';
+import { queryClient, authHeaders } from './queryClient';
+import { socketClient } from './socket';
+
+export const MESSAGE_PAGE_SIZE = 50;
+const POLL_INTERVAL_MS = 5000;
+const POLL_PAGE_SIZE = 100;
+// Older messages start loading this close to the top of the list
+const LOAD_OLDER_THRESHOLD_PX = 200;
+// New messages only scroll the list down if the user is this close to the bottom
+const STICK_TO_BOTTOM_THRESHOLD_PX = 150;
+// How long a message jumped to from a quote stays highlighted
+const HIGHLIGHT_DURATION_MS = 2000;
+
+interface HistoryMessage {
+  id: number;
+}
+
+// Pages are fetched newest first: pages[0] holds the latest messages
+type History<T> = InfiniteData<T[], number | undefined>;
+
+async function fetchMessages<T>(url: string, params: Record<string, number | undefined>): Promise<T[]> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) search.set(key, String(value));
+  }
+
+  const response = await fetch(`${url}?${search}`, {
+    headers: authHeaders(),
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+  return response.json();
+}
+
+// Adds messages to a loaded history, skipping ones that are already there
+// (the same message can arrive over the socket and from polling)
+export function appendToHistory<T extends HistoryMessage>(url: string, newMessages: T[]) {
+  queryClient.setQueryData<History<T>>([url], (data) => {
+    if (!data || data.pages.length === 0) return data;
+
+    const loadedIds = new Set(data.pages.flat().map(message => message.id));
+    const fresh = newMessages.filter(message => !loadedIds.has(message.id));
+    if (fresh.length === 0) return data;
+
+    const [newest, ...older] = data.pages;
+    return {
+      ...data,
+      pages: [[...newest, ...fresh].sort((a, b) => a.id - b.id), ...older],
+    };
+  });
+}
+
+// Merges changed fields (new content, a deletion, reactions) into an already
+// loaded message; fields missing from the update keep their loaded values
+export function updateInHistory<T extends HistoryMessage>(url: string, changes: Partial<T> & HistoryMessage) {
+  queryClient.setQueryData<History<T>>([url], (data) => {
+    if (!data) return data;
+
+    return {
+      ...data,
+      pages: data.pages.map(page => page.map(item => (item.id === changes.id ? { ...item, ...changes } : item))),
+    };
+  });
+}
+
+// Applies the same change to every loaded message that matches, such as all
+// messages covered by a read receipt
+export function updateMatchingInHistory<T extends HistoryMessage>(url: string, matches: (message: T) => boolean, changes: Partial<T>) {
+  queryClient.setQueryData<History<T>>([url], (data) => {
+    if (!data) return data;
+
+    return {
+      ...data,
+      pages: data.pages.map(page => page.map(item => (matches(item) ? { ...item, ...changes } : item))),
+    };
+  });
+}
+
+// Message history for a DM or room endpoint that accepts before/after/limit
+// cursors. Loads the latest page first, older pages as the list is scrolled to
+// the top, and polls only for messages newer than the ones already loaded.
+export function useMessageHistory<T extends HistoryMessage>(url: string, enabled: boolean) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const distanceFromBottomRef = useRef(0);
+  const renderedRef = useRef<{ oldestId?: number; newestId?: number }>({});
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
+
+  const query = useInfiniteQuery({
+    queryKey: [url],
+    queryFn: ({ pageParam }) => fetchMessages<T>(url, { before: pageParam, limit: MESSAGE_PAGE_SIZE }),
+    initialPageParam: undefined as number | undefined,
+    // A short page means the start of the history was reached
+    getNextPageParam: (lastPage) => (lastPage.length < MESSAGE_PAGE_SIZE ? undefined : lastPage[0].id),
+    enabled,
+  });
+
+  const messages = useMemo(
+    () => (query.data ? [...query.data.pages].reverse().flat() : []),
+    [query.data]
+  );
+  const oldestId = messages[0]?.id;
+  const newestId = messages[messages.length - 1]?.id;
+
+  const newestIdRef = useRef(newestId);
+  newestIdRef.current = newestId;
+
+  const isLoaded = !!query.data;
+  useEffect(() => {
+    if (!enabled || !isLoaded) return;
+
+    // Loads everything newer than the latest loaded message, a page at a time
+    const fetchNewer = async () => {
+      try {
+        let after = newestIdRef.current ?? 0;
+        let newer: T[];
+        do {
+          newer = await fetchMessages<T>(url, { after, limit: POLL_PAGE_SIZE });
+          if (newer.length > 0) {
+            appendToHistory(url, newer);
+            after = newer[newer.length - 1].id;
+          }
+        } while (newer.length === POLL_PAGE_SIZE);
+      } catch (error) {
+        console.error('Failed to poll for new messages:', error);
+      }
+    };
+
+    const timer = setInterval(fetchNewer, POLL_INTERVAL_MS);
+    // Messages missed while the socket was down are fetched as soon as it is back
+    const unsubscribe = socketClient.onMessage('auth_success', fetchNewer);
+
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [url, enabled, isLoaded]);
+
+  // Keeps the view anchored: prepending older messages must not move what the
+  // user is looking at, while new messages scroll into view
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const rendered = renderedRef.current;
+    const nearBottom = distanceFromBottomRef.current - container.clientHeight < STICK_TO_BOTTOM_THRESHOLD_PX;
+
+    if (rendered.oldestId !== undefined && oldestId !== rendered.oldestId && newestId === rendered.newestId) {
+      container.scrollTop = container.scrollHeight - distanceFromBottomRef.current;
+    } else if (newestId !== rendered.newestId && (rendered.newestId === undefined || nearBottom)) {
+      container.scrollTop = container.scrollHeight;
+    }
+
+    distanceFromBottomRef.current = container.scrollHeight - container.scrollTop;
+    renderedRef.current = { oldestId, newestId };
+  }, [oldestId, newestId]);
+
+  const onScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    distanceFromBottomRef.current = container.scrollHeight - container.scrollTop;
+    if (container.scrollTop < LOAD_OLDER_THRESHOLD_PX && query.hasNextPage && !query.isFetchingNextPage) {
+      query.fetchNextPage();
+    }
+  };
+
+  // Scrolls to a message, loading older pages until it is part of the list.
+  // Message elements are found by their data-message-id attribute.
+  const scrollToMessage = async (messageId: number) => {
+    let data = query.data;
+    let hasOlder = query.hasNextPage;
+    while (data && hasOlder && !data.pages.some(page => page.some(message => message.id === messageId))) {
+      const result = await query.fetchNextPage();
+      data = result.data;
+      hasOlder = result.hasNextPage;
+    }
+
+    requestAnimationFrame(() => {
+      const element = containerRef.current?.querySelector(`[data-message-id="${messageId}"]`);
+      if (!element) return;
+
+      element.scrollIntoView({ block: 'center', behavior: 'smooth' });
+      setHighlightedId(messageId);
+      setTimeout(() => setHighlightedId(current => (current === messageId ? null : current)), HIGHLIGHT_DURATION_MS);
+    });
+  };
+
+  return {
+    messages,
+    isLoading: query.isLoading,
+    hasOlder: query.hasNextPage,
+    isFetchingOlder: query.isFetchingNextPage,
+    containerRef,
+    onScroll,
+    scrollToMessage,
+    highlightedId,
+    appendMessage: (message: T) => appendToHistory(url, [message]),
+    updateMessage: (changes: Partial<T> & HistoryMessage) => updateInHistory(url, changes),
+    updateMatchingMessages: (matches: (message: T) => boolean, changes: Partial<T>) =>
+      updateMatchingInHistory(url, matches, changes),
+    // For content shown after the history, such as messages still being sent
+    scrollToBottom: () => requestAnimationFrame(() => {
+      const container = containerRef.current;
+      if (container) container.scrollTop = container.scrollHeight;
+    }),
+  };
+}
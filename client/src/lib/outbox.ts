@@ -0,0 +1,205 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { socketClient } from './socket';
+import { authHeaders } from './queryClient';
+import type { Message, ChatMessage } from '@shared/schema';
+
+// Messages the user has sent that the server has not confirmed yet. Entries are
+// kept in localStorage, so they survive reloads and are sent again after a
+// reconnect; the client id makes the server ignore copies it already stored.
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  clientId: string;
+  senderId: number;
+  // Exactly one of receiverId (a DM) and roomId is set
+  receiverId?: number;
+  roomId?: number;
+  content: string;
+  mediaType: string;
+  mediaUrl: string;
+  replyToId?: number;
+  createdAt: string;
+  status: OutboxStatus;
+}
+
+export type OutboxMessage = Omit<OutboxEntry, 'clientId' | 'createdAt' | 'status'>;
+
+const STORAGE_KEY = 'outbox';
+// A sent message that is not acknowledged within this time is shown as failed
+const ACK_TIMEOUT_MS = 15000;
+
+let entries: OutboxEntry[] = load();
+const listeners = new Set<() => void>();
+const sentListeners = new Set<(message: Message | ChatMessage) => void>();
+const ackTimers = new Map<string, number>();
+
+function load(): OutboxEntry[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function save(next: OutboxEntry[]) {
+  entries = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  listeners.forEach(listener => listener());
+}
+
+function update(clientId: string, changes: Partial<OutboxEntry>) {
+  save(entries.map(entry => (entry.clientId === clientId ? { ...entry, ...changes } : entry)));
+}
+
+function clearAckTimer(clientId: string) {
+  window.clearTimeout(ackTimers.get(clientId));
+  ackTimers.delete(clientId);
+}
+
+function generateClientId(): string {
+  // randomUUID is only available in secure contexts
+  return typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function confirm(clientId: string, message: Message | ChatMessage) {
+  clearAckTimer(clientId);
+  if (!entries.some(entry => entry.clientId === clientId)) return;
+
+  save(entries.filter(entry => entry.clientId !== clientId));
+  sentListeners.forEach(listener => listener(message));
+}
+
+function fail(clientId: string) {
+  clearAckTimer(clientId);
+  update(clientId, { status: 'failed' });
+}
+
+// Sends over the socket when it is up, otherwise over REST. A REST request that
+// can't reach the server leaves the entry pending for the next reconnect.
+async function transmit(entry: OutboxEntry) {
+  const sent = entry.roomId !== undefined
+    ? socketClient.sendChatRoomMessage(entry.roomId, entry.content, entry.mediaType, entry.mediaUrl, entry.replyToId, entry.clientId)
+    : socketClient.sendPrivateMessage(entry.receiverId!, entry.content, entry.mediaType, entry.mediaUrl, entry.replyToId, entry.clientId);
+
+  if (sent) {
+    clearAckTimer(entry.clientId);
+    ackTimers.set(entry.clientId, window.setTimeout(() => fail(entry.clientId), ACK_TIMEOUT_MS));
+    return;
+  }
+
+  const { clientId, receiverId, roomId, content, mediaType, mediaUrl, replyToId } = entry;
+  let response: Response;
+  try {
+    response = await fetch(roomId !== undefined ? '/api/chat-messages' : '/api/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ clientId, receiverId, roomId, content, mediaType, mediaUrl, replyToId }),
+      credentials: 'include',
+    });
+  } catch {
+    return;
+  }
+
+  if (response.ok) {
+    confirm(clientId, await response.json());
+  } else {
+    fail(clientId);
+  }
+}
+
+// Adds a message to the outbox and sends it right away if possible
+export function queueMessage(message: OutboxMessage) {
+  const entry: OutboxEntry = {
+    ...message,
+    clientId: generateClientId(),
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+  };
+  save([...entries, entry]);
+  transmit(entry);
+}
+
+export function retryMessage(clientId: string) {
+  const entry = entries.find(item => item.clientId === clientId);
+  if (!entry) return;
+
+  update(clientId, { status: 'pending' });
+  transmit({ ...entry, status: 'pending' });
+}
+
+export function discardMessage(clientId: string) {
+  clearAckTimer(clientId);
+  save(entries.filter(entry => entry.clientId !== clientId));
+}
+
+// Drops every unsent message, e.g. on logout so the next user of the browser
+// can't read them
+export function clearOutbox() {
+  ackTimers.forEach(timer => window.clearTimeout(timer));
+  ackTimers.clear();
+  entries = [];
+  localStorage.removeItem(STORAGE_KEY);
+  listeners.forEach(listener => listener());
+}
+
+// Called with the stored message whenever an outbox entry is confirmed
+export function onMessageSent(listener: (message: Message | ChatMessage) => void) {
+  sentListeners.add(listener);
+  return () => {
+    sentListeners.delete(listener);
+  };
+}
+
+socketClient.onMessage('ack', (data) => confirm(data.clientId, data.message));
+
+socketClient.onMessage('error', (data) => {
+  if (data.clientId) fail(data.clientId);
+});
+
+// Everything still pending is sent again once the socket is back
+socketClient.onMessage('auth_success', (data) => {
+  entries
+    .filter(entry => entry.senderId === data.userId && entry.status === 'pending')
+    .forEach(entry => transmit(entry));
+});
+
+// Frames sent on a socket that closed may never be acknowledged; they are
+// resent on reconnect instead of timing out
+socketClient.onConnectionStatus((isConnected) => {
+  if (!isConnected) {
+    ackTimers.forEach(timer => window.clearTimeout(timer));
+    ackTimers.clear();
+  }
+});
+
+// Other tabs share the same outbox
+window.addEventListener('storage', (event) => {
+  if (event.key !== STORAGE_KEY) return;
+  entries = load();
+  listeners.forEach(listener => listener());
+});
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Unconfirmed messages of the given user to a DM peer or a room, oldest first
+export function useOutbox(senderId: number | undefined, target: { receiverId: number } | { roomId: number }): OutboxEntry[] {
+  const all = useSyncExternalStore(subscribe, () => entries);
+  const receiverId = 'receiverId' in target ? target.receiverId : undefined;
+  const roomId = 'roomId' in target ? target.roomId : undefined;
+
+  return useMemo(
+    () => all.filter(entry =>
+      entry.senderId === senderId &&
+      (receiverId !== undefined ? entry.receiverId === receiverId : entry.roomId === roomId)
+    ),
+    [all, senderId, receiverId, roomId]
+  );
+}
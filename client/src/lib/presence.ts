@@ -0,0 +1,36 @@
+import { useSyncExternalStore } from 'react';
+import { socketClient } from './socket';
+
+export interface Presence {
+  isOnline: boolean;
+  lastSeen: string | Date | null;
+}
+
+export interface PresenceUser {
+  id: number;
+  isOnline: boolean | null;
+  lastSeen?: string | Date | null;
+}
+
+// Latest presence pushed by the server for each user; loaded user objects are
+// only a snapshot from when they were fetched
+const presenceByUser = new Map<number, Presence>();
+const listeners = new Set<() => void>();
+
+socketClient.onMessage('presence', (data) => {
+  presenceByUser.set(data.userId, { isOnline: data.isOnline, lastSeen: data.lastSeen });
+  listeners.forEach(listener => listener());
+});
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Presence of a loaded user, kept current by presence events
+export function usePresence(user: PresenceUser): Presence {
+  const pushed = useSyncExternalStore(subscribe, () => presenceByUser.get(user.id));
+  return pushed || { isOnline: !!user.isOnline, lastSeen: user.lastSeen ?? null };
+}
@@ -11,10 +11,14 @@ export interface PrivateMessage {
   content: string;
   mediaType: string;
   mediaUrl: string;
+  delivered: boolean;
   read: boolean;
   createdAt: Date;
 }
 
+// A typing indicator is sent to a DM peer or to a room
+export type TypingTarget = { receiverId: number } | { roomId: number };
+
 export interface ChatMessage {
   id: number;
   roomId: number;
@@ -31,10 +35,14 @@ class SocketClient {
   private connectionStatusHandlers: Set<ConnectionStatusHandler> = new Set();
   private reconnectTimeout: number | null = null;
   private authenticated = false;
-  private userId: number | null = null;
+  private token: string | null = null;
+  private shouldReconnect = false;
+  // Rooms on screen; the server forgets them when the socket closes
+  private viewedRooms = new Set<number>();
 
-  init(userId: number) {
-    this.userId = userId;
+  init(token: string) {
+    this.token = token;
+    this.shouldReconnect = true;
     this.connect();
   }
 
@@ -50,8 +58,8 @@ class SocketClient {
         this.notifyConnectionStatus(true);
         
         // Authenticate with the server
-        if (this.userId) {
-          this.authenticate(this.userId);
+        if (this.token) {
+          this.authenticate(this.token);
         }
         
         // Clear any reconnect timeout
@@ -67,7 +75,7 @@ class SocketClient {
         this.authenticated = false;
         
         // Try to reconnect after a delay
-        if (!this.reconnectTimeout) {
+        if (this.shouldReconnect && !this.reconnectTimeout) {
           this.reconnectTimeout = window.setTimeout(() => {
             this.reconnectTimeout = null;
             this.connect();
@@ -87,6 +95,13 @@ class SocketClient {
           if (type === 'auth_success') {
             this.authenticated = true;
             console.log("WebSocket authenticated");
+            this.viewedRooms.forEach(roomId => this.sendRoomSubscription('room_subscribe', roomId));
+          }
+          
+          if (type === 'auth_error') {
+            // The token is no longer valid, so reconnecting would fail the same way
+            this.shouldReconnect = false;
+            console.error("WebSocket authentication failed:", data.message);
           }
           
           // Notify handlers for this message type
@@ -100,16 +115,19 @@ class SocketClient {
     }
   }
   
-  private authenticate(userId: number) {
+  private authenticate(token: string) {
     if (this.socket?.readyState === WebSocket.OPEN) {
       this.socket.send(JSON.stringify({
         type: 'auth',
-        userId
+        token
       }));
     }
   }
   
   disconnect() {
+    this.shouldReconnect = false;
+    this.token = null;
+    
     if (this.socket) {
       this.socket.close();
       this.socket = null;
@@ -129,7 +147,8 @@ class SocketClient {
     return this.authenticated;
   }
   
-  sendPrivateMessage(receiverId: number, content: string, mediaType = 'text', mediaUrl = '') {
+  // clientId lets the server acknowledge the message and drop repeated sends
+  sendPrivateMessage(receiverId: number, content: string, mediaType = 'text', mediaUrl = '', replyToId?: number, clientId?: string) {
     if (!this.isConnected() || !this.isAuthenticated()) {
       console.error("Cannot send message: WebSocket not connected or not authenticated");
       return false;
@@ -140,13 +159,15 @@ class SocketClient {
       receiverId,
       content,
       mediaType,
-      mediaUrl
+      mediaUrl,
+      replyToId,
+      clientId
     }));
     
     return true;
   }
   
-  sendChatRoomMessage(roomId: number, content: string, mediaType = 'text', mediaUrl = '') {
+  sendChatRoomMessage(roomId: number, content: string, mediaType = 'text', mediaUrl = '', replyToId?: number, clientId?: string) {
     if (!this.isConnected() || !this.isAuthenticated()) {
       console.error("Cannot send chat message: WebSocket not connected or not authenticated");
       return false;
@@ -157,12 +178,62 @@ class SocketClient {
       roomId,
       content,
       mediaType,
-      mediaUrl
+      mediaUrl,
+      replyToId,
+      clientId
     }));
     
     return true;
   }
   
+  // Marks the DM conversation with peerId read up to and including upToId
+  sendMarkRead(peerId: number, upToId: number) {
+    if (!this.isConnected() || !this.isAuthenticated()) {
+      return false;
+    }
+    
+    this.socket?.send(JSON.stringify({ type: 'mark_read', peerId, upToId }));
+    
+    return true;
+  }
+  
+  sendTypingStart(target: TypingTarget) {
+    return this.sendTyping('typing_start', target);
+  }
+  
+  sendTypingStop(target: TypingTarget) {
+    return this.sendTyping('typing_stop', target);
+  }
+  
+  // Follows a room's events while it is shown, including public rooms the user has not joined
+  subscribeRoom(roomId: number) {
+    this.viewedRooms.add(roomId);
+    this.sendRoomSubscription('room_subscribe', roomId);
+  }
+  
+  unsubscribeRoom(roomId: number) {
+    this.viewedRooms.delete(roomId);
+    this.sendRoomSubscription('room_unsubscribe', roomId);
+  }
+  
+  // Subscriptions made while disconnected are sent once the socket is authenticated
+  private sendRoomSubscription(type: 'room_subscribe' | 'room_unsubscribe', roomId: number) {
+    if (this.isConnected() && this.isAuthenticated()) {
+      this.socket?.send(JSON.stringify({ type, roomId }));
+    }
+  }
+  
+  // Typing frames are best-effort, so they are dropped silently while disconnected
+  private sendTyping(type: 'typing_start' | 'typing_stop', target: TypingTarget) {
+    if (!this.isConnected() || !this.isAuthenticated()) {
+      return false;
+    }
+    
+    this.socket?.send(JSON.stringify({ type, ...target }));
+    
+    return true;
+  }
+  
   onMessage(type: string, handler: MessageHandler) {
     if (!this.messageHandlers.has(type)) {
       this.messageHandlers.set(type, new Set());
@@ -216,16 +287,16 @@ class SocketClient {
 export const socketClient = new SocketClient();
 
 // Add hooks
-export function useSocket(userId: number | null) {
+export function useSocket(token: string | null) {
   React.useEffect(() => {
-    if (userId) {
-      socketClient.init(userId);
+    if (token) {
+      socketClient.init(token);
       
       return () => {
         socketClient.disconnect();
       };
     }
-  }, [userId]);
+  }, [token]);
   
   return {
     isConnected: socketClient.isConnected(),
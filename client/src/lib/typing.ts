@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { socketClient, type TypingTarget } from './socket';
+
+// typing_start is re-sent at most this often while the user keeps typing
+const TYPING_THROTTLE_MS = 3000;
+// typing_stop is sent once the user has not typed for this long
+const TYPING_IDLE_MS = 4000;
+// Indicators disappear if no renewal arrives, in case a typing_stop was missed
+const TYPING_DISPLAY_TIMEOUT_MS = 10000;
+
+function targetKey(target: TypingTarget | null): string {
+  if (!target) return '';
+  return 'receiverId' in target ? `direct:${target.receiverId}` : `room:${target.roomId}`;
+}
+
+// Tells the DM peer or room that the current user is typing. Call notifyTyping
+// on every input change and stopTyping once the message is sent.
+export function useTypingSender(target: TypingTarget | null) {
+  const key = targetKey(target);
+  const targetRef = useRef(target);
+  targetRef.current = target;
+  const lastStartRef = useRef(0);
+  // The target the indicator was started for, which is still the old one when
+  // the conversation changes
+  const startedTargetRef = useRef<TypingTarget | null>(null);
+  const idleTimerRef = useRef<number | null>(null);
+
+  const stopTyping = useCallback(() => {
+    if (idleTimerRef.current !== null) {
+      window.clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+    if (startedTargetRef.current) {
+      socketClient.sendTypingStop(startedTargetRef.current);
+    }
+    startedTargetRef.current = null;
+    lastStartRef.current = 0;
+  }, []);
+
+  const notifyTyping = useCallback(() => {
+    const target = targetRef.current;
+    if (!target) return;
+
+    const now = Date.now();
+    if (now - lastStartRef.current >= TYPING_THROTTLE_MS && socketClient.sendTypingStart(target)) {
+      lastStartRef.current = now;
+      startedTargetRef.current = target;
+    }
+
+    if (idleTimerRef.current !== null) {
+      window.clearTimeout(idleTimerRef.current);
+    }
+    idleTimerRef.current = window.setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [stopTyping]);
+
+  // Switching conversations or leaving the page ends the indicator for the old target
+  useEffect(() => stopTyping, [key, stopTyping]);
+
+  return { notifyTyping, stopTyping };
+}
+
+// Ids of the users currently typing to the current user in a DM, or in a room
+export function useTypingUsers(target: TypingTarget | null): number[] {
+  const key = targetKey(target);
+  const [typingUserIds, setTypingUserIds] = useState<number[]>([]);
+
+  useEffect(() => {
+    if (!target) return;
+    const timers = new Map<number, number>();
+
+    const matches = (data: { userId: number; receiverId?: number; roomId?: number }) =>
+      'receiverId' in target ? data.userId === target.receiverId && !data.roomId : data.roomId === target.roomId;
+
+    const remove = (userId: number) => {
+      window.clearTimeout(timers.get(userId));
+      timers.delete(userId);
+      setTypingUserIds(ids => ids.filter(id => id !== userId));
+    };
+
+    const unsubscribeStart = socketClient.onMessage('typing_start', (data) => {
+      if (!matches(data)) return;
+      window.clearTimeout(timers.get(data.userId));
+      timers.set(data.userId, window.setTimeout(() => remove(data.userId), TYPING_DISPLAY_TIMEOUT_MS));
+      setTypingUserIds(ids => (ids.includes(data.userId) ? ids : [...ids, data.userId]));
+    });
+
+    const unsubscribeStop = socketClient.onMessage('typing_stop', (data) => {
+      if (matches(data)) remove(data.userId);
+    });
+
+    // A sent message ends its author's indicator even if typing_stop comes later
+    const unsubscribePrivate = socketClient.onMessage('private_message', (data) => {
+      if ('receiverId' in target && data.message.senderId === target.receiverId) remove(data.message.senderId);
+    });
+    const unsubscribeRoom = socketClient.onMessage('chat_message', (data) => {
+      if ('roomId' in target && data.message.roomId === target.roomId) remove(data.message.userId);
+    });
+
+    return () => {
+      unsubscribeStart();
+      unsubscribeStop();
+      unsubscribePrivate();
+      unsubscribeRoom();
+      timers.forEach(timer => window.clearTimeout(timer));
+      setTypingUserIds([]);
+    };
+    // target is fully described by key
+  }, [key]);
+
+  return typingUserIds;
+}
+
+// "Anna is typing…", "Anna and Ben are typing…", "Anna and 2 others are typing…"
+export function describeTyping(names: string[]): string {
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names[0]} and ${names.length - 1} others are typing…`;
+}
@@ -11,7 +11,6 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { socketClient } from '@/lib/socket';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { Users, Plus, Search } from 'lucide-react';
 import ChatRoomComponent from '@/components/ChatRoom';
@@ -45,25 +44,6 @@ const ChatroomsPage: React.FC<ChatroomsPageProps> = ({ roomId }) => {
     enabled: !!roomId,
   });
   
-  // Set up WebSocket for real-time updates
-  useEffect(() => {
-    if (user) {
-      // Subscribe to chat message updates
-      const unsubscribe = socketClient.onMessage('chat_message', (data) => {
-        // If this is a message for a room, update that room's messages
-        if (data.message.roomId) {
-          queryClient.invalidateQueries({
-            queryKey: [`/api/chat-messages/${data.message.roomId}`]
-          });
-        }
-      });
-      
-      return () => {
-        unsubscribe();
-      };
-    }
-  }, [user]);
-  
   // Set selected room from URL param or from query result
   useEffect(() => {
     if (roomId && roomData) {
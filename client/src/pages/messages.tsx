@@ -5,27 +5,49 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
 import { Search } from 'lucide-react';
 import MessageThread from '@/components/MessageThread';
+import { PresenceDot } from '@/components/PresenceDot';
 import { useLocation } from 'wouter';
 import { socketClient } from '@/lib/socket';
 import { queryClient } from '@/lib/queryClient';
+import { User, Message } from '@shared/schema';
+import { format, isToday } from 'date-fns';
 
 interface MessagesPageProps {
   selectedUserId?: string;
 }
 
+interface Conversation {
+  peer: User;
+  lastMessage: Message;
+  unreadCount: number;
+}
+
+function formatConversationTime(value: Date | string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  return isToday(date) ? format(date, 'p') : format(date, 'MMM d');
+}
+
 const MessagesPage: React.FC<MessagesPageProps> = ({ selectedUserId }) => {
   const { user } = useAuth();
   const [, navigate] = useLocation();
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedUser, setSelectedUser] = useState<any>(null);
+  const [selectedUser, setSelectedUser] = useState<User | null>(null);
   
-  // Fetch all users for contacts list
-  const { data: users, isLoading: usersLoading } = useQuery({
-    queryKey: ['/api/users'],
+  // People the user has actually talked to, most recent first
+  const { data: conversations = [], isLoading: conversationsLoading } = useQuery<Conversation[]>({
+    queryKey: ['/api/conversations'],
     enabled: !!user,
-    select: (data) => (data as any[]).filter((u: any) => u.id !== user?.id),
+  });
+  
+  // A conversation opened by link may not exist yet, so load that user directly
+  const peerFromUrl = conversations.find(conversation => conversation.peer.id.toString() === selectedUserId)?.peer;
+  const { data: linkedUser } = useQuery<User>({
+    queryKey: [`/api/users/${selectedUserId}`],
+    enabled: !!user && !!selectedUserId && !conversationsLoading && !peerFromUrl,
   });
   
   // Set up WebSocket for real-time updates
@@ -33,53 +55,106 @@ const MessagesPage: React.FC<MessagesPageProps> = ({ selectedUserId }) => {
     if (user) {
       // Subscribe to private message updates
       const unsubscribe = socketClient.onMessage('private_message', (data) => {
+        const message: Message = data.message;
+        const peerId = message.senderId === user.id ? message.receiverId : message.senderId;
+        const isIncoming = message.receiverId === user.id;
+        
         // If this is a message for the current user, update unread message count
-        if (data.message.receiverId === user.id) {
+        if (isIncoming) {
           queryClient.invalidateQueries({
             queryKey: [`/api/messages/unread-count/${user.id}`]
           });
-          
-          // If we're currently viewing messages with this sender, invalidate that query too
-          queryClient.invalidateQueries({
-            queryKey: [`/api/messages/${user.id}/${data.message.senderId}`]
-          });
         }
+        
+        const current = queryClient.getQueryData<Conversation[]>(['/api/conversations']);
+        const existing = current?.find(conversation => conversation.peer.id === peerId);
+        if (!current || !existing) {
+          // A new conversation: the peer's profile has to come from the server
+          queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+          return;
+        }
+        
+        // Messages arriving in the open thread are read right away while the tab is visible
+        const readOnArrival = selectedUser?.id === peerId && document.visibilityState === 'visible';
+        const unreadCount = isIncoming && !readOnArrival
+          ? existing.unreadCount + 1
+          : existing.unreadCount;
+        queryClient.setQueryData<Conversation[]>(['/api/conversations'], [
+          { ...existing, lastMessage: message, unreadCount },
+          ...current.filter(conversation => conversation !== existing),
+        ]);
+      });
+      
+      // Edits and deletions only matter to the inbox when they change a preview
+      const updatePreview = (message: Message) => {
+        queryClient.setQueryData<Conversation[]>(['/api/conversations'], (current) =>
+          current?.map(conversation =>
+            conversation.lastMessage.id === message.id ? { ...conversation, lastMessage: message } : conversation
+          )
+        );
+      };
+      const unsubscribeEdited = socketClient.onMessage('private_message_edited', (data) => {
+        updatePreview(data.message);
+      });
+      const unsubscribeDeleted = socketClient.onMessage('private_message_deleted', (data) => {
+        updatePreview(data.message);
+        // A deleted message stops counting as unread
+        if (data.message.receiverId === user.id) {
+          queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+          queryClient.invalidateQueries({ queryKey: [`/api/messages/unread-count/${user.id}`] });
+        }
+      });
+      
+      // The user read a thread here or on another device
+      const unsubscribeRead = socketClient.onMessage('read_receipt', (data) => {
+        if (data.receiverId === user.id) {
+          queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+          queryClient.invalidateQueries({ queryKey: [`/api/messages/unread-count/${user.id}`] });
+        }
+      });
+      
+      // Messages may have arrived while the socket was down
+      const unsubscribeReconnect = socketClient.onMessage('auth_success', () => {
+        queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+        queryClient.invalidateQueries({ queryKey: [`/api/messages/unread-count/${user.id}`] });
       });
       
       return () => {
         unsubscribe();
+        unsubscribeEdited();
+        unsubscribeDeleted();
+        unsubscribeRead();
+        unsubscribeReconnect();
       };
     }
-  }, [user]);
+  }, [user, selectedUser?.id]);
   
   // Set selected user from URL param
   useEffect(() => {
-    if (selectedUserId && users) {
-      const user = users.find((u: any) => u.id.toString() === selectedUserId);
-      if (user) {
-        setSelectedUser(user);
-      }
+    const peer = peerFromUrl || linkedUser;
+    if (selectedUserId && peer && selectedUser?.id !== peer.id) {
+      setSelectedUser(peer);
     }
-  }, [selectedUserId, users]);
+  }, [selectedUserId, peerFromUrl, linkedUser]);
   
-  // Filter users by search query
-  const filteredUsers = users ? users.filter((user: any) => {
+  // Filter conversations by search query
+  const filteredConversations = conversations.filter(({ peer }) => {
     const query = searchQuery.toLowerCase();
     return (
-      user.displayName.toLowerCase().includes(query) ||
-      user.username.toLowerCase().includes(query)
+      peer.displayName.toLowerCase().includes(query) ||
+      peer.username.toLowerCase().includes(query)
     );
-  }) : [];
+  });
   
-  const handleSelectUser = (user: any) => {
-    setSelectedUser(user);
-    navigate(`/messages/${user.id}`);
+  const handleSelectUser = (peer: User) => {
+    setSelectedUser(peer);
+    navigate(`/messages/${peer.id}`);
   };
   
   return (
     <div className="h-[calc(100vh-10rem)]">
       <div className="grid grid-cols-1 md:grid-cols-3 h-full gap-6">
-        {/* Contacts sidebar */}
+        {/* Conversations sidebar */}
         <div className="md:col-span-1">
           <Card className="h-full">
             <CardContent className="p-4 h-full flex flex-col">
@@ -87,7 +162,7 @@ const MessagesPage: React.FC<MessagesPageProps> = ({ selectedUserId }) => {
                 <div className="relative">
                   <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
                   <Input
-                    placeholder="Search contacts..."
+                    placeholder="Search conversations..."
                     className="pl-9"
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
@@ -97,34 +172,52 @@ const MessagesPage: React.FC<MessagesPageProps> = ({ selectedUserId }) => {
               
               <ScrollArea className="flex-1">
                 <div className="space-y-2">
-                  {usersLoading ? (
+                  {conversationsLoading ? (
                     <div className="text-center py-8">
-                      <p>Loading contacts...</p>
+                      <p>Loading conversations...</p>
                     </div>
-                  ) : filteredUsers.length > 0 ? (
-                    filteredUsers.map((contact: any) => (
+                  ) : filteredConversations.length > 0 ? (
+                    filteredConversations.map(({ peer, lastMessage, unreadCount }) => (
                       <div
-                        key={contact.id}
+                        key={peer.id}
                         className={`flex items-center p-3 rounded-lg cursor-pointer ${
-                          selectedUser?.id === contact.id
+                          selectedUser?.id === peer.id
                             ? 'bg-primary/10'
                             : 'hover:bg-gray-100'
                         }`}
-                        onClick={() => handleSelectUser(contact)}
+                        onClick={() => handleSelectUser(peer)}
                       >
                         <Avatar className="h-10 w-10 mr-3">
-                          <AvatarImage src={contact.profilePicture || undefined} alt={contact.displayName} />
-                          <AvatarFallback>{contact.displayName.substring(0, 2).toUpperCase()}</AvatarFallback>
+                          <AvatarImage src={peer.profilePicture || undefined} alt={peer.displayName} />
+                          <AvatarFallback>{peer.displayName.substring(0, 2).toUpperCase()}</AvatarFallback>
                         </Avatar>
                         <div className="flex-1 min-w-0">
-                          <p className="font-medium truncate">{contact.displayName}</p>
-                          <p className="text-sm text-gray-500 truncate">@{contact.username}</p>
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-2 min-w-0">
+                              <p className={`truncate ${unreadCount > 0 ? 'font-semibold' : 'font-medium'}`}>{peer.displayName}</p>
+                              <PresenceDot user={peer} />
+                            </div>
+                            <span className="text-xs text-gray-500 ml-2 flex-shrink-0">
+                              {formatConversationTime(lastMessage.createdAt)}
+                            </span>
+                          </div>
+                          <div className="flex items-center justify-between">
+                            <p className="text-sm text-gray-500 truncate">
+                              {lastMessage.senderId === user?.id && 'You: '}
+                              {lastMessage.deletedAt ? <span className="italic">Message deleted</span> : lastMessage.content}
+                            </p>
+                            {unreadCount > 0 && (
+                              <Badge className="ml-2 flex-shrink-0">{unreadCount}</Badge>
+                            )}
+                          </div>
                         </div>
                       </div>
                     ))
                   ) : (
                     <div className="text-center py-8">
-                      <p className="text-gray-500">No contacts found</p>
+                      <p className="text-gray-500">
+                        {searchQuery ? 'No conversations found' : 'No conversations yet'}
+                      </p>
                     </div>
                   )}
                 </div>
@@ -147,7 +240,7 @@ const MessagesPage: React.FC<MessagesPageProps> = ({ selectedUserId }) => {
                 </div>
                 <h3 className="text-lg font-medium mb-2">Your Messages</h3>
                 <p className="text-gray-500 max-w-md">
-                  Select a contact to start messaging. Share text, photos, audio, and videos privately.
+                  Select a conversation, or open someone's profile to message them. Share text, photos, audio, and videos privately.
                 </p>
               </div>
             </Card>
@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -11,6 +12,8 @@ import { useAuth } from '@/lib/auth-context';
 import { useToast } from '@/hooks/use-toast';
 import { useLanguage } from '@/lib/language-context';
 import LanguageSwitcher from '@/components/LanguageSwitcher';
+import { ActiveSessions } from '@/components/ActiveSessions';
+import { TwoFactorSettings } from '@/components/TwoFactorSettings';
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -34,12 +37,21 @@ import {
   UserCog, 
   Trash2,
   Loader2,
-  Globe
+  Globe,
+  Download
 } from 'lucide-react';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { useTheme } from 'next-themes';
 import { useLocation } from 'wouter';
 
+interface DataExport {
+  id: string;
+  status: 'pending' | 'ready' | 'failed';
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+}
+
 const SettingsPage: React.FC = () => {
   const { user, logout, refreshUser } = useAuth();
   const { toast } = useToast();
@@ -52,10 +64,96 @@ const SettingsPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [isChangingPassword, setIsChangingPassword] = useState(false);
   
-  const [emailNotifications, setEmailNotifications] = useState(true);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+  const [isRestoringAccount, setIsRestoringAccount] = useState(false);
+  
+  const [isRequestingExport, setIsRequestingExport] = useState(false);
+  const [isDownloadingExport, setIsDownloadingExport] = useState(false);
+  
+  // Poll while an export is being generated on the server
+  const { data: dataExports = [] } = useQuery<DataExport[]>({
+    queryKey: ['/api/users/me/exports'],
+    enabled: !!user,
+    refetchInterval: (query) =>
+      query.state.data?.some(item => item.status === 'pending') ? 3000 : false,
+  });
+  const latestExport = dataExports[0];
+  
+  const [emailNotifications, setEmailNotifications] = useState(user?.emailNotifications ?? true);
+  const [isSavingNotifications, setIsSavingNotifications] = useState(false);
   const [pushNotifications, setPushNotifications] = useState(true);
   const [messagePreview, setMessagePreview] = useState(true);
   const [privateProfile, setPrivateProfile] = useState(false);
+  const [readReceipts, setReadReceipts] = useState(user?.readReceipts ?? true);
+  const [invisible, setInvisible] = useState(user?.invisible ?? false);
+  const [isSavingPrivacy, setIsSavingPrivacy] = useState(false);
+  
+  // The user may also unsubscribe from an email link, so follow the stored value
+  useEffect(() => {
+    if (user) {
+      setEmailNotifications(user.emailNotifications ?? true);
+    }
+  }, [user?.emailNotifications]);
+  
+  useEffect(() => {
+    if (user) {
+      setReadReceipts(user.readReceipts ?? true);
+      setInvisible(user.invisible ?? false);
+    }
+  }, [user?.readReceipts, user?.invisible]);
+  
+  const handleSaveNotifications = async () => {
+    if (!user) return;
+    
+    setIsSavingNotifications(true);
+    
+    try {
+      await apiRequest('PATCH', `/api/users/${user.id}`, { emailNotifications });
+      await refreshUser();
+      
+      toast({
+        title: "Notification Settings Saved",
+        description: "Your notification preferences have been updated",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save notification settings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingNotifications(false);
+    }
+  };
+  
+  const handleSavePrivacy = async () => {
+    if (!user) return;
+    
+    setIsSavingPrivacy(true);
+    
+    try {
+      await apiRequest('PATCH', `/api/users/${user.id}`, { readReceipts, invisible });
+      await refreshUser();
+      // Loaded threads show read ticks according to the old setting
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/messages/'),
+      });
+      
+      toast({
+        title: "Privacy Settings Saved",
+        description: "Your privacy settings have been updated",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save privacy settings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingPrivacy(false);
+    }
+  };
   
   const handleChangePassword = async () => {
     if (!user) return;
@@ -78,18 +176,30 @@ const SettingsPage: React.FC = () => {
       return;
     }
     
+    if (newPassword.length < 6) {
+      toast({
+        title: "Error",
+        description: "Password must be at least 6 characters long",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     setIsChangingPassword(true);
     
     try {
-      // In a real app, you'd send the password change request to the server
-      // For now, we'll just show a success message
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate API call
+      await apiRequest('POST', '/api/users/me/password', {
+        currentPassword,
+        newPassword,
+      });
       
       toast({
         title: "Password Changed",
-        description: "Your password has been updated successfully",
+        description: "Your password has been updated and your other devices have been signed out",
       });
       
+      await queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+      
       // Reset fields
       setCurrentPassword('');
       setNewPassword('');
@@ -97,7 +207,9 @@ const SettingsPage: React.FC = () => {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to change password. Please try again.",
+        description: error instanceof Error && error.message.startsWith('400')
+          ? "Current password is incorrect"
+          : "Failed to change password. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -106,15 +218,19 @@ const SettingsPage: React.FC = () => {
   };
   
   const handleDeleteAccount = async () => {
-    if (!user) return;
+    if (!user || !deletePassword) return;
+    
+    setIsDeletingAccount(true);
     
     try {
-      // In a real app, you'd send the account deletion request to the server
-      // For now, we'll just log out the user and redirect to the login page
+      const response = await apiRequest('DELETE', '/api/users/me', {
+        password: deletePassword,
+      });
+      const { deletionScheduledAt } = await response.json();
       
       toast({
-        title: "Account Deleted",
-        description: "Your account has been deleted successfully",
+        title: "Account Scheduled for Deletion",
+        description: `Your account will be permanently deleted on ${new Date(deletionScheduledAt).toLocaleDateString()}. Log in and restore it before then if you change your mind.`,
       });
       
       // Log out the user
@@ -125,9 +241,88 @@ const SettingsPage: React.FC = () => {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to delete account. Please try again.",
+        description: error instanceof Error && error.message.startsWith('400')
+          ? "Password is incorrect"
+          : "Failed to delete account. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeletingAccount(false);
+      setDeletePassword('');
+    }
+  };
+  
+  const handleRestoreAccount = async () => {
+    if (!user) return;
+    
+    setIsRestoringAccount(true);
+    
+    try {
+      await apiRequest('POST', '/api/users/me/restore');
+      await refreshUser();
+      
+      toast({
+        title: "Account Restored",
+        description: "Your account will no longer be deleted",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to restore account. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoringAccount(false);
+    }
+  };
+  
+  const handleRequestDataExport = async () => {
+    setIsRequestingExport(true);
+    
+    try {
+      await apiRequest('POST', '/api/users/me/exports');
+      await queryClient.invalidateQueries({ queryKey: ['/api/users/me/exports'] });
+      
+      toast({
+        title: "Export Requested",
+        description: "We're preparing your data. The download will be available here shortly.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to request data export. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setIsRequestingExport(false);
+    }
+  };
+  
+  const handleDownloadDataExport = async (dataExport: DataExport) => {
+    setIsDownloadingExport(true);
+    
+    try {
+      // The download needs the auth header, so it is fetched as a blob first
+      const response = await apiRequest('GET', `/api/users/me/exports/${dataExport.id}/download`);
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `chatmod-export-${user?.username}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download your data. Please request a new export.",
+        variant: "destructive",
+      });
+      await queryClient.invalidateQueries({ queryKey: ['/api/users/me/exports'] });
+    } finally {
+      setIsDownloadingExport(false);
     }
   };
   
@@ -261,39 +456,73 @@ const SettingsPage: React.FC = () => {
               
               <div>
                 <h3 className="text-lg font-medium mb-4 text-destructive">Danger Zone</h3>
-                <p className="text-sm text-muted-foreground mb-4">
-                  Once you delete your account, there is no going back. Please be certain.
-                </p>
-                
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button variant="destructive">
-                      <Trash2 className="mr-2 h-4 w-4" />
-                      Delete Account
+                {user.deletionScheduledAt ? (
+                  <>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Your account is scheduled to be permanently deleted on{' '}
+                      {new Date(user.deletionScheduledAt).toLocaleDateString()}.
+                      Restore it to keep your profile, messages and media.
+                    </p>
+                    
+                    <Button onClick={handleRestoreAccount} disabled={isRestoringAccount}>
+                      {isRestoringAccount ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <UserCog className="mr-2 h-4 w-4" />
+                      )}
+                      Restore Account
                     </Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-                      <AlertDialogDescription>
-                        This action cannot be undone. This will permanently delete your
-                        account and remove your data from our servers.
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction 
-                        onClick={handleDeleteAccount}
-                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                      >
-                        Delete
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Deleting your account signs you out everywhere. Your profile, messages,
+                      room memberships, likes and uploaded media are permanently removed after
+                      a grace period, during which you can log in and restore the account.
+                    </p>
+                    
+                    <AlertDialog onOpenChange={(open) => !open && setDeletePassword('')}>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="destructive">
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete Account
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Your account and all of your data will be permanently deleted once
+                            the grace period ends. Enter your password to confirm.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <Input
+                          type="password"
+                          placeholder="Enter your password"
+                          value={deletePassword}
+                          onChange={(e) => setDeletePassword(e.target.value)}
+                        />
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction 
+                            onClick={handleDeleteAccount}
+                            disabled={isDeletingAccount || !deletePassword}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </>
+                )}
               </div>
             </CardContent>
           </Card>
+          
+          <TwoFactorSettings />
+          
+          <ActiveSessions />
         </TabsContent>
         
         <TabsContent value="notifications">
@@ -309,7 +538,7 @@ const SettingsPage: React.FC = () => {
                 <div className="space-y-0.5">
                   <Label htmlFor="email-notifications">Email Notifications</Label>
                   <p className="text-sm text-muted-foreground">
-                    Receive email notifications for important updates
+                    Get an email digest of messages you missed while offline
                   </p>
                 </div>
                 <Switch
@@ -352,14 +581,8 @@ const SettingsPage: React.FC = () => {
               </div>
             </CardContent>
             <CardFooter>
-              <Button
-                onClick={() => {
-                  toast({
-                    title: "Notification Settings Saved",
-                    description: "Your notification preferences have been updated",
-                  });
-                }}
-              >
+              <Button onClick={handleSaveNotifications} disabled={isSavingNotifications}>
+                {isSavingNotifications && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Save Notification Settings
               </Button>
             </CardFooter>
@@ -391,6 +614,38 @@ const SettingsPage: React.FC = () => {
               
               <Separator />
               
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="read-receipts">Read Receipts</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Let people know when you have read their messages. If turned off, you won't see read receipts from others either
+                  </p>
+                </div>
+                <Switch
+                  id="read-receipts"
+                  checked={readReceipts}
+                  onCheckedChange={setReadReceipts}
+                />
+              </div>
+              
+              <Separator />
+              
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="invisible">Appear Offline</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Hide your online status and last seen time from other users
+                  </p>
+                </div>
+                <Switch
+                  id="invisible"
+                  checked={invisible}
+                  onCheckedChange={setInvisible}
+                />
+              </div>
+              
+              <Separator />
+              
               <div className="space-y-2">
                 <Label htmlFor="blocked-users">Blocked Users</Label>
                 <p className="text-sm text-muted-foreground mb-4">
@@ -408,23 +663,57 @@ const SettingsPage: React.FC = () => {
               <div className="space-y-2">
                 <Label htmlFor="data-download">Download Your Data</Label>
                 <p className="text-sm text-muted-foreground mb-4">
-                  Download a copy of your data from SocialConnect
+                  Download a copy of your data from SocialConnect: your profile, messages, rooms, likes, matches and uploaded files
                 </p>
                 
-                <Button variant="outline">
-                  Request Data Download
-                </Button>
+                {latestExport?.status === 'pending' && (
+                  <p className="text-sm text-muted-foreground mb-4 flex items-center">
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Preparing your archive...
+                  </p>
+                )}
+                
+                {latestExport?.status === 'failed' && (
+                  <p className="text-sm text-destructive mb-4">
+                    The last export failed. Please try again.
+                  </p>
+                )}
+                
+                {latestExport?.status === 'ready' && latestExport.expiresAt && (
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Your archive is ready and available until {new Date(latestExport.expiresAt).toLocaleString()}
+                  </p>
+                )}
+                
+                <div className="flex flex-wrap gap-2">
+                  {latestExport?.status === 'ready' && (
+                    <Button
+                      onClick={() => handleDownloadDataExport(latestExport)}
+                      disabled={isDownloadingExport}
+                    >
+                      {isDownloadingExport ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Download className="h-4 w-4 mr-2" />
+                      )}
+                      Download my data
+                    </Button>
+                  )}
+                  
+                  <Button
+                    variant="outline"
+                    onClick={handleRequestDataExport}
+                    disabled={isRequestingExport || latestExport?.status === 'pending'}
+                  >
+                    {isRequestingExport && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {latestExport?.status === 'ready' ? 'Request New Export' : 'Request Data Download'}
+                  </Button>
+                </div>
               </div>
             </CardContent>
             <CardFooter>
-              <Button
-                onClick={() => {
-                  toast({
-                    title: "Privacy Settings Saved",
-                    description: "Your privacy settings have been updated",
-                  });
-                }}
-              >
+              <Button onClick={handleSavePrivacy} disabled={isSavingPrivacy}>
+                {isSavingPrivacy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Save Privacy Settings
               </Button>
             </CardFooter>
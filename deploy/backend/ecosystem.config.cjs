@@ -2,6 +2,10 @@ module.exports = {
   apps: [{
     name: "backend",
     script: "index.js",
+    // Instances share WebSocket events through Redis and everything else
+    // through PostgreSQL; see REDIS_URL in DEPLOYMENT.md
+    instances: 2,
+    exec_mode: "cluster",
     env: {
       NODE_ENV: "production",
       PORT: 5000
@@ -0,0 +1,129 @@
+// Measures room message throughput over real WebSocket connections against an
+// in-process server with in-memory storage.
+//
+//   npm run bench:rooms
+//   BENCH_SOCKETS=1000 BENCH_ROOMS=100 BENCH_MESSAGES=5000 npm run bench:rooms
+//
+// Every user joins one room and every fourth user also views a second public
+// room without joining it, so both subscription paths are exercised.
+import express from "express";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { registerRoutes } from "../server/routes";
+import { storage } from "../server/storage";
+import type { ChatRoom } from "@shared/schema";
+
+const SOCKETS = parseInt(process.env.BENCH_SOCKETS || "1000");
+const ROOMS = parseInt(process.env.BENCH_ROOMS || "100");
+const MESSAGES = parseInt(process.env.BENCH_MESSAGES || "5000");
+// Messages waiting for their ack at any time
+const IN_FLIGHT = parseInt(process.env.BENCH_IN_FLIGHT || "50");
+
+interface BenchClient {
+  socket: WebSocket;
+  roomId: number;
+  received: number;
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+async function main() {
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  console.log(`Setting up ${SOCKETS} users in ${ROOMS} rooms...`);
+  const rooms: ChatRoom[] = [];
+  for (let i = 0; i < ROOMS; i++) {
+    rooms.push(await storage.createChatRoom({ name: `bench-${i}`, description: "", createdBy: 0, isPrivate: false }));
+  }
+
+  const tokens: string[] = [];
+  const followers = new Map<number, number>();
+  const follow = (roomId: number) => followers.set(roomId, (followers.get(roomId) || 0) + 1);
+  for (let i = 0; i < SOCKETS; i++) {
+    const user = await storage.createUser({
+      username: `bench${i}`,
+      password: "-",
+      displayName: `Bench ${i}`,
+      email: `bench${i}@example.com`,
+    });
+    await storage.addUserToRoom({ roomId: rooms[i % ROOMS].id, userId: user.id });
+    follow(rooms[i % ROOMS].id);
+    if (i % 4 === 0) {
+      follow(rooms[(i + 1) % ROOMS].id);
+    }
+    tokens.push(await storage.createUserToken(user.id));
+  }
+
+  const acks = new Map<string, (sentAt: number) => void>();
+  const connectStart = Date.now();
+  const clients: BenchClient[] = await Promise.all(tokens.map((token, i) => new Promise<BenchClient>((resolve, reject) => {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/ws?token=${token}`);
+    const client: BenchClient = { socket, roomId: rooms[i % ROOMS].id, received: 0 };
+    socket.on("error", reject);
+    socket.on("message", raw => {
+      const data = JSON.parse(raw.toString());
+      if (data.type === "auth_success") {
+        if (i % 4 === 0) {
+          socket.send(JSON.stringify({ type: "room_subscribe", roomId: rooms[(i + 1) % ROOMS].id }));
+        }
+        resolve(client);
+      } else if (data.type === "chat_message") {
+        client.received++;
+      } else if (data.type === "ack") {
+        acks.get(data.clientId)?.(Date.now());
+      }
+    });
+  })));
+  console.log(`Connected ${clients.length} sockets in ${Date.now() - connectStart} ms`);
+  // Lets the last room_subscribe frames land before measuring
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  let expected = 0;
+  const latencies: number[] = [];
+  const start = Date.now();
+  let next = 0;
+  const sendNext = async (): Promise<void> => {
+    while (next < MESSAGES) {
+      const sender = clients[next % clients.length];
+      const clientId = `bench-${next++}`;
+      expected += followers.get(sender.roomId) || 0;
+      const sentAt = Date.now();
+      await new Promise<void>(resolve => {
+        acks.set(clientId, ackedAt => {
+          acks.delete(clientId);
+          latencies.push(ackedAt - sentAt);
+          resolve();
+        });
+        sender.socket.send(JSON.stringify({ type: "chat_message", roomId: sender.roomId, content: "benchmark", clientId }));
+      });
+    }
+  };
+  await Promise.all(Array.from({ length: IN_FLIGHT }, sendNext));
+
+  // Deliveries can still be on the wire when the last ack arrives
+  const received = () => clients.reduce((sum, client) => sum + client.received, 0);
+  while (received() < expected) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  const elapsed = (Date.now() - start) / 1000;
+
+  latencies.sort((a, b) => a - b);
+  console.log(`Sent ${MESSAGES} messages with ${expected} deliveries in ${elapsed.toFixed(2)} s`);
+  console.log(`  ${Math.round(MESSAGES / elapsed)} messages/s, ${Math.round(expected / elapsed)} deliveries/s`);
+  console.log(`  ack latency p50 ${percentile(latencies, 0.5)} ms, p99 ${percentile(latencies, 0.99)} ms`);
+
+  clients.forEach(client => client.socket.close());
+  server.close();
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+import path from 'path';
+import fs from 'fs';
+import { storage } from './storage';
+import { revokeAllSessions } from './sessions';
+
+// Deleted accounts stay restorable for this many days before being purged
+const DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14');
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+export async function scheduleAccountDeletion(userId: number): Promise<Date> {
+  const deletionScheduledAt = new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+  await storage.updateUserProfile(userId, { deletionScheduledAt });
+  await revokeAllSessions(userId);
+
+  return deletionScheduledAt;
+}
+
+export async function restoreAccount(userId: number): Promise<void> {
+  await storage.updateUserProfile(userId, { deletionScheduledAt: null });
+}
+
+// Removes the user with everything they own, including uploaded files on disk
+export async function purgeAccount(userId: number): Promise<void> {
+  const user = await storage.getUser(userId);
+  if (!user) return;
+
+  const mediaItems = await storage.getMediaItemsByUserId(userId);
+  const fileUrls = [user.profilePicture, ...mediaItems.map(item => item.url)];
+
+  await storage.deleteUser(userId);
+
+  for (const url of fileUrls) {
+    await removeUpload(url);
+  }
+}
+
+export async function purgeDueAccounts(): Promise<number> {
+  const dueUsers = await storage.getUsersDueForDeletion(new Date());
+
+  for (const user of dueUsers) {
+    await purgeAccount(user.id);
+  }
+
+  return dueUsers.length;
+}
+
+export function startAccountPurgeJob(): NodeJS.Timeout {
+  const run = () => {
+    purgeDueAccounts()
+      .then(count => {
+        if (count > 0) {
+          console.log(`Purged ${count} deleted account(s)`);
+        }
+      })
+      .catch(error => {
+        console.error('Account purge error:', error);
+      });
+  };
+
+  run();
+  return setInterval(run, PURGE_INTERVAL_MS);
+}
+
+// Only files under /uploads are ever removed
+async function removeUpload(url: string | null) {
+  if (!url || !url.startsWith('/uploads/')) return;
+
+  const uploadDir = path.join(process.cwd(), 'uploads');
+  const filePath = path.join(process.cwd(), url);
+  if (!filePath.startsWith(uploadDir + path.sep)) return;
+
+  try {
+    await fs.promises.unlink(filePath);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error(`Failed to remove ${filePath}:`, error);
+    }
+  }
+}
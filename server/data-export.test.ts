@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestStorage } from './test-db';
+import { MemStorage, type IStorage } from './storage';
+import { buildManifests } from './data-export';
+
+for (const [name, create] of [['memory', async () => new MemStorage()], ['Postgres', createTestStorage]] as const) {
+  test(`the export holds the user's data but no credentials (${name})`, async () => {
+    const storage: IStorage = await create();
+    const [alice, bob] = await Promise.all(['alice', 'bob'].map(username =>
+      storage.createUser({ username, password: 'hashed-password', displayName: username, email: `${username}@example.com` })
+    ));
+    await storage.updateUserProfile(alice.id, { totpSecret: 'TOTPSECRET', totpEnabled: true, totpRecoveryCodes: ['recovery-hash'] });
+    const token = await storage.createUserToken(alice.id, { userAgent: 'test', ipAddress: '127.0.0.1' });
+    await storage.createVerificationCode({ email: alice.email, code: '918273', type: 'password_reset', expiresAt: new Date(Date.now() + 60000) });
+    await storage.createMessage({ senderId: alice.id, receiverId: bob.id, content: 'to bob' });
+    await storage.createMessage({ senderId: bob.id, receiverId: alice.id, content: 'to alice' });
+
+    const manifests = buildManifests((await storage.getUserDataSnapshot(alice.id))!);
+    const profile = manifests['profile.json'] as Record<string, unknown>;
+    assert.equal(profile.username, 'alice');
+    for (const field of ['password', 'totpSecret', 'totpRecoveryCodes', 'totpLastUsedStep', 'totpFailedAttempts', 'totpLockedUntil']) {
+      assert.equal(field in profile, false, field);
+    }
+
+    const direct = manifests['messages/direct.json'] as { sent: { content: string }[]; received: { content: string }[] };
+    assert.deepEqual([direct.sent.map(message => message.content), direct.received.map(message => message.content)], [['to bob'], ['to alice']]);
+
+    const json = JSON.stringify(manifests);
+    for (const secret of ['hashed-password', 'TOTPSECRET', 'recovery-hash', token, '918273']) {
+      assert.equal(json.includes(secret), false, secret);
+    }
+  });
+}
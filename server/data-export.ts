@@ -0,0 +1,236 @@
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import archiver from 'archiver';
+import { storage, type UserDataSnapshot } from './storage';
+import type { DataExport } from '@shared/schema';
+
+// Finished archives are kept this long before being removed from disk
+const EXPORT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+// A pending export older than this was cut off by a restart
+const EXPORT_BUILD_TIMEOUT_MS = 60 * 60 * 1000; // 1 hour
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+// Archives live outside /uploads so they are never served statically
+const exportDir = path.join(process.cwd(), 'exports');
+const uploadDir = path.join(process.cwd(), 'uploads');
+// Only files from these upload folders are included in an export
+const EXPORTED_UPLOAD_DIRS = ['media', 'profile-pics'];
+
+// Records are kept in storage, so every instance of a cluster can list and
+// serve the archives; they share the exports directory on disk.
+
+// Starts building an archive in the background. A user has at most one
+// export in progress, so repeated requests return the pending one.
+export async function requestDataExport(userId: number): Promise<DataExport> {
+  const pending = (await getDataExports(userId)).find(item => item.status === 'pending');
+  if (pending) return pending;
+
+  const dataExport = await storage.createDataExport({
+    id: crypto.randomBytes(16).toString('hex'),
+    userId
+  });
+
+  buildExport(dataExport).catch(async (error) => {
+    console.error(`Data export ${dataExport.id} failed:`, error);
+    const completedAt = new Date();
+    await storage.updateDataExport(dataExport.id, {
+      status: 'failed',
+      completedAt,
+      expiresAt: new Date(completedAt.getTime() + EXPORT_TTL_MS)
+    });
+  }).catch(error => {
+    console.error(`Failed to record data export ${dataExport.id} as failed:`, error);
+  });
+
+  return dataExport;
+}
+
+// Expired exports wait for the next sweep, but are already hidden
+function isLive(dataExport: DataExport): boolean {
+  return !dataExport.expiresAt || dataExport.expiresAt > new Date();
+}
+
+export async function getDataExports(userId: number): Promise<DataExport[]> {
+  return (await storage.getDataExportsForUser(userId)).filter(isLive);
+}
+
+export async function getDataExport(userId: number, id: string): Promise<DataExport | undefined> {
+  const dataExport = await storage.getDataExport(id);
+  return dataExport && dataExport.userId === userId && isLive(dataExport) ? dataExport : undefined;
+}
+
+export function archivePath(dataExport: Pick<DataExport, 'id'>): string {
+  return path.join(exportDir, `${dataExport.id}.zip`);
+}
+
+async function buildExport(dataExport: DataExport) {
+  const snapshot = await storage.getUserDataSnapshot(dataExport.userId);
+  if (!snapshot) {
+    throw new Error(`User ${dataExport.userId} not found`);
+  }
+
+  await fs.promises.mkdir(exportDir, { recursive: true });
+  const filePath = archivePath(dataExport);
+
+  const output = fs.createWriteStream(filePath);
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on('close', resolve);
+    archive.on('error', reject);
+  });
+  archive.pipe(output);
+
+  const files = collectUploads(snapshot);
+  const manifests = buildManifests(snapshot);
+
+  for (const [name, data] of Object.entries(manifests)) {
+    archive.append(JSON.stringify(data, null, 2), { name });
+  }
+  if (snapshot.user.profileHtml) {
+    archive.append(snapshot.user.profileHtml, { name: 'profile.html' });
+  }
+
+  const includedFiles: string[] = [];
+  for (const file of files) {
+    try {
+      await fs.promises.access(file.sourcePath);
+      archive.file(file.sourcePath, { name: file.name });
+      includedFiles.push(file.name);
+    } catch {
+      // Referenced uploads that no longer exist on disk are skipped
+    }
+  }
+
+  archive.append(JSON.stringify({
+    exportedAt: new Date(),
+    userId: snapshot.user.id,
+    username: snapshot.user.username,
+    manifests: Object.keys(manifests),
+    files: includedFiles
+  }, null, 2), { name: 'manifest.json' });
+
+  await archive.finalize();
+  await finished;
+
+  const completedAt = new Date();
+  await storage.updateDataExport(dataExport.id, {
+    status: 'ready',
+    completedAt,
+    expiresAt: new Date(completedAt.getTime() + EXPORT_TTL_MS)
+  });
+}
+
+// The JSON files of the archive, keyed by their path in it
+export function buildManifests(snapshot: UserDataSnapshot): Record<string, unknown> {
+  // Credentials are never exported: password hashes, 2FA secrets, session tokens and codes
+  const { password, verificationCode, totpSecret, totpRecoveryCodes, totpLastUsedStep, totpFailedAttempts, totpLockedUntil, ...profile } = snapshot.user;
+
+  return {
+    'profile.json': profile,
+    'messages/direct.json': {
+      sent: snapshot.messagesSent,
+      received: snapshot.messagesReceived
+    },
+    'messages/rooms.json': snapshot.chatMessages,
+    'rooms.json': {
+      memberships: snapshot.roomMemberships,
+      rooms: snapshot.rooms
+    },
+    'likes.json': {
+      given: snapshot.likesGiven,
+      received: snapshot.likesReceived,
+      matches: snapshot.matches.map(user => ({
+        id: user.id,
+        username: user.username,
+        displayName: user.displayName
+      }))
+    },
+    'media.json': snapshot.mediaItems,
+    'admin-logs.json': snapshot.adminLogs,
+    'security.json': {
+      sessions: snapshot.tokens.map(({ token, ...session }) => session),
+      verificationCodes: snapshot.verificationCodes.map(({ code, ...verification }) => verification)
+    }
+  };
+}
+
+function collectUploads(snapshot: UserDataSnapshot) {
+  const urls = [
+    snapshot.user.profilePicture,
+    ...snapshot.mediaItems.map(item => item.url),
+    ...snapshot.messagesSent.map(message => message.mediaUrl),
+    ...snapshot.chatMessages.map(message => message.mediaUrl)
+  ];
+
+  const files = new Map<string, { sourcePath: string; name: string }>();
+  for (const url of urls) {
+    if (!url || !url.startsWith('/uploads/')) continue;
+
+    const sourcePath = path.join(process.cwd(), url);
+    const relativePath = path.relative(uploadDir, sourcePath);
+    const [folder] = relativePath.split(path.sep);
+    if (relativePath.startsWith('..') || !EXPORTED_UPLOAD_DIRS.includes(folder)) continue;
+
+    files.set(sourcePath, { sourcePath, name: path.posix.join('files', ...relativePath.split(path.sep)) });
+  }
+
+  return Array.from(files.values());
+}
+
+async function removeArchive(filePath: string) {
+  try {
+    await fs.promises.unlink(filePath);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error(`Failed to remove ${filePath}:`, error);
+    }
+  }
+}
+
+// Removes expired exports and builds a restart cut off, then archives no
+// record points to, e.g. of deleted accounts. It runs on one instance for the
+// whole cluster, so it only goes by the stored records.
+export async function sweepExports(): Promise<number> {
+  let removed = 0;
+  const staleBefore = new Date(Date.now() - EXPORT_BUILD_TIMEOUT_MS);
+  for (const dataExport of await storage.getExpiredDataExports(staleBefore)) {
+    await removeArchive(archivePath(dataExport));
+    await storage.deleteDataExport(dataExport.id);
+    removed++;
+  }
+
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(exportDir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return removed;
+    throw error;
+  }
+
+  // A record is stored before its archive is started, so one being written
+  // is never taken for an orphan
+  for (const name of names) {
+    if (await storage.getDataExport(path.parse(name).name)) continue;
+
+    await removeArchive(path.join(exportDir, name));
+    removed++;
+  }
+  return removed;
+}
+
+export function startExportSweepJob(): NodeJS.Timeout {
+  const run = () => {
+    sweepExports()
+      .then(count => {
+        if (count > 0) {
+          console.log(`Removed ${count} stale data export(s)`);
+        }
+      })
+      .catch(error => {
+        console.error('Data export sweep error:', error);
+      });
+  };
+
+  run();
+  return setInterval(run, SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createUnsubscribeToken, verifyUnsubscribeToken } from './digest';
+
+test('an unsubscribe token identifies its user', () => {
+  assert.equal(verifyUnsubscribeToken(createUnsubscribeToken(42)), 42);
+});
+
+test('a tampered unsubscribe token is refused', () => {
+  const [, issuedAt, signature] = createUnsubscribeToken(42).split('.');
+  assert.equal(verifyUnsubscribeToken(`43.${issuedAt}.${signature}`), null);
+  assert.equal(verifyUnsubscribeToken(`42.${Number(issuedAt) + 1}.${signature}`), null);
+  assert.equal(verifyUnsubscribeToken(`42.${signature}`), null);
+});
+
+test('an unsubscribe token stops working after 90 days', () => {
+  const issued = new Date('2026-01-01T00:00:00Z');
+  const token = createUnsubscribeToken(42, issued);
+  assert.equal(verifyUnsubscribeToken(token, new Date('2026-03-01T00:00:00Z')), 42);
+  assert.equal(verifyUnsubscribeToken(token, new Date('2026-04-02T00:00:00Z')), null);
+});
@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import { storage } from './storage';
+import { sendDigestEmail } from './email';
+import { escapeHtml } from '@shared/email-templates';
+import type { User } from '@shared/schema';
+
+// Users get a digest once they have been offline this long
+const DIGEST_OFFLINE_MINUTES = parseInt(process.env.DIGEST_OFFLINE_MINUTES || '60');
+const DIGEST_INTERVAL_MINUTES = parseInt(process.env.DIGEST_INTERVAL_MINUTES || '15');
+// A user gets at most one digest in this period, however busy their rooms are
+const DIGEST_PERIOD_HOURS = parseInt(process.env.DIGEST_PERIOD_HOURS || '24');
+// Used for the links in the email, so it must be the public address of the app
+const APP_URL = (process.env.APP_URL || 'http://localhost:5000').replace(/\/$/, '');
+// Only the busiest conversations and rooms are listed
+const MAX_DIGEST_ENTRIES = 10;
+
+// Signed into every unsubscribe token; raising it revokes all earlier links
+const UNSUBSCRIBE_TOKEN_VERSION = 1;
+// Links in old emails stop working after this
+const UNSUBSCRIBE_TOKEN_MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+
+// Without a configured secret, links stop working after a restart
+const UNSUBSCRIBE_SECRET = process.env.UNSUBSCRIBE_SECRET || process.env.SESSION_SECRET || (() => {
+  console.warn('Neither UNSUBSCRIBE_SECRET nor SESSION_SECRET is set; unsubscribe links will not survive a restart');
+  return crypto.randomBytes(32).toString('hex');
+})();
+
+interface DigestEntry {
+  label: string;
+  count: number;
+}
+
+function signUnsubscribe(userId: number, issuedAt: number): string {
+  return crypto.createHmac('sha256', UNSUBSCRIBE_SECRET)
+    .update(`unsubscribe:v${UNSUBSCRIBE_TOKEN_VERSION}:${userId}:${issuedAt}`)
+    .digest('base64url');
+}
+
+// The token identifies the user and when it was issued (in seconds), so the
+// link works without logging in until it gets too old
+export function createUnsubscribeToken(userId: number, now = new Date()): string {
+  const issuedAt = Math.floor(now.getTime() / 1000);
+  return `${userId}.${issuedAt}.${signUnsubscribe(userId, issuedAt)}`;
+}
+
+export function verifyUnsubscribeToken(token: string, now = new Date()): number | null {
+  const match = /^(\d+)\.(\d+)\.([\w-]+)$/.exec(token);
+  if (!match) return null;
+
+  const userId = parseInt(match[1]);
+  const issuedAt = parseInt(match[2]);
+  const expected = Buffer.from(signUnsubscribe(userId, issuedAt));
+  const actual = Buffer.from(match[3]);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+  if (now.getTime() - issuedAt * 1000 > UNSUBSCRIBE_TOKEN_MAX_AGE_MS) {
+    return null;
+  }
+
+  return userId;
+}
+
+export async function unsubscribeFromDigests(token: string): Promise<User | undefined> {
+  const userId = verifyUnsubscribeToken(token);
+  if (userId === null) return undefined;
+
+  return storage.updateUserProfile(userId, { emailNotifications: false });
+}
+
+function countBy<T>(items: T[], key: (item: T) => number): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const item of items) {
+    counts.set(key(item), (counts.get(key(item)) || 0) + 1);
+  }
+  return counts;
+}
+
+async function describeCounts(
+  counts: Map<number, number>,
+  getLabel: (id: number) => Promise<string | undefined>
+): Promise<DigestEntry[]> {
+  const entries: DigestEntry[] = [];
+  const busiest = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_DIGEST_ENTRIES);
+
+  for (const [id, count] of busiest) {
+    const label = await getLabel(id);
+    if (label) entries.push({ label, count });
+  }
+  return entries;
+}
+
+function formatText(entries: DigestEntry[]): string {
+  return entries.map(entry => `- ${entry.label}: ${entry.count}`).join('\n');
+}
+
+function formatHtml(entries: DigestEntry[]): string {
+  if (entries.length === 0) return '';
+  return `<ul>${entries.map(entry => `<li>${escapeHtml(entry.label)}: ${entry.count}</li>`).join('')}</ul>`;
+}
+
+// Emails what arrived since the user was last seen or last emailed, whichever
+// is later. Returns false when there was nothing new.
+export async function sendDigest(user: User, now = new Date()): Promise<boolean> {
+  const since = new Date(Math.max(user.lastSeen?.getTime() ?? 0, user.lastDigestAt?.getTime() ?? 0));
+
+  const [unreadMessages, roomMessages] = await Promise.all([
+    storage.getUnreadMessagesSince(user.id, since),
+    storage.getRoomMessagesSince(user.id, since)
+  ]);
+  if (unreadMessages.length === 0 && roomMessages.length === 0) {
+    return false;
+  }
+
+  const conversations = await describeCounts(
+    countBy(unreadMessages, message => message.senderId),
+    async (senderId) => (await storage.getUser(senderId))?.displayName
+  );
+  const rooms = await describeCounts(
+    countBy(roomMessages, message => message.roomId),
+    async (roomId) => (await storage.getChatRoomById(roomId))?.name
+  );
+
+  const unsubscribeUrl = `${APP_URL}/api/email/unsubscribe?token=${createUnsubscribeToken(user.id)}`;
+  const sent = await sendDigestEmail(user, {
+    displayName: user.displayName,
+    unreadCount: unreadMessages.length,
+    conversationsText: formatText(conversations),
+    conversationsHtml: formatHtml(conversations),
+    roomMessageCount: roomMessages.length,
+    roomsText: formatText(rooms),
+    roomsHtml: formatHtml(rooms),
+    appUrl: APP_URL
+  }, unsubscribeUrl);
+
+  if (sent) {
+    await storage.updateUserProfile(user.id, { lastDigestAt: now });
+  }
+  return sent;
+}
+
+export async function sendDueDigests(): Promise<number> {
+  const now = new Date();
+  const dueUsers = await storage.getUsersDueForDigest(
+    new Date(now.getTime() - DIGEST_OFFLINE_MINUTES * 60 * 1000),
+    new Date(now.getTime() - DIGEST_PERIOD_HOURS * 60 * 60 * 1000)
+  );
+
+  let sent = 0;
+  for (const user of dueUsers) {
+    try {
+      if (await sendDigest(user, now)) sent++;
+    } catch (error) {
+      console.error(`Digest for user ${user.id} failed:`, error);
+    }
+  }
+  return sent;
+}
+
+export function startDigestJob(): NodeJS.Timeout {
+  let running = false;
+
+  const run = () => {
+    // A slow run must not overlap the next one, or users could get two digests
+    if (running) return;
+    running = true;
+
+    sendDueDigests()
+      .then(count => {
+        if (count > 0) {
+          console.log(`Sent ${count} digest email(s)`);
+        }
+      })
+      .catch(error => {
+        console.error('Digest job error:', error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  run();
+  return setInterval(run, DIGEST_INTERVAL_MINUTES * 60 * 1000);
+}
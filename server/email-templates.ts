@@ -0,0 +1,193 @@
+import { storage } from './storage';
+import { SUPPORTED_LANGUAGES, type SupportedLanguage } from '@shared/schema';
+import {
+  EMAIL_TEMPLATE_NAMES,
+  EMAIL_TEMPLATE_VARIABLES,
+  renderEmailTemplate,
+  type EmailTemplateContent,
+  type EmailTemplateName,
+  type TemplateVariables
+} from '@shared/email-templates';
+
+// Rows in the templates table with this type override the defaults below
+export const EMAIL_TEMPLATE_TYPE = 'email';
+const FALLBACK_LANGUAGE: SupportedLanguage = 'en';
+
+export interface EmailTemplateEntry extends EmailTemplateContent {
+  name: EmailTemplateName;
+  locale: SupportedLanguage;
+  isCustom: boolean;
+  variables: string[];
+  updatedAt: Date | null;
+}
+
+const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateName, Record<SupportedLanguage, EmailTemplateContent>> = {
+  verification: {
+    en: {
+      subject: 'Confirm your email',
+      html: `<h2>Confirm your registration</h2>
+<p>Your verification code: <strong>{{code}}</strong></p>
+<p>The code is valid for {{expiresInMinutes}} minutes.</p>`,
+      text: 'Your verification code: {{code}}. The code is valid for {{expiresInMinutes}} minutes.'
+    },
+    ru: {
+      subject: 'Подтверждение email',
+      html: `<h2>Подтверждение регистрации</h2>
+<p>Ваш код подтверждения: <strong>{{code}}</strong></p>
+<p>Код действителен в течение {{expiresInMinutes}} минут.</p>`,
+      text: 'Ваш код подтверждения: {{code}}. Код действителен в течение {{expiresInMinutes}} минут.'
+    }
+  },
+  password_reset: {
+    en: {
+      subject: 'Password reset',
+      html: `<h2>Password reset</h2>
+<p>Your password reset code: <strong>{{code}}</strong></p>
+<p>The code is valid for {{expiresInMinutes}} minutes. If you didn't request a password reset, just ignore this email.</p>`,
+      text: 'Your password reset code: {{code}}. The code is valid for {{expiresInMinutes}} minutes.'
+    },
+    ru: {
+      subject: 'Восстановление пароля',
+      html: `<h2>Восстановление пароля</h2>
+<p>Ваш код для сброса пароля: <strong>{{code}}</strong></p>
+<p>Код действителен в течение {{expiresInMinutes}} минут. Если вы не запрашивали сброс пароля, просто проигнорируйте это письмо.</p>`,
+      text: 'Ваш код для сброса пароля: {{code}}. Код действителен в течение {{expiresInMinutes}} минут.'
+    }
+  },
+  digest: {
+    en: {
+      subject: 'New messages while you were away',
+      html: `<h2>Hi {{displayName}},</h2>
+<p>Unread direct messages: <strong>{{unreadCount}}</strong></p>
+{{{conversationsHtml}}}
+<p>New messages in your rooms: <strong>{{roomMessageCount}}</strong></p>
+{{{roomsHtml}}}
+<p><a href="{{appUrl}}">Open messages</a></p>
+<p style="font-size: 12px; color: #888;">Don't want these emails? <a href="{{unsubscribeUrl}}">Unsubscribe</a></p>`,
+      text: `Hi {{displayName}},
+
+Unread direct messages: {{unreadCount}}
+{{conversationsText}}
+
+New messages in your rooms: {{roomMessageCount}}
+{{roomsText}}
+
+Open messages: {{appUrl}}
+
+Unsubscribe: {{unsubscribeUrl}}`
+    },
+    ru: {
+      subject: 'Новые сообщения, пока вас не было',
+      html: `<h2>Здравствуйте, {{displayName}}!</h2>
+<p>Непрочитанные личные сообщения: <strong>{{unreadCount}}</strong></p>
+{{{conversationsHtml}}}
+<p>Новые сообщения в ваших комнатах: <strong>{{roomMessageCount}}</strong></p>
+{{{roomsHtml}}}
+<p><a href="{{appUrl}}">Открыть сообщения</a></p>
+<p style="font-size: 12px; color: #888;">Не хотите получать такие письма? <a href="{{unsubscribeUrl}}">Отписаться</a></p>`,
+      text: `Здравствуйте, {{displayName}}!
+
+Непрочитанные личные сообщения: {{unreadCount}}
+{{conversationsText}}
+
+Новые сообщения в ваших комнатах: {{roomMessageCount}}
+{{roomsText}}
+
+Открыть сообщения: {{appUrl}}
+
+Отписаться: {{unsubscribeUrl}}`
+    }
+  },
+  ban_notice: {
+    en: {
+      subject: 'Your account has been banned',
+      html: `<h2>Hi {{displayName}},</h2>
+<p>Your account has been banned by a moderator.</p>
+<p>Reason: {{reason}}</p>`,
+      text: `Hi {{displayName}},
+
+Your account has been banned by a moderator.
+Reason: {{reason}}`
+    },
+    ru: {
+      subject: 'Ваш аккаунт заблокирован',
+      html: `<h2>Здравствуйте, {{displayName}}!</h2>
+<p>Ваш аккаунт был заблокирован модератором.</p>
+<p>Причина: {{reason}}</p>`,
+      text: `Здравствуйте, {{displayName}}!
+
+Ваш аккаунт был заблокирован модератором.
+Причина: {{reason}}`
+    }
+  }
+};
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return (EMAIL_TEMPLATE_NAMES as readonly string[]).includes(name);
+}
+
+export function isSupportedLanguage(locale: string | null | undefined): locale is SupportedLanguage {
+  return !!locale && (SUPPORTED_LANGUAGES as readonly string[]).includes(locale);
+}
+
+export function getDefaultEmailTemplate(name: EmailTemplateName, locale: SupportedLanguage): EmailTemplateContent {
+  return DEFAULT_EMAIL_TEMPLATES[name][locale];
+}
+
+async function getEmailTemplateEntry(name: EmailTemplateName, locale: SupportedLanguage): Promise<EmailTemplateEntry> {
+  const custom = await storage.getTemplate(name, EMAIL_TEMPLATE_TYPE, locale);
+  const defaults = getDefaultEmailTemplate(name, locale);
+
+  return {
+    name,
+    locale,
+    subject: custom?.subject ?? defaults.subject,
+    html: custom?.content ?? defaults.html,
+    text: custom?.textContent ?? defaults.text,
+    isCustom: !!custom,
+    variables: Object.keys(EMAIL_TEMPLATE_VARIABLES[name]),
+    updatedAt: custom?.updatedAt ?? null
+  };
+}
+
+export async function listEmailTemplates(): Promise<EmailTemplateEntry[]> {
+  const entries: EmailTemplateEntry[] = [];
+  for (const name of EMAIL_TEMPLATE_NAMES) {
+    for (const locale of SUPPORTED_LANGUAGES) {
+      entries.push(await getEmailTemplateEntry(name, locale));
+    }
+  }
+  return entries;
+}
+
+export async function saveEmailTemplate(
+  name: EmailTemplateName,
+  locale: SupportedLanguage,
+  content: EmailTemplateContent
+): Promise<EmailTemplateEntry> {
+  await storage.upsertTemplate({
+    name,
+    type: EMAIL_TEMPLATE_TYPE,
+    locale,
+    subject: content.subject,
+    content: content.html,
+    textContent: content.text
+  });
+  return getEmailTemplateEntry(name, locale);
+}
+
+// Drops the customized version so the built-in default is used again
+export async function resetEmailTemplate(name: EmailTemplateName, locale: SupportedLanguage): Promise<EmailTemplateEntry> {
+  await storage.deleteTemplate(name, EMAIL_TEMPLATE_TYPE, locale);
+  return getEmailTemplateEntry(name, locale);
+}
+
+// Renders a template in the recipient's language, falling back to English
+export async function renderEmail(
+  name: EmailTemplateName,
+  locale: string | null | undefined,
+  variables: TemplateVariables
+): Promise<EmailTemplateContent> {
+  const template = await getEmailTemplateEntry(name, isSupportedLanguage(locale) ? locale : FALLBACK_LANGUAGE);
+  return renderEmailTemplate(template, variables);
+}
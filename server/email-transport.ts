@@ -0,0 +1,133 @@
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import nodemailer, { type Transporter } from 'nodemailer';
+import { MailService } from '@sendgrid/mail';
+
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  headers?: Record<string, string>;
+}
+
+// Delivers a single message; implementations throw when delivery fails so the
+// caller can retry
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+  verify(): Promise<void>;
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor() {
+    // GMAIL_USER/GMAIL_APP_PASSWORD predate the generic SMTP settings and still work
+    this.transporter = process.env.SMTP_HOST
+      ? nodemailer.createTransport({
+          host: process.env.SMTP_HOST,
+          port: parseInt(process.env.SMTP_PORT || '587'),
+          secure: process.env.SMTP_SECURE === 'true',
+          auth: process.env.SMTP_USER
+            ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+            : undefined
+        })
+      : nodemailer.createTransport({
+          service: 'gmail',
+          auth: {
+            user: process.env.GMAIL_USER,
+            pass: process.env.GMAIL_APP_PASSWORD
+          }
+        });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+
+  async verify(): Promise<void> {
+    await this.transporter.verify();
+  }
+}
+
+export class SendGridTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+  private client: MailService;
+
+  constructor(apiKey: string) {
+    this.client = new MailService();
+    this.client.setApiKey(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.client.send({
+      to: message.to,
+      from: message.from,
+      subject: message.subject,
+      text: message.text || '',
+      html: message.html,
+      headers: message.headers
+    });
+  }
+
+  async verify(): Promise<void> {
+    // SendGrid has no cheap connectivity check; a bad key surfaces on first send
+  }
+}
+
+// Writes every message as a complete .eml file instead of sending it, so
+// email flows can be tested offline and the files opened in any mail client
+export class FileOutboxTransport implements EmailTransport {
+  readonly name = 'outbox';
+  private directory: string;
+  private transporter: Transporter;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const info = await this.transporter.sendMail(message);
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    const filePath = path.join(this.directory, filename);
+    await fs.promises.writeFile(filePath, info.message as Buffer);
+
+    console.log(`Email to ${message.to} (${message.subject}) written to ${filePath}`);
+  }
+
+  async verify(): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+  }
+}
+
+// EMAIL_TRANSPORT selects the backend explicitly ("smtp", "sendgrid" or
+// "outbox"). Without it, SendGrid is used when an API key is set, SMTP when
+// SMTP or Gmail credentials are set, and the file outbox otherwise.
+export function createEmailTransport(): EmailTransport {
+  const driver = process.env.EMAIL_TRANSPORT || (
+    process.env.SENDGRID_API_KEY ? 'sendgrid'
+      : process.env.SMTP_HOST || (process.env.GMAIL_USER && process.env.GMAIL_APP_PASSWORD) ? 'smtp'
+      : 'outbox'
+  );
+
+  switch (driver) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'sendgrid':
+      if (!process.env.SENDGRID_API_KEY) {
+        throw new Error('SENDGRID_API_KEY must be set when EMAIL_TRANSPORT=sendgrid');
+      }
+      return new SendGridTransport(process.env.SENDGRID_API_KEY);
+    case 'outbox':
+      return new FileOutboxTransport(process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox'));
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${driver}"`);
+  }
+}
@@ -1,72 +1,118 @@
-import nodemailer from 'nodemailer';
-
-// Gmail SMTP configuration
-const transporter = nodemailer.createTransport({
-  service: 'gmail',
-  auth: {
-    user: process.env.GMAIL_USER || 'your-email@gmail.com',
-    pass: process.env.GMAIL_APP_PASSWORD || 'your-app-password'
-  }
-});
+import { createEmailTransport, type EmailTransport, type EmailMessage } from './email-transport';
+import { renderEmail } from './email-templates';
+import type { User } from '@shared/schema';
+import type { EmailTemplateName, TemplateVariables } from '@shared/email-templates';
+
+const DEFAULT_FROM = process.env.EMAIL_FROM || process.env.GMAIL_USER || 'noreply@app.com';
+
+// Failed sends are retried after 30s, 1m, 2m and 4m before giving up
+const MAX_SEND_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const MAX_QUEUED_RETRIES = 1000;
+
+const transport: EmailTransport = createEmailTransport();
+let queuedRetries = 0;
 
 // Test the connection
-if (process.env.GMAIL_USER && process.env.GMAIL_APP_PASSWORD) {
-  transporter.verify((error: any, success: any) => {
-    if (error) {
-      console.log('Email service error:', error);
-    } else {
-      console.log('Email service ready');
-    }
+transport.verify()
+  .then(() => {
+    console.log(`Email service ready (${transport.name})`);
+  })
+  .catch((error: any) => {
+    console.log(`Email service error (${transport.name}):`, error);
   });
-} else {
-  console.log("Gmail credentials not set. Using console logging for development.");
-}
 
 interface EmailParams {
   to: string;
-  from: string;
+  from?: string;
   subject: string;
   text?: string;
   html?: string;
+  headers?: Record<string, string>;
 }
 
+// Resolves to true once the message is delivered or queued for another
+// attempt, and to false only when it had to be dropped.
 export async function sendEmail(params: EmailParams): Promise<boolean> {
-  if (!process.env.GMAIL_USER || !process.env.GMAIL_APP_PASSWORD) {
-    console.log(`Email would be sent to ${params.to}: ${params.subject}`);
-    console.log(`Code: ${params.text?.match(/\d{6}/)?.[0] || 'N/A'}`);
-    return true; // Return success for development
+  const message = { ...params, from: params.from || DEFAULT_FROM };
+
+  if (await attemptDelivery(message, 1)) {
+    return true;
   }
 
+  return scheduleRetry(message, 1);
+}
+
+async function attemptDelivery(message: EmailMessage, attempt: number): Promise<boolean> {
   try {
-    await transporter.sendMail({
-      from: process.env.GMAIL_USER,
-      to: params.to,
-      subject: params.subject,
-      text: params.text,
-      html: params.html,
-    });
+    await transport.send(message);
     return true;
   } catch (error) {
-    console.error('Gmail email error:', error);
+    console.error(`Email to ${message.to} failed (attempt ${attempt}/${MAX_SEND_ATTEMPTS}):`, error);
+    return false;
+  }
+}
+
+function scheduleRetry(message: EmailMessage, attempt: number): boolean {
+  if (attempt >= MAX_SEND_ATTEMPTS) {
+    console.error(`Giving up on email to ${message.to}: ${message.subject}`);
+    return false;
+  }
+
+  if (queuedRetries >= MAX_QUEUED_RETRIES) {
+    console.error(`Email retry queue is full, dropping email to ${message.to}`);
     return false;
   }
+
+  queuedRetries++;
+  const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+
+  setTimeout(async () => {
+    queuedRetries--;
+    if (!(await attemptDelivery(message, attempt + 1))) {
+      scheduleRetry(message, attempt + 1);
+    }
+  }, delay).unref();
+
+  return true;
 }
 
 export function generateVerificationCode(): string {
   return Math.floor(100000 + Math.random() * 900000).toString();
 }
 
-export async function sendVerificationEmail(email: string, code: string): Promise<boolean> {
-  return sendEmail({
-    to: email,
-    from: process.env.GMAIL_USER || 'noreply@app.com',
-    subject: 'Подтверждение email',
-    html: `
-      <h2>Подтверждение регистрации</h2>
-      <p>Ваш код подтверждения: <strong>${code}</strong></p>
-      <p>Код действителен в течение 15 минут.</p>
-    `,
-    text: `Ваш код подтверждения: ${code}. Код действителен в течение 15 минут.`
+// Sends one of the transactional templates in the recipient's language
+export async function sendTemplatedEmail(
+  to: string,
+  name: EmailTemplateName,
+  locale: string | null | undefined,
+  variables: TemplateVariables,
+  headers?: Record<string, string>
+): Promise<boolean> {
+  const { subject, html, text } = await renderEmail(name, locale, variables);
+  return sendEmail({ to, subject, html, text, headers });
+}
+
+export async function sendVerificationEmail(email: string, code: string, locale?: string | null): Promise<boolean> {
+  return sendTemplatedEmail(email, 'verification', locale, { code, expiresInMinutes: 15 });
+}
+
+export async function sendPasswordResetEmail(email: string, code: string, locale?: string | null): Promise<boolean> {
+  return sendTemplatedEmail(email, 'password_reset', locale, { code, expiresInMinutes: 15 });
+}
+
+export async function sendBanNoticeEmail(user: User, reason: string): Promise<boolean> {
+  return sendTemplatedEmail(user.email, 'ban_notice', user.language, {
+    displayName: user.displayName,
+    reason
+  });
+}
+
+// List-Unsubscribe lets mail clients show their own one-click unsubscribe button (RFC 8058)
+export async function sendDigestEmail(user: User, variables: TemplateVariables, unsubscribeUrl: string): Promise<boolean> {
+  return sendTemplatedEmail(user.email, 'digest', user.language, { ...variables, unsubscribeUrl }, {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
   });
 }
 
@@ -0,0 +1,21 @@
+// Helpers for maps from a key to a set of values, used as in-memory indexes.
+// Empty sets are dropped, so a key is present only while it has values.
+
+export function addToIndex<K, V>(index: Map<K, Set<V>>, key: K, value: V): void {
+  const values = index.get(key);
+  if (values) {
+    values.add(value);
+  } else {
+    index.set(key, new Set([value]));
+  }
+}
+
+export function removeFromIndex<K, V>(index: Map<K, Set<V>>, key: K, value: V): void {
+  const values = index.get(key);
+  if (!values) return;
+
+  values.delete(value);
+  if (values.size === 0) {
+    index.delete(key);
+  }
+}
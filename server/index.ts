@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startAccountPurgeJob } from "./account";
+import { startDigestJob } from "./digest";
+import { startExportSweepJob } from "./data-export";
 import { setupVite, serveStatic, log } from "./vite";
 import session from 'express-session';
 import path from 'path';
@@ -30,6 +33,10 @@ app.use(session({
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Responses that carry secrets, e.g. TOTP secrets and recovery codes, are
+// logged without their body
+const UNLOGGED_RESPONSE_PATHS = ['/api/users/me/2fa'];
+
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
@@ -53,7 +60,7 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      if (capturedJsonResponse && !UNLOGGED_RESPONSE_PATHS.some(prefix => path.startsWith(prefix))) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -70,6 +77,13 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  // In PM2 cluster mode only the first instance runs the background jobs, so
+  // digests are not sent once per instance
+  if (!process.env.NODE_APP_INSTANCE || process.env.NODE_APP_INSTANCE === "0") {
+    startAccountPurgeJob();
+    startDigestJob();
+    startExportSweepJob();
+  }
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from './storage';
+import { sendDirectMessage, sendRoomMessage, addModerationHook, setMessageFanout, MessageRejectedError, type DirectMessage, type RoomMessage } from './messages';
+
+// Without DATABASE_URL the shared storage is the in-memory one
+async function createUser(username: string) {
+  return storage.createUser({ username, password: '-', displayName: username, email: `${username}@example.com` });
+}
+
+test('a direct message is stored once and fanned out once', async () => {
+  const [alice, bob] = await Promise.all([createUser('dm-alice'), createUser('dm-bob')]);
+  const pushed: DirectMessage[] = [];
+  setMessageFanout({
+    direct: async (message) => {
+      pushed.push(message);
+      return { ...message, delivered: true };
+    },
+    room: async () => {}
+  });
+
+  try {
+    const first = await sendDirectMessage(alice.id, { receiverId: bob.id, content: 'hi', clientId: 'dm-1' });
+    const retry = await sendDirectMessage(alice.id, { receiverId: bob.id, content: 'hi', clientId: 'dm-1' });
+
+    assert.equal(first.created, true);
+    assert.equal(first.message.delivered, true);
+    assert.equal(retry.created, false);
+    assert.equal(retry.message.id, first.message.id);
+    assert.equal(pushed.length, 1);
+  } finally {
+    setMessageFanout(null);
+  }
+});
+
+test('direct messages to unknown users are rejected', async () => {
+  const alice = await createUser('unknown-alice');
+  await assert.rejects(
+    sendDirectMessage(alice.id, { receiverId: 999_999, content: 'hi' }),
+    (error: unknown) => error instanceof MessageRejectedError && error.status === 404
+  );
+});
+
+test('moderation hooks can refuse direct and room messages before they are stored', async () => {
+  const [alice, bob] = await Promise.all([createUser('mod-alice'), createUser('mod-bob')]);
+  const room = await storage.createChatRoom({ name: 'moderated', description: '', createdBy: alice.id, isPrivate: false });
+  const seen: string[] = [];
+  const removeHook = addModerationHook((draft) => {
+    seen.push(draft.type);
+    if (draft.message.content.includes('spam')) {
+      throw new MessageRejectedError('Message refused', 422);
+    }
+  });
+
+  try {
+    await assert.rejects(sendDirectMessage(alice.id, { receiverId: bob.id, content: 'spam' }), MessageRejectedError);
+    await assert.rejects(sendRoomMessage(alice.id, { roomId: room.id, content: 'spam' }), MessageRejectedError);
+    await sendRoomMessage(alice.id, { roomId: room.id, content: 'fine' });
+  } finally {
+    removeHook();
+  }
+
+  assert.deepEqual(seen, ['direct', 'room', 'room']);
+  assert.deepEqual((await storage.getMessagesBetweenUsers(alice.id, bob.id)).map(message => message.content), []);
+  assert.deepEqual((await storage.getChatMessagesByRoomId(room.id)).map(message => message.content), ['fine']);
+});
+
+test('room messages are fanned out and private rooms refuse outsiders', async () => {
+  const [alice, eve] = await Promise.all([createUser('room-alice'), createUser('room-eve')]);
+  const room = await storage.createChatRoom({ name: 'secret', description: '', createdBy: alice.id, isPrivate: true });
+  await storage.addUserToRoom({ roomId: room.id, userId: alice.id });
+  const pushed: RoomMessage[] = [];
+  setMessageFanout({ direct: async (message) => message, room: async (message) => { pushed.push(message); } });
+
+  try {
+    await sendRoomMessage(alice.id, { roomId: room.id, content: 'members only' });
+    await assert.rejects(
+      sendRoomMessage(eve.id, { roomId: room.id, content: 'let me in' }),
+      (error: unknown) => error instanceof MessageRejectedError && error.status === 404
+    );
+  } finally {
+    setMessageFanout(null);
+  }
+
+  assert.deepEqual(pushed.map(message => message.content), ['members only']);
+});
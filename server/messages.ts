@@ -0,0 +1,130 @@
+import { storage } from './storage';
+import { insertMessageSchema, insertChatMessageSchema, type InsertMessage, type InsertChatMessage, type Message, type ChatMessage, type ReplyPreview } from '@shared/schema';
+import { isValidDirectReply, isValidRoomReply, withDirectReplies, withRoomReplies } from './replies';
+import { canViewRoom } from './room-access';
+import { toAuthUser } from './middleware/auth';
+
+// Sending works the same over REST and the WebSocket: both transports call
+// sendDirectMessage/sendRoomMessage and only translate the result or error.
+
+export type DirectMessage = Message & { replyTo: ReplyPreview | null };
+export type RoomMessage = ChatMessage & { replyTo: ReplyPreview | null };
+
+export type MessageDraft =
+  | { type: 'direct'; message: InsertMessage }
+  | { type: 'room'; message: InsertChatMessage };
+
+// A refused send; status is what the REST API responds with
+export class MessageRejectedError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'MessageRejectedError';
+  }
+}
+
+// Runs before a message is stored and refuses it by throwing a MessageRejectedError
+export type ModerationHook = (draft: MessageDraft) => void | Promise<void>;
+
+// Pushes stored messages to connected clients. The WebSocket server registers
+// one; without it messages are only stored.
+export interface MessageFanout {
+  // Resolves to the message as the sender should see it, e.g. marked delivered
+  direct(message: DirectMessage): Promise<DirectMessage>;
+  room(message: RoomMessage): Promise<void>;
+}
+
+export interface SentMessage<T> {
+  message: T;
+  // False when the client id was already stored, i.e. the send was a retry
+  created: boolean;
+}
+
+const moderationHooks: ModerationHook[] = [];
+let fanout: MessageFanout | null = null;
+
+// Returns a function that removes the hook again
+export function addModerationHook(hook: ModerationHook): () => void {
+  moderationHooks.push(hook);
+  return () => {
+    moderationHooks.splice(moderationHooks.indexOf(hook), 1);
+  };
+}
+
+export function setMessageFanout(next: MessageFanout | null): void {
+  fanout = next;
+}
+
+async function moderate(draft: MessageDraft): Promise<void> {
+  for (const hook of moderationHooks) {
+    await hook(draft);
+  }
+}
+
+// Copies of one send can arrive at the same time (several tabs flushing their
+// outbox), so the unique client id rather than an earlier lookup decides which
+// one is stored; the others get that one.
+async function storeOnce<T>(store: () => Promise<T>, findStored: () => Promise<T | undefined>): Promise<SentMessage<T>> {
+  try {
+    return { message: await store(), created: true };
+  } catch (error) {
+    const stored = await findStored();
+    if (!stored) throw error;
+    return { message: stored, created: false };
+  }
+}
+
+// Throws a ZodError for malformed input
+export async function sendDirectMessage(senderId: number, input: object): Promise<SentMessage<DirectMessage>> {
+  const data = insertMessageSchema.parse({ ...input, senderId });
+  const findStored = async () => data.clientId ? storage.getMessageByClientId(senderId, data.clientId) : undefined;
+
+  const existing = await findStored();
+  if (existing) {
+    return { message: (await withDirectReplies([existing]))[0], created: false };
+  }
+
+  // Accounts scheduled for deletion can't be messaged, as if already gone
+  const receiver = await storage.getUser(data.receiverId);
+  if (!receiver || receiver.deletionScheduledAt) {
+    throw new MessageRejectedError('Recipient not found', 404);
+  }
+  if (data.replyToId && !(await isValidDirectReply(data.replyToId, senderId, data.receiverId))) {
+    throw new MessageRejectedError('Invalid reply target', 400);
+  }
+  await moderate({ type: 'direct', message: data });
+
+  const stored = await storeOnce(() => storage.createMessage(data), findStored);
+  const [message] = await withDirectReplies([stored.message]);
+  if (!stored.created || !fanout) {
+    return { message, created: stored.created };
+  }
+  return { message: await fanout.direct(message), created: true };
+}
+
+// Throws a ZodError for malformed input
+export async function sendRoomMessage(senderId: number, input: object): Promise<SentMessage<RoomMessage>> {
+  const data = insertChatMessageSchema.parse({ ...input, userId: senderId });
+
+  const [room, sender] = await Promise.all([storage.getChatRoomById(data.roomId), storage.getUser(senderId)]);
+  if (!room || !sender || !(await canViewRoom(room, toAuthUser(sender)))) {
+    throw new MessageRejectedError('Chat room not found', 404);
+  }
+
+  const findStored = async () => data.clientId ? storage.getChatMessageByClientId(senderId, data.clientId) : undefined;
+  const existing = await findStored();
+  if (existing) {
+    return { message: (await withRoomReplies([existing]))[0], created: false };
+  }
+
+  if (data.replyToId && !(await isValidRoomReply(data.replyToId, data.roomId))) {
+    throw new MessageRejectedError('Invalid reply target', 400);
+  }
+  await moderate({ type: 'room', message: data });
+
+  const stored = await storeOnce(() => storage.createChatMessage(data), findStored);
+  const [message] = await withRoomReplies([stored.message]);
+  if (stored.created && fanout) {
+    await fanout.room(message);
+  }
+  return { message, created: stored.created };
+}
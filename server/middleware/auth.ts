@@ -1,12 +1,35 @@
 import { Request, Response, NextFunction } from 'express';
 import { storage } from '../storage';
+import type { User } from '@shared/schema';
 
 export interface AuthRequest extends Request {
   user?: {
     id: number;
     username: string;
     email: string;
+    role: string;
   };
+  token?: string;
+}
+
+export type AuthUser = NonNullable<AuthRequest['user']>;
+
+export function toAuthUser(user: User): AuthUser {
+  return { id: user.id, username: user.username, email: user.email, role: user.role || 'user' };
+}
+
+// Extracts the bearer token from an Authorization header value
+export function parseBearerToken(authHeader: string | undefined): string | null {
+  if (!authHeader) {
+    return null;
+  }
+
+  const [bearer, token] = authHeader.split(' ');
+  if (bearer !== 'Bearer' || !token) {
+    return null;
+  }
+
+  return token;
 }
 
 export async function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
@@ -18,8 +41,8 @@ export async function authMiddleware(req: AuthRequest, res: Response, next: Next
     }
 
     // Проверяем формат токена
-    const [bearer, token] = authHeader.split(' ');
-    if (bearer !== 'Bearer' || !token) {
+    const token = parseBearerToken(authHeader);
+    if (!token) {
       return res.status(401).json({ message: 'Invalid authorization format' });
     }
 
@@ -29,12 +52,15 @@ export async function authMiddleware(req: AuthRequest, res: Response, next: Next
       return res.status(401).json({ message: 'Invalid token' });
     }
 
+    if (user.isBanned) {
+      return res.status(403).json({ message: 'Account is banned' });
+    }
+
     // Добавляем пользователя в объект запроса
-    req.user = {
-      id: user.id,
-      username: user.username,
-      email: user.email
-    };
+    req.user = toAuthUser(user);
+    req.token = token;
+
+    await storage.touchUserToken(token);
 
     next();
   } catch (error) {
@@ -50,8 +76,7 @@ export async function adminMiddleware(req: AuthRequest, res: Response, next: Nex
       return res.status(401).json({ message: 'Not authenticated' });
     }
 
-    const user = await storage.getUserById(req.user.id);
-    if (!user || !user.isAdmin) {
+    if (req.user.role !== 'admin') {
       return res.status(403).json({ message: 'Not authorized' });
     }
 
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import { storage } from './storage';
+
+// Hashes are stored as "scrypt$<version>$<N>$<r>$<p>$<salt>$<hash>" so the
+// cost parameters can be raised later without invalidating existing rows.
+const HASH_PREFIX = 'scrypt';
+const HASH_VERSION = 'v1';
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+export interface PasswordCheck {
+  valid: boolean;
+  needsRehash: boolean;
+}
+
+function scrypt(password: string, salt: Buffer, keyLength: number, options: crypto.ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, options, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+export function isHashedPassword(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await scrypt(password, salt, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P });
+
+  return [
+    HASH_PREFIX,
+    HASH_VERSION,
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString('base64'),
+    hash.toString('base64')
+  ].join('$');
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<PasswordCheck> {
+  // Legacy rows hold the password in plaintext
+  if (!isHashedPassword(stored)) {
+    const valid = safeEqual(Buffer.from(password), Buffer.from(stored));
+    return { valid, needsRehash: valid };
+  }
+
+  const [, version, n, r, p, salt, hash] = stored.split('$');
+  if (version !== HASH_VERSION || !salt || !hash) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+    maxmem: 256 * Number(n) * Number(r)
+  });
+
+  const valid = safeEqual(actual, expected);
+  const outdated = Number(n) !== SCRYPT_N || Number(r) !== SCRYPT_R || Number(p) !== SCRYPT_P;
+  return { valid, needsRehash: valid && outdated };
+}
+
+// Checks the password of a stored user and transparently upgrades legacy or
+// outdated hashes on success.
+export async function checkUserPassword(userId: number, stored: string, password: string): Promise<boolean> {
+  const { valid, needsRehash } = await verifyPassword(password, stored);
+
+  if (valid && needsRehash) {
+    await setUserPassword(userId, password);
+  }
+
+  return valid;
+}
+
+export async function setUserPassword(userId: number, password: string): Promise<void> {
+  await storage.updateUserProfile(userId, { password: await hashPassword(password) });
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
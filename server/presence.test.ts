@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestStorage } from './test-db';
+import { getPresenceAudience } from './presence';
+
+test('presence reaches DM peers and room members on Postgres', async () => {
+  const storage = await createTestStorage();
+  const [alice, bob, carol, dave] = await Promise.all(['alice', 'bob', 'carol', 'dave'].map(username =>
+    storage.createUser({ username, password: '-', displayName: username, email: `${username}@example.com` })
+  ));
+
+  await storage.createMessage({ senderId: bob.id, receiverId: alice.id, content: 'hi' });
+  const room = await storage.createChatRoom({ name: 'general', description: '', createdBy: alice.id, isPrivate: false });
+  await storage.addUserToRoom({ roomId: room.id, userId: alice.id });
+  await storage.addUserToRoom({ roomId: room.id, userId: carol.id });
+
+  assert.deepEqual((await getPresenceAudience(alice.id, storage)).sort((a, b) => a - b), [bob.id, carol.id]);
+  assert.deepEqual(await getPresenceAudience(dave.id, storage), []);
+});
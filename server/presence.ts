@@ -0,0 +1,18 @@
+import { storage as defaultStorage, type IStorage } from './storage';
+
+// Users who see someone's presence: their DM peers and the members of the rooms
+// they are in. Tests pass their own storage.
+export async function getPresenceAudience(userId: number, storage: IStorage = defaultStorage): Promise<number[]> {
+  const audience = new Set<number>();
+
+  for (const { peer } of await storage.getConversations(userId)) {
+    audience.add(peer.id);
+  }
+  for (const roomId of await storage.getMemberRoomIds(userId)) {
+    const members = await storage.getRoomMembers(roomId);
+    members.forEach(member => audience.add(member.id));
+  }
+
+  audience.delete(userId);
+  return Array.from(audience);
+}
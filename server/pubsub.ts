@@ -0,0 +1,146 @@
+import { EventEmitter } from 'events';
+import { Redis } from 'ioredis';
+
+// Messages may come from other processes unchecked, so handlers narrow them
+export type PubSubHandler = (message: unknown) => void;
+
+// How long startup waits for Redis before giving up
+const REDIS_CONNECT_TIMEOUT_MS = 10 * 1000;
+
+// Broadcasts JSON-serializable messages to every subscriber of a channel,
+// including the publishing process's own
+export interface PubSub {
+  readonly name: string;
+  // True when other processes receive what this one publishes
+  readonly shared: boolean;
+  // Rejects when the bus can't be reached, so startup fails instead of hanging
+  connect(): Promise<void>;
+  publish(channel: string, message: object): Promise<void>;
+  subscribe(channel: string, handler: PubSubHandler): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Delivers synchronously within this process, for single-instance deployments
+export class InProcessPubSub implements PubSub {
+  readonly name = 'memory';
+  readonly shared = false;
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every WebSocket server subscribes once per channel
+    this.emitter.setMaxListeners(0);
+  }
+
+  async connect(): Promise<void> {}
+
+  async publish(channel: string, message: object): Promise<void> {
+    this.emitter.emit(channel, message);
+  }
+
+  async subscribe(channel: string, handler: PubSubHandler): Promise<void> {
+    this.emitter.on(channel, message => dispatch(channel, handler, message));
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+}
+
+// Redis needs a dedicated connection for subscriptions, so publishing and
+// subscribing use one each
+export class RedisPubSub implements PubSub {
+  readonly name = 'redis';
+  readonly shared = true;
+  private publisher: Redis;
+  private subscriber: Redis;
+  private handlers = new Map<string, PubSubHandler[]>();
+  private host: string;
+
+  constructor(url: string) {
+    // Without lazyConnect, commands would wait in the offline queue while
+    // ioredis retries an unreachable server forever
+    this.publisher = new Redis(url, { lazyConnect: true, connectTimeout: REDIS_CONNECT_TIMEOUT_MS });
+    this.subscriber = this.publisher.duplicate();
+    // The URL may carry a password
+    this.host = new URL(url).host;
+
+    const logError = (error: Error) => console.error('Redis pub/sub error:', error);
+    this.publisher.on('error', logError);
+    this.subscriber.on('error', logError);
+
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(raw);
+      } catch (error) {
+        console.error(`Malformed pub/sub message on ${channel}:`, error);
+        return;
+      }
+      (this.handlers.get(channel) || []).forEach(handler => dispatch(channel, handler, message));
+    });
+  }
+
+  async connect(): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`no answer within ${REDIS_CONNECT_TIMEOUT_MS} ms`)), REDIS_CONNECT_TIMEOUT_MS);
+    });
+
+    try {
+      await Promise.race([Promise.all([this.publisher.connect(), this.subscriber.connect()]), timeout]);
+    } catch (error) {
+      // Stops the reconnect attempts, so the process can exit
+      this.publisher.disconnect();
+      this.subscriber.disconnect();
+      throw new Error(`Could not connect to Redis at ${this.host}: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async publish(channel: string, message: object): Promise<void> {
+    await this.publisher.publish(channel, JSON.stringify(message));
+  }
+
+  async subscribe(channel: string, handler: PubSubHandler): Promise<void> {
+    const handlers = this.handlers.get(channel);
+    if (handlers) {
+      handlers.push(handler);
+      return;
+    }
+    this.handlers.set(channel, [handler]);
+    await this.subscriber.subscribe(channel);
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    await Promise.all([this.subscriber.quit(), this.publisher.quit()]);
+  }
+}
+
+// A failing handler must not keep the message from the others
+function dispatch(channel: string, handler: PubSubHandler, message: unknown): void {
+  try {
+    handler(message);
+  } catch (error) {
+    console.error(`Pub/sub handler error on ${channel}:`, error);
+  }
+}
+
+// PUBSUB_DRIVER selects the backend explicitly ("memory" or "redis"). Without
+// it, Redis is used when REDIS_URL is set and the in-process bus otherwise.
+export function createPubSub(): PubSub {
+  const driver = process.env.PUBSUB_DRIVER || (process.env.REDIS_URL ? 'redis' : 'memory');
+
+  switch (driver) {
+    case 'memory':
+      return new InProcessPubSub();
+    case 'redis':
+      if (!process.env.REDIS_URL) {
+        throw new Error('REDIS_URL must be set when PUBSUB_DRIVER=redis');
+      }
+      return new RedisPubSub(process.env.REDIS_URL);
+    default:
+      throw new Error(`Unknown PUBSUB_DRIVER "${driver}"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { storage } from './storage';
+import type { MessageReaction, MessageType, ReactionSummary } from '@shared/schema';
+
+// Groups reaction rows by message, then by emoji in the order each emoji was first used
+function summarize(reactions: MessageReaction[]): Map<number, ReactionSummary[]> {
+  const byMessage = new Map<number, ReactionSummary[]>();
+  for (const reaction of reactions) {
+    const summaries = byMessage.get(reaction.messageId) || [];
+    const summary = summaries.find(item => item.emoji === reaction.emoji);
+    if (summary) {
+      summary.count++;
+      summary.userIds.push(reaction.userId);
+    } else {
+      summaries.push({ emoji: reaction.emoji, count: 1, userIds: [reaction.userId] });
+    }
+    byMessage.set(reaction.messageId, summaries);
+  }
+  return byMessage;
+}
+
+export async function getReactionSummary(messageType: MessageType, messageId: number): Promise<ReactionSummary[]> {
+  const reactions = await storage.getReactions(messageType, [messageId]);
+  return summarize(reactions).get(messageId) || [];
+}
+
+// Adds each message's aggregated reactions for history responses
+export async function withReactions<T extends { id: number }>(
+  messageType: MessageType,
+  messages: T[]
+): Promise<(T & { reactions: ReactionSummary[] })[]> {
+  const reactions = summarize(await storage.getReactions(messageType, messages.map(message => message.id)));
+  return messages.map(message => ({ ...message, reactions: reactions.get(message.id) || [] }));
+}
@@ -0,0 +1,15 @@
+import { storage } from './storage';
+import type { Message } from '@shared/schema';
+
+// Read receipts are only exchanged when both users allow them, so turning them
+// off also hides whether other people read your messages
+export async function canShareReadReceipts(userId: number, peerId: number): Promise<boolean> {
+  const [user, peer] = await Promise.all([storage.getUser(userId), storage.getUser(peerId)]);
+  return user?.readReceipts !== false && peer?.readReceipts !== false;
+}
+
+// Reports the viewer's own messages as unread; incoming messages keep their
+// state since the viewer is the one who read them
+export function hideReadReceipts<T extends Message>(messages: T[], viewerId: number): T[] {
+  return messages.map(message => (message.senderId === viewerId ? { ...message, read: false } : message));
+}
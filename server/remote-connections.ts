@@ -0,0 +1,37 @@
+import { addToIndex, removeFromIndex } from './index-map';
+
+// Which users have sockets on the other nodes of a cluster, as each node
+// announces its users over pub/sub
+export class RemoteConnections {
+  private usersByNode = new Map<string, Set<number>>();
+  private nodesByUser = new Map<number, Set<string>>();
+
+  add(nodeId: string, userIds: number[]): void {
+    for (const userId of userIds) {
+      addToIndex(this.usersByNode, nodeId, userId);
+      addToIndex(this.nodesByUser, userId, nodeId);
+    }
+  }
+
+  remove(nodeId: string, userIds: number[]): void {
+    for (const userId of userIds) {
+      removeFromIndex(this.usersByNode, nodeId, userId);
+      removeFromIndex(this.nodesByUser, userId, nodeId);
+    }
+  }
+
+  // Forgets a node that stopped or restarted; returns the users it had
+  removeNode(nodeId: string): number[] {
+    const userIds = Array.from(this.usersByNode.get(nodeId) || []);
+    this.remove(nodeId, userIds);
+    return userIds;
+  }
+
+  has(userId: number): boolean {
+    return this.nodesByUser.has(userId);
+  }
+
+  userIds(): number[] {
+    return Array.from(this.nodesByUser.keys());
+  }
+}
@@ -0,0 +1,65 @@
+import { storage } from './storage';
+import type { ChatMessage, Message, ReplyPreview } from '@shared/schema';
+
+// Quoted text is cut to this many characters in previews
+const PREVIEW_LENGTH = 140;
+
+function preview(message: Message | ChatMessage, authorId: number): ReplyPreview {
+  const deleted = !!message.deletedAt;
+  const content = deleted ? '' : message.content;
+  return {
+    id: message.id,
+    authorId,
+    content: content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH)}…` : content,
+    mediaType: message.mediaType,
+    deleted
+  };
+}
+
+// A DM can only quote a message of the same conversation that still exists
+export async function isValidDirectReply(replyToId: number, senderId: number, receiverId: number): Promise<boolean> {
+  const original = await storage.getMessageById(replyToId);
+  return !!original && !original.deletedAt && (
+    (original.senderId === senderId && original.receiverId === receiverId) ||
+    (original.senderId === receiverId && original.receiverId === senderId)
+  );
+}
+
+export async function isValidRoomReply(replyToId: number, roomId: number): Promise<boolean> {
+  const original = await storage.getChatMessageById(replyToId);
+  return !!original && !original.deletedAt && original.roomId === roomId;
+}
+
+// Adds a preview of the quoted message to each reply; a quoted message that no
+// longer exists at all is shown as deleted too
+async function withReplies<T extends { replyToId: number | null }, O extends Message | ChatMessage>(
+  messages: T[],
+  getOriginal: (id: number) => Promise<O | undefined>,
+  getAuthorId: (original: O) => number
+): Promise<(T & { replyTo: ReplyPreview | null })[]> {
+  const originals = new Map<number, O | undefined>();
+  for (const message of messages) {
+    if (message.replyToId !== null && !originals.has(message.replyToId)) {
+      originals.set(message.replyToId, await getOriginal(message.replyToId));
+    }
+  }
+
+  return messages.map(message => {
+    if (message.replyToId === null) return { ...message, replyTo: null };
+    const original = originals.get(message.replyToId);
+    return {
+      ...message,
+      replyTo: original
+        ? preview(original, getAuthorId(original))
+        : { id: message.replyToId, authorId: 0, content: '', mediaType: null, deleted: true }
+    };
+  });
+}
+
+export function withDirectReplies<T extends Message>(messages: T[]) {
+  return withReplies(messages, id => storage.getMessageById(id), original => original.senderId);
+}
+
+export function withRoomReplies<T extends ChatMessage>(messages: T[]) {
+  return withReplies(messages, id => storage.getChatMessageById(id), original => original.userId);
+}
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from './storage';
+import { hasRoomRole, canViewRoom } from './room-access';
+import { toAuthUser } from './middleware/auth';
+
+// Without DATABASE_URL the shared storage is the in-memory one
+async function createUser(username: string) {
+  return toAuthUser(await storage.createUser({ username, password: '-', displayName: username, email: `${username}@example.com` }));
+}
+
+test('only room moderators and site admins may moderate a room', async () => {
+  const [owner, moderator, member, outsider, siteAdmin] = await Promise.all(
+    ['access-owner', 'access-moderator', 'access-member', 'access-outsider', 'access-admin'].map(createUser)
+  );
+  const room = await storage.createChatRoom({ name: 'moderated-access', description: '', createdBy: owner.id, isPrivate: false });
+  await storage.addUserToRoom({ roomId: room.id, userId: moderator.id, role: 'moderator' });
+  await storage.addUserToRoom({ roomId: room.id, userId: member.id });
+
+  const canModerate = (user: typeof owner) => hasRoomRole(room.id, user, ['admin', 'moderator']);
+  assert.equal(await canModerate(owner), true);
+  assert.equal(await canModerate(moderator), true);
+  assert.equal(await canModerate(member), false);
+  assert.equal(await canModerate(outsider), false);
+  assert.equal(await canModerate({ ...siteAdmin, role: 'admin' }), true);
+
+  await storage.updateRoomMemberRole(room.id, moderator.id, 'member');
+  assert.equal(await canModerate(moderator), false);
+});
+
+test('private rooms are only visible to members and site admins', async () => {
+  const [owner, outsider] = await Promise.all(['private-owner', 'private-outsider'].map(createUser));
+  const room = await storage.createChatRoom({ name: 'private-access', description: '', createdBy: owner.id, isPrivate: true });
+
+  assert.equal(await canViewRoom(room, owner), true);
+  assert.equal(await canViewRoom(room, outsider), false);
+  assert.equal(await canViewRoom(room, { ...outsider, role: 'admin' }), true);
+});
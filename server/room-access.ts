@@ -0,0 +1,22 @@
+import { storage } from './storage';
+import type { ChatRoom } from '@shared/schema';
+import type { AuthUser } from './middleware/auth';
+
+// Site admins may manage any room; everyone else needs one of the given room roles
+export async function hasRoomRole(roomId: number, user: AuthUser, roles: string[]): Promise<boolean> {
+  if (user.role === 'admin') {
+    return true;
+  }
+
+  const role = await storage.getRoomMemberRole(roomId, user.id);
+  return !!role && roles.includes(role);
+}
+
+// Private rooms are only visible to their members
+export async function canViewRoom(room: ChatRoom, user: AuthUser): Promise<boolean> {
+  if (!room.isPrivate || user.role === 'admin') {
+    return true;
+  }
+
+  return !!(await storage.getRoomMemberRole(room.id, user.id));
+}
@@ -0,0 +1,74 @@
+import { addToIndex, removeFromIndex } from './index-map';
+
+// Who gets a room's events, kept in memory so a broadcast only touches its
+// recipients. Members are tracked while they are connected; viewers are
+// sockets that opened a public room without joining it.
+export class RoomSubscriptions<Socket> {
+  // roomId → connected member ids, and the reverse for disconnects
+  private members = new Map<number, Set<number>>();
+  private memberRooms = new Map<number, Set<number>>();
+  // roomId → viewing sockets, and the reverse for closed sockets
+  private viewers = new Map<number, Set<Socket>>();
+  private viewedRooms = new Map<Socket, Set<number>>();
+
+  // Call when the user's first socket connects, then add their rooms with addMember
+  connectUser(userId: number): void {
+    if (!this.memberRooms.has(userId)) {
+      this.memberRooms.set(userId, new Set());
+    }
+  }
+
+  disconnectUser(userId: number): void {
+    this.memberRooms.get(userId)?.forEach(roomId => removeFromIndex(this.members, roomId, userId));
+    this.memberRooms.delete(userId);
+  }
+
+  // Memberships of users who are not connected are not tracked
+  addMember(roomId: number, userId: number): void {
+    const rooms = this.memberRooms.get(userId);
+    if (!rooms) return;
+
+    rooms.add(roomId);
+    addToIndex(this.members, roomId, userId);
+  }
+
+  removeMember(roomId: number, userId: number): void {
+    this.memberRooms.get(userId)?.delete(roomId);
+    removeFromIndex(this.members, roomId, userId);
+  }
+
+  addViewer(roomId: number, socket: Socket): void {
+    addToIndex(this.viewers, roomId, socket);
+    addToIndex(this.viewedRooms, socket, roomId);
+  }
+
+  removeViewer(roomId: number, socket: Socket): void {
+    removeFromIndex(this.viewers, roomId, socket);
+    removeFromIndex(this.viewedRooms, socket, roomId);
+  }
+
+  // Drops every viewer of the room, e.g. when it becomes private
+  removeViewers(roomId: number): void {
+    this.viewers.get(roomId)?.forEach(socket => removeFromIndex(this.viewedRooms, socket, roomId));
+    this.viewers.delete(roomId);
+  }
+
+  removeSocket(socket: Socket): void {
+    this.viewedRooms.get(socket)?.forEach(roomId => removeFromIndex(this.viewers, roomId, socket));
+    this.viewedRooms.delete(socket);
+  }
+
+  removeRoom(roomId: number): void {
+    this.members.get(roomId)?.forEach(userId => this.memberRooms.get(userId)?.delete(roomId));
+    this.members.delete(roomId);
+    this.removeViewers(roomId);
+  }
+
+  getMemberIds(roomId: number): Iterable<number> {
+    return this.members.get(roomId) || [];
+  }
+
+  getViewers(roomId: number): Iterable<Socket> {
+    return this.viewers.get(roomId) || [];
+  }
+}
@@ -1,14 +1,32 @@
 import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertUserSchema, insertMessageSchema, insertChatRoomSchema, insertChatMessageSchema, insertRoomMemberSchema, insertMediaItemSchema, insertLikeSchema, insertVerificationCodeSchema } from "@shared/schema";
+import { storage, MemStorage } from "./storage";
+import { insertUserSchema, insertChatRoomSchema, insertRoomMemberSchema, insertMediaItemSchema, insertLikeSchema, insertVerificationCodeSchema, updateUserProfileSchema, updateChatRoomSchema, editMessageSchema, reactionSchema, markReadSchema, type Message, type User } from "@shared/schema";
 import { WebSocketServer, WebSocket } from "ws";
 import multer, { type Multer } from "multer";
 import path from "path";
 import fs from "fs";
+import os from "os";
+import crypto from "crypto";
 import { z } from "zod";
-import { sendVerificationEmail, generateVerificationCode, getMimeTypeFromExtension, getMediaTypeFromMime } from "./email";
-import { authMiddleware, adminMiddleware, type AuthRequest } from "./middleware/auth";
+import { sendVerificationEmail, sendPasswordResetEmail, sendBanNoticeEmail, generateVerificationCode, getMimeTypeFromExtension, getMediaTypeFromMime } from "./email";
+import { authMiddleware, adminMiddleware, parseBearerToken, toAuthUser, type AuthRequest } from "./middleware/auth";
+import { hashPassword, checkUserPassword, setUserPassword } from "./password";
+import { sessionEvents, revokeAllSessions, revokeSession, type SessionRevocation } from "./sessions";
+import { scheduleAccountDeletion, restoreAccount } from "./account";
+import { generateTotpSecret, buildOtpauthUri, verifyTotpCode, generateRecoveryCodes, hashRecoveryCode, verifySecondFactor, isSecondFactorLocked, createLoginChallenge, getLoginChallenge, failLoginChallenge, completeLoginChallenge } from "./two-factor";
+import { listEmailTemplates, saveEmailTemplate, resetEmailTemplate, isEmailTemplateName, isSupportedLanguage } from "./email-templates";
+import { unsubscribeFromDigests, verifyUnsubscribeToken } from "./digest";
+import { withReactions, getReactionSummary } from "./reactions";
+import { withDirectReplies, withRoomReplies } from "./replies";
+import { canShareReadReceipts, hideReadReceipts } from "./receipts";
+import { getPresenceAudience } from "./presence";
+import { hasRoomRole, canViewRoom } from "./room-access";
+import { RoomSubscriptions } from "./room-subscriptions";
+import { RemoteConnections } from "./remote-connections";
+import { createPubSub } from "./pubsub";
+import { sendDirectMessage, sendRoomMessage, setMessageFanout, MessageRejectedError } from "./messages";
+import { requestDataExport, getDataExports, getDataExport, archivePath } from "./data-export";
 
 // Type guard function
 function assertNumber(value: number | null): asserts value is number {
@@ -17,20 +35,61 @@ function assertNumber(value: number | null): asserts value is number {
   }
 }
 
+// Strips the password hash and 2FA secrets before a user is sent to clients
+function withoutCredentials(user: User) {
+  const { password, totpSecret, totpRecoveryCodes, totpLastUsedStep, totpFailedAttempts, totpLockedUntil, ...publicUser } = user;
+  return publicUser;
+}
+
+// A user as others see them: invisible users appear offline, without a last seen time
+function toPublicUser(user: User) {
+  const { invisible, ...publicUser } = withoutCredentials(user);
+  return invisible ? { ...publicUser, isOnline: false, lastSeen: null } : publicUser;
+}
+
+const MAX_MESSAGE_PAGE_SIZE = 100;
+
+// ?before=<id>&after=<id>&limit=<n> on message history routes
+const messagePageSchema = z.object({
+  before: z.coerce.number().int().positive().optional(),
+  after: z.coerce.number().int().nonnegative().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_MESSAGE_PAGE_SIZE).optional()
+});
+
+const emailTemplateContentSchema = z.object({
+  subject: z.string().min(1).max(200),
+  html: z.string().min(1),
+  text: z.string().min(1)
+});
+
+// Issues a token for the device making the request and builds the login response
+async function createSession(req: Request, user: User) {
+  const token = await storage.createUserToken(user.id, {
+    userAgent: req.get('user-agent') || null,
+    ipAddress: req.ip || null
+  });
+
+  return { user: withoutCredentials(user), token };
+}
+
 // Extend Express Request type to include file property
-interface MulterRequest extends Request {
+interface MulterRequest extends AuthRequest {
   file?: Express.Multer.File;
 }
 
 // WebSocket message types
 interface WebSocketMessage {
   type: string;
-  userId?: number;
+  token?: string;
   receiverId?: number;
   roomId?: number;
   content?: string;
   mediaType?: string;
   mediaUrl?: string;
+  replyToId?: number;
+  peerId?: number;
+  upToId?: number;
+  clientId?: string;
 }
 
 // Set up multer for file uploads
@@ -64,6 +123,68 @@ const storage_config = multer.diskStorage({
   }
 });
 
+// Sockets must authenticate within this window or they are dropped
+const WS_AUTH_TIMEOUT_MS = 10 * 1000;
+// How often authenticated sockets have their tokens re-validated
+const WS_SESSION_CHECK_INTERVAL_MS = 30 * 1000;
+
+// A password reset code is used up after this many wrong codes for its email
+const RESET_CODE_MAX_ATTEMPTS = 5;
+
+// Close codes sent to clients whose authentication fails
+const WS_CLOSE_UNAUTHORIZED = 4001;
+const WS_CLOSE_FORBIDDEN = 4003;
+
+// Users stay online this long after their last socket closes, so reloads and
+// brief network drops don't show them leaving
+const PRESENCE_GRACE_MS = 15 * 1000;
+
+// A typing indicator is dropped unless the client renews it within this window
+const TYPING_EXPIRY_MS = 8 * 1000;
+
+// Who a typing indicator is shown to: the DM peer or the room's other members
+type TypingTarget = { receiverId: number } | { roomId: number };
+
+// Pub/sub channel that carries WebSocket fan-out between the nodes of a cluster
+const CLUSTER_CHANNEL = 'ws:events';
+
+// Nodes of a cluster announce themselves this often. One that stays silent for
+// NODE_TIMEOUT_MS has crashed, and its users are treated as disconnected.
+const NODE_HEARTBEAT_MS = 15 * 1000;
+const NODE_TIMEOUT_MS = 3 * NODE_HEARTBEAT_MS;
+
+// Stable across PM2 restarts, so a node that comes back replaces its old self
+const NODE_ID = process.env.NODE_APP_INSTANCE !== undefined
+  ? `${os.hostname()}:${process.env.NODE_APP_INSTANCE}`
+  : crypto.randomUUID();
+
+// What nodes tell each other. Every node, the publisher included, applies an
+// event to the sockets connected to it.
+type ClusterEvent =
+  | { type: 'users'; userIds: number[]; data: string }
+  | { type: 'room'; roomId: number; data: string; exceptUserId?: number }
+  | { type: 'disconnect'; userId: number; code: number; reason: string; exceptToken?: string; onlyToken?: string }
+  | { type: 'stop_typing'; userId: number; target: TypingTarget }
+  | { type: 'member_added'; roomId: number; userId: number }
+  | { type: 'member_removed'; roomId: number; userId: number; roomIsPrivate: boolean }
+  | { type: 'room_deleted'; roomId: number }
+  | { type: 'room_made_private'; roomId: number }
+  // Presence bookkeeping, which a node ignores when it is the sender
+  | { type: 'connections'; nodeId: string; userIds: number[]; connected: boolean }
+  | { type: 'node_started'; nodeId: string }
+  | { type: 'node_alive'; nodeId: string }
+  | { type: 'node_stopped'; nodeId: string };
+
+const CLUSTER_EVENT_TYPES: ReadonlySet<string> = new Set([
+  'users', 'room', 'disconnect', 'stop_typing', 'member_added', 'member_removed',
+  'room_deleted', 'room_made_private', 'connections', 'node_started', 'node_alive', 'node_stopped'
+] satisfies ClusterEvent['type'][]);
+
+function isClusterEvent(message: unknown): message is ClusterEvent {
+  return typeof message === 'object' && message !== null && 'type' in message &&
+    typeof message.type === 'string' && CLUSTER_EVENT_TYPES.has(message.type);
+}
+
 const upload = multer({ 
   storage: storage_config,
   limits: {
@@ -78,71 +199,561 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Set up WebSocket server
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
   
+  // Events for sockets go through pub/sub, so with several nodes they reach
+  // users connected to any of them
+  const pubsub = createPubSub();
+  // PM2 numbers cluster instances from 0; without a shared bus and database a
+  // second one would split users into groups that never see each other
+  if (parseInt(process.env.NODE_APP_INSTANCE || '0') > 0) {
+    if (!pubsub.shared) {
+      throw new Error('Running several instances requires REDIS_URL (PUBSUB_DRIVER=redis)');
+    }
+    if (storage instanceof MemStorage) {
+      throw new Error('Running several instances requires DATABASE_URL (STORAGE_DRIVER=postgres)');
+    }
+  }
+  await pubsub.connect();
+  
+  // Presence is rebuilt from the sockets that connect to this process. A node
+  // that shares its pub/sub with others can't reset it yet, since they may
+  // still have those users connected; see resetClusterPresence below.
+  if (!pubsub.shared) {
+    await storage.resetOnlineStatus();
+  }
+  
   // Store connected clients with their user IDs
   const clients = new Map<number, WebSocket[]>();
   
-  wss.on('connection', (ws) => {
-    let userId: number | null = null;
+  // Token each authenticated socket was opened with
+  const socketSessions = new Map<WebSocket, { userId: number; token: string }>();
+  
+  const roomSubscriptions = new RoomSubscriptions<WebSocket>();
+  
+  const remoteConnections = new RemoteConnections();
+  
+  const publish = (event: ClusterEvent) =>
+    pubsub.publish(CLUSTER_CHANNEL, event).catch(error => {
+      console.error('Pub/sub publish error:', error);
+    });
+  
+  // Whether the user has a socket on this node or any other
+  const isConnected = (targetUserId: number) =>
+    (clients.get(targetUserId) || []).length > 0 || remoteConnections.has(targetUserId);
+  
+  // Closes the user's sockets on every node, optionally keeping or targeting
+  // the ones opened with a given token
+  const disconnectUser = (
+    targetUserId: number,
+    code: number,
+    reason: string,
+    { exceptToken, onlyToken }: { exceptToken?: string; onlyToken?: string } = {}
+  ) => {
+    publish({ type: 'disconnect', userId: targetUserId, code, reason, exceptToken, onlyToken });
+  };
+  
+  // Sends an event to every open socket of the given users
+  const sendToUsers = (userIds: number[], payload: object) => {
+    if (userIds.length === 0) return;
+    publish({ type: 'users', userIds: Array.from(new Set(userIds)), data: JSON.stringify(payload) });
+  };
+  
+  // Room events go to the room's connected members and to the sockets viewing it
+  const sendToRoom = (roomId: number, payload: object, exceptUserId?: number) => {
+    publish({ type: 'room', roomId, data: JSON.stringify(payload), exceptUserId });
+  };
+  
+  // The helpers above as each node applies them to its own sockets
+  const closeLocalSockets = (
+    targetUserId: number,
+    code: number,
+    reason: string,
+    { exceptToken, onlyToken }: { exceptToken?: string; onlyToken?: string }
+  ) => {
+    (clients.get(targetUserId) || []).forEach(client => {
+      const token = socketSessions.get(client)?.token;
+      if (exceptToken && token === exceptToken) return;
+      if (onlyToken && token !== onlyToken) return;
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(JSON.stringify({ type: 'auth_error', message: reason }));
+      }
+      client.close(code, reason);
+    });
+  };
+  
+  const deliverToUsers = (userIds: number[], data: string) => {
+    userIds.forEach(targetUserId => {
+      (clients.get(targetUserId) || []).forEach(client => {
+        if (client.readyState === WebSocket.OPEN) {
+          client.send(data);
+        }
+      });
+    });
+  };
+  
+  const deliverToRoom = (roomId: number, data: string, exceptUserId?: number) => {
+    const sockets = new Set(roomSubscriptions.getViewers(roomId));
+    for (const memberId of roomSubscriptions.getMemberIds(roomId)) {
+      (clients.get(memberId) || []).forEach(client => sockets.add(client));
+    }
+    sockets.forEach(client => {
+      if (client.readyState === WebSocket.OPEN && socketSessions.get(client)?.userId !== exceptUserId) {
+        client.send(data);
+      }
+    });
+  };
+  
+  // Pushes a new DM to both sides; it counts as delivered once one of the
+  // receiver's sockets gets it
+  const sendPrivateMessage = async <T extends Message>(message: T): Promise<T> => {
+    const receiverOnline = (clients.get(message.receiverId) || []).some(client => client.readyState === WebSocket.OPEN) ||
+      remoteConnections.has(message.receiverId);
+    if (!receiverOnline) {
+      sendToUsers([message.receiverId, message.senderId], { type: 'private_message', message });
+      return message;
+    }
     
-    const handlePrivateMessage = async (data: WebSocketMessage) => {
-      if (!userId || !data.receiverId) return;
-      
-      const receiverConnections = clients.get(data.receiverId) || [];
-      const messageData = await storage.createMessage({
-        senderId: userId,
-        receiverId: data.receiverId,
-        content: data.content || '',
-        mediaType: data.mediaType || 'text',
-        mediaUrl: data.mediaUrl || '',
+    const lastDeliveredId = await storage.markMessagesAsDelivered(message.receiverId, message.senderId, message.id);
+    const delivered = { ...message, delivered: true };
+    sendToUsers([message.receiverId, message.senderId], { type: 'private_message', message: delivered });
+    // Earlier messages the receiver had not loaded yet are delivered along with it
+    if (lastDeliveredId !== null) {
+      sendToUsers([message.senderId], {
+        type: 'delivery_receipt',
+        senderId: message.senderId,
+        receiverId: message.receiverId,
+        upToId: lastDeliveredId
       });
-
-      receiverConnections.forEach(client => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({
-            type: 'private_message',
-            message: messageData
-          }));
+    }
+    return delivered;
+  };
+  
+  // The reader's own devices always learn about the read so they can update
+  // unread counts; the sender only does if both users share read receipts
+  const markConversationRead = async (readerId: number, senderId: number, upToId: number) => {
+    const lastReadId = await storage.markMessagesAsRead(readerId, senderId, upToId);
+    if (lastReadId === null) return;
+    
+    const recipients = (await canShareReadReceipts(readerId, senderId)) ? [readerId, senderId] : [readerId];
+    sendToUsers(recipients, { type: 'read_receipt', senderId, receiverId: readerId, upToId: lastReadId });
+  };
+  
+  // Users whose last socket closed within the grace period
+  const offlineTimers = new Map<number, NodeJS.Timeout>();
+  
+  const broadcastPresence = async (presenceUserId: number, isOnline: boolean, lastSeen: Date | null) => {
+    sendToUsers(await getPresenceAudience(presenceUserId), { type: 'presence', userId: presenceUserId, isOnline, lastSeen });
+  };
+  
+  // Tells the other nodes which users have sockets on this one
+  const announceConnections = (userIds: number[], connected: boolean) => {
+    if (userIds.length === 0) return;
+    publish({ type: 'connections', nodeId: NODE_ID, userIds, connected });
+  };
+  
+  // Called when the user's first socket on this node connects
+  const userConnected = async (user: User) => {
+    announceConnections([user.id], true);
+    
+    const pendingOffline = offlineTimers.get(user.id);
+    if (pendingOffline) {
+      // Back within the grace period, so nobody was told they left
+      clearTimeout(pendingOffline);
+      offlineTimers.delete(user.id);
+      return;
+    }
+    // Their sockets on another node already made them online
+    if (remoteConnections.has(user.id)) return;
+    
+    await storage.updateUserOnlineStatus(user.id, true);
+    // Signing in to restore an account doesn't announce it
+    if (!user.invisible && !user.deletionScheduledAt) {
+      await broadcastPresence(user.id, true, new Date());
+    }
+  };
+  
+  // The user goes offline unless they reconnect to any node within the grace period
+  const scheduleOffline = (presenceUserId: number) => {
+    clearTimeout(offlineTimers.get(presenceUserId));
+    offlineTimers.set(presenceUserId, setTimeout(() => {
+      offlineTimers.delete(presenceUserId);
+      (async () => {
+        if (isConnected(presenceUserId)) return;
+        
+        await storage.updateUserOnlineStatus(presenceUserId, false);
+        const user = await storage.getUser(presenceUserId);
+        if (user && !user.invisible && !user.deletionScheduledAt) {
+          await broadcastPresence(presenceUserId, false, user.lastSeen);
         }
+      })().catch(error => {
+        console.error('Presence update error:', error);
       });
+    }, PRESENCE_GRACE_MS));
+  };
+  
+  // Called when the user's last socket on this node closes
+  const userDisconnected = (presenceUserId: number) => {
+    announceConnections([presenceUserId], false);
+    scheduleOffline(presenceUserId);
+  };
+  
+  // When each other node was last heard from
+  const nodesLastSeen = new Map<string, number>();
+  
+  // Users who were only connected to a node that went away are treated as
+  // having disconnected
+  const forgetNode = (nodeId: string) => {
+    nodesLastSeen.delete(nodeId);
+    remoteConnections.removeNode(nodeId).forEach(presenceUserId => {
+      if (!isConnected(presenceUserId)) {
+        scheduleOffline(presenceUserId);
+      }
+    });
+  };
+  
+  // Active typing indicators by user and target, each with its expiry timer
+  const typingStates = new Map<string, { userId: number; target: TypingTarget; timer: NodeJS.Timeout }>();
+  
+  const typingKey = (typingUserId: number, target: TypingTarget) =>
+    'receiverId' in target ? `${typingUserId}:direct:${target.receiverId}` : `${typingUserId}:room:${target.roomId}`;
+  
+  const relayTyping = (type: 'typing_start' | 'typing_stop', typingUserId: number, target: TypingTarget) => {
+    if ('receiverId' in target) {
+      sendToUsers([target.receiverId], { type, userId: typingUserId, receiverId: target.receiverId });
+    } else {
+      sendToRoom(target.roomId, { type, userId: typingUserId, roomId: target.roomId }, typingUserId);
+    }
+  };
+  
+  const stopTyping = (typingUserId: number, target: TypingTarget) => {
+    const key = typingKey(typingUserId, target);
+    const state = typingStates.get(key);
+    if (!state) return;
+    clearTimeout(state.timer);
+    typingStates.delete(key);
+    relayTyping('typing_stop', typingUserId, target);
+  };
+  
+  // Every start is relayed so recipients can renew their own expiry too
+  const startTyping = (typingUserId: number, target: TypingTarget) => {
+    const key = typingKey(typingUserId, target);
+    const existing = typingStates.get(key);
+    if (existing) clearTimeout(existing.timer);
+    const timer = setTimeout(() => stopTyping(typingUserId, target), TYPING_EXPIRY_MS);
+    typingStates.set(key, { userId: typingUserId, target, timer });
+    relayTyping('typing_start', typingUserId, target);
+  };
+  
+  const stopAllTyping = (typingUserId: number) => {
+    const targets = Array.from(typingStates.values())
+      .filter(state => state.userId === typingUserId)
+      .map(state => state.target);
+    for (const target of targets) {
+      stopTyping(typingUserId, target);
+    }
+  };
+  
+  // The indicator lives on the node of the socket that started it, which need
+  // not be the one handling the message
+  const stopTypingOnAllNodes = (typingUserId: number, target: TypingTarget) => {
+    publish({ type: 'stop_typing', userId: typingUserId, target });
+  };
+  
+  // Messages sent over either transport reach connected clients from here. The
+  // sender's own devices get DMs too, so their inbox and open threads stay current.
+  setMessageFanout({
+    direct: async (message) => {
+      stopTypingOnAllNodes(message.senderId, { receiverId: message.receiverId });
+      return sendPrivateMessage(message);
+    },
+    room: async (message) => {
+      stopTypingOnAllNodes(message.userId, { roomId: message.roomId });
+      sendToRoom(message.roomId, { type: 'chat_message', message });
+    },
+  });
+  
+  const handleClusterEvent = (event: unknown) => {
+    if (!isClusterEvent(event)) {
+      console.error('Unknown pub/sub event:', event);
+      return;
+    }
+    
+    switch (event.type) {
+      case 'users':
+        deliverToUsers(event.userIds, event.data);
+        break;
+      case 'room':
+        deliverToRoom(event.roomId, event.data, event.exceptUserId);
+        break;
+      case 'disconnect':
+        closeLocalSockets(event.userId, event.code, event.reason, event);
+        break;
+      case 'stop_typing':
+        stopTyping(event.userId, event.target);
+        break;
+      case 'member_added':
+        roomSubscriptions.addMember(event.roomId, event.userId);
+        break;
+      case 'member_removed':
+        roomSubscriptions.removeMember(event.roomId, event.userId);
+        // Only members may keep following a private room
+        if (event.roomIsPrivate) {
+          (clients.get(event.userId) || []).forEach(client => roomSubscriptions.removeViewer(event.roomId, client));
+        }
+        break;
+      case 'room_deleted':
+        roomSubscriptions.removeRoom(event.roomId);
+        break;
+      case 'room_made_private':
+        // Members are subscribed anyway; sockets that were only viewing lose access
+        roomSubscriptions.removeViewers(event.roomId);
+        break;
+      case 'connections':
+        if (event.nodeId === NODE_ID) break;
+        nodesLastSeen.set(event.nodeId, Date.now());
+        if (event.connected) {
+          remoteConnections.add(event.nodeId, event.userIds);
+        } else {
+          remoteConnections.remove(event.nodeId, event.userIds);
+        }
+        break;
+      case 'node_started':
+        if (event.nodeId === NODE_ID) break;
+        // A restarted node has none of the connections it had before
+        forgetNode(event.nodeId);
+        nodesLastSeen.set(event.nodeId, Date.now());
+        announceConnections(Array.from(clients.keys()).filter(id => clients.get(id)!.length > 0), true);
+        break;
+      case 'node_alive':
+        if (event.nodeId !== NODE_ID) nodesLastSeen.set(event.nodeId, Date.now());
+        break;
+      case 'node_stopped':
+        if (event.nodeId !== NODE_ID) forgetNode(event.nodeId);
+        break;
+    }
+  };
+  await pubsub.subscribe(CLUSTER_CHANNEL, handleClusterEvent);
+  publish({ type: 'node_started', nodeId: NODE_ID });
+  
+  const nodeHeartbeat = setInterval(() => {
+    publish({ type: 'node_alive', nodeId: NODE_ID });
+    const silentSince = Date.now() - NODE_TIMEOUT_MS;
+    nodesLastSeen.forEach((lastSeen, nodeId) => {
+      if (lastSeen < silentSince) {
+        console.warn(`Node ${nodeId} stopped responding; its users are treated as disconnected`);
+        forgetNode(nodeId);
+      }
+    });
+  }, NODE_HEARTBEAT_MS);
+  
+  // Users still marked online from before the whole cluster restarted are
+  // reset once the other nodes have announced who is connected to them. The
+  // first instance does it, like the other background jobs.
+  const resetClusterPresence = pubsub.shared && (process.env.NODE_APP_INSTANCE || '0') === '0'
+    ? setTimeout(() => {
+        const connectedUserIds = [
+          ...Array.from(clients.keys()).filter(id => clients.get(id)!.length > 0),
+          ...remoteConnections.userIds()
+        ];
+        storage.resetOnlineStatus(connectedUserIds).catch(error => {
+          console.error('Failed to reset presence:', error);
+        });
+      }, NODE_TIMEOUT_MS)
+    : undefined;
+  
+  const handleSessionRevoked = ({ userId, token, exceptToken }: SessionRevocation) => {
+    disconnectUser(userId, WS_CLOSE_UNAUTHORIZED, 'Session revoked', { exceptToken, onlyToken: token });
+  };
+  sessionEvents.on('revoked', handleSessionRevoked);
+  
+  // Drop sockets whose token has expired or been revoked, or whose user was banned
+  const sessionCheck = setInterval(() => {
+    (async () => {
+      const sessionsByToken = new Map<string, WebSocket[]>();
+      socketSessions.forEach((session, client) => {
+        sessionsByToken.set(session.token, [...(sessionsByToken.get(session.token) || []), client]);
+      });
+      
+      for (const [token, sockets] of sessionsByToken) {
+        const user = await storage.getUserByToken(token);
+        if (!user) {
+          sockets.forEach(client => client.close(WS_CLOSE_UNAUTHORIZED, 'Session expired'));
+        } else if (user.isBanned) {
+          sockets.forEach(client => client.close(WS_CLOSE_FORBIDDEN, 'Account is banned'));
+        }
+      }
+    })().catch(error => {
+      console.error('WebSocket session check error:', error);
+    });
+  }, WS_SESSION_CHECK_INTERVAL_MS);
+  
+  wss.on('close', () => {
+    setMessageFanout(null);
+    publish({ type: 'node_stopped', nodeId: NODE_ID }).finally(() => pubsub.close());
+    clearInterval(sessionCheck);
+    clearInterval(nodeHeartbeat);
+    clearTimeout(resetClusterPresence);
+    sessionEvents.off('revoked', handleSessionRevoked);
+    typingStates.forEach(state => clearTimeout(state.timer));
+    typingStates.clear();
+    offlineTimers.forEach(timer => clearTimeout(timer));
+    offlineTimers.clear();
+  });
+  
+  wss.on('connection', (ws, req) => {
+    let userId: number | null = null;
+    
+    const authTimeout = setTimeout(() => {
+      if (!userId) {
+        ws.close(WS_CLOSE_UNAUTHORIZED, 'Authentication timeout');
+      }
+    }, WS_AUTH_TIMEOUT_MS);
+    
+    const rejectAuth = (code: number, message: string) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: 'auth_error', message }));
+      }
+      ws.close(code, message);
+    };
+    
+    // Accepts the same bearer token the REST API uses
+    const authenticate = async (token: string) => {
+      if (userId) return;
+      
+      const user = await storage.getUserByToken(token);
+      if (!user) {
+        return rejectAuth(WS_CLOSE_UNAUTHORIZED, 'Invalid token');
+      }
+      if (user.isBanned) {
+        return rejectAuth(WS_CLOSE_FORBIDDEN, 'Account is banned');
+      }
+      await storage.touchUserToken(token);
+      if (ws.readyState !== WebSocket.OPEN) return;
+      
+      clearTimeout(authTimeout);
+      userId = user.id;
+      socketSessions.set(ws, { userId, token });
+      if (!clients.has(userId)) {
+        clients.set(userId, []);
+      }
+      clients.get(userId)!.push(ws);
+      // Decided before any await, or two sockets authenticating at once would
+      // both see the other and neither would bring the user online
+      const isFirstSocket = clients.get(userId)!.length === 1;
+      // Loaded before auth_success so the client's first room message reaches
+      // everyone. An account scheduled for deletion gets no room events until restored.
+      if (isFirstSocket) {
+        roomSubscriptions.connectUser(userId);
+        const roomIds = user.deletionScheduledAt ? [] : await storage.getMemberRoomIds(userId);
+        for (const roomId of roomIds) {
+          roomSubscriptions.addMember(roomId, userId);
+        }
+      }
+      ws.send(JSON.stringify({ type: 'auth_success', userId }));
+      
+      if (isFirstSocket) {
+        await userConnected(user);
+      }
+    };
+    
+    const sendError = (message: string, clientId?: string) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: 'error', message, clientId }));
+      }
+    };
+    
+    // Confirms a stored message to the socket that sent it; frames without a
+    // client id are not acknowledged
+    const ack = (clientId: string | undefined, message: object) => {
+      if (clientId && ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: 'ack', clientId, message }));
+      }
+    };
+    
+    // Retries of a stored message are acknowledged with the stored copy
+    const handlePrivateMessage = async (data: WebSocketMessage) => {
+      if (!userId) return;
+      const { message } = await sendDirectMessage(userId, data);
+      ack(data.clientId, message);
+    };
+
+    const handleMarkRead = async (data: WebSocketMessage) => {
+      if (!userId) return;
+
+      const parsed = markReadSchema.safeParse(data);
+      if (!data.peerId || !parsed.success) {
+        sendError('Invalid read marker');
+        return;
+      }
+
+      await markConversationRead(userId, data.peerId, parsed.data.upToId);
     };
 
     const handleChatMessage = async (data: WebSocketMessage) => {
+      if (!userId) return;
+      const { message } = await sendRoomMessage(userId, data);
+      ack(data.clientId, message);
+    };
+
+    // typing_start/typing_stop carry either a receiverId or a roomId
+    const handleTyping = async (data: WebSocketMessage) => {
+      if (!userId) return;
+
+      let target: TypingTarget;
+      if (data.receiverId) {
+        if (data.receiverId === userId) return;
+        target = { receiverId: data.receiverId };
+      } else if (data.roomId) {
+        const [room, user] = await Promise.all([storage.getChatRoomById(data.roomId), storage.getUser(userId)]);
+        if (!room || !user || !(await canViewRoom(room, toAuthUser(user)))) {
+          sendError('Chat room not found');
+          return;
+        }
+        target = { roomId: data.roomId };
+      } else {
+        return;
+      }
+
+      if (data.type === 'typing_start') {
+        startTyping(userId, target);
+      } else {
+        stopTyping(userId, target);
+      }
+    };
+
+    // Sockets showing a room follow its events even if the user never joined it
+    const handleRoomSubscription = async (data: WebSocketMessage) => {
       if (!userId || !data.roomId) return;
 
-      const chatMessage = await storage.createChatMessage({
-        roomId: data.roomId,
-        userId: userId,
-        content: data.content || '',
-        mediaType: data.mediaType || 'text',
-        mediaUrl: data.mediaUrl || '',
-      });
+      if (data.type === 'room_unsubscribe') {
+        roomSubscriptions.removeViewer(data.roomId, ws);
+        return;
+      }
 
-      const roomMembers = await storage.getRoomMembers(data.roomId);
-      roomMembers.forEach(member => {
-        const memberConnections = clients.get(member.id) || [];
-        memberConnections.forEach(client => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify({
-              type: 'chat_message',
-              message: chatMessage
-            }));
-          }
-        });
-      });
+      const [room, user] = await Promise.all([storage.getChatRoomById(data.roomId), storage.getUser(userId)]);
+      if (!room || !user || !(await canViewRoom(room, toAuthUser(user)))) {
+        sendError('Chat room not found');
+        return;
+      }
+      roomSubscriptions.addViewer(data.roomId, ws);
     };
 
     ws.on('message', (message) => {
       (async () => {
+        let data: WebSocketMessage | undefined;
         try {
-          const data = JSON.parse(message.toString()) as WebSocketMessage;
+          data = JSON.parse(message.toString()) as WebSocketMessage;
           
-          if (data.type === 'auth' && typeof data.userId === 'number') {
-            userId = data.userId;
-            if (!clients.has(userId)) {
-              clients.set(userId, []);
+          if (data.type === 'auth') {
+            if (typeof data.token !== 'string') {
+              return rejectAuth(WS_CLOSE_UNAUTHORIZED, 'Token is required');
             }
-            clients.get(userId)!.push(ws);
-            ws.send(JSON.stringify({ type: 'auth_success' }));
+            await authenticate(data.token);
+            return;
+          }
+          
+          if (!userId) {
+            sendError('Not authenticated', data.clientId);
+            return;
           }
           
           if (data.type === 'private_message') {
@@ -152,14 +763,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (data.type === 'chat_message') {
             await handleChatMessage(data);
           }
+          
+          if (data.type === 'typing_start' || data.type === 'typing_stop') {
+            await handleTyping(data);
+          }
+          
+          if (data.type === 'mark_read') {
+            await handleMarkRead(data);
+          }
+          
+          if (data.type === 'room_subscribe' || data.type === 'room_unsubscribe') {
+            await handleRoomSubscription(data);
+          }
         } catch (error) {
-          console.error('WebSocket message error:', error);
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ 
-              type: 'error', 
-              message: 'Failed to process message' 
-            }));
+          // The client id lets the sender mark that message as failed
+          if (error instanceof MessageRejectedError) {
+            sendError(error.message, data?.clientId);
+            return;
+          }
+          if (error instanceof z.ZodError) {
+            sendError('Invalid message data', data?.clientId);
+            return;
           }
+          console.error('WebSocket message error:', error);
+          sendError('Failed to process message', data?.clientId);
         }
       })().catch(error => {
         console.error('Unhandled WebSocket async error:', error);
@@ -167,15 +794,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
     
     ws.on('close', () => {
+      clearTimeout(authTimeout);
+      socketSessions.delete(ws);
+      roomSubscriptions.removeSocket(ws);
       if (userId) {
-        const userConnections = clients.get(userId) || [];
-        clients.set(userId, userConnections.filter(conn => conn !== ws));
+        const userConnections = (clients.get(userId) || []).filter(conn => conn !== ws);
+        clients.set(userId, userConnections);
+        if (userConnections.length === 0) {
+          // Nobody is left to renew or stop this user's indicators
+          stopAllTyping(userId);
+          roomSubscriptions.disconnectUser(userId);
+          userDisconnected(userId);
+        }
       }
     });
     
     ws.on('error', (error) => {
       console.error('WebSocket error:', error);
     });
+    
+    // The token may also be passed as a query parameter or Authorization header
+    // instead of an auth frame
+    const url = new URL(req.url || '/ws', 'http://localhost');
+    const handshakeToken = url.searchParams.get('token') || parseBearerToken(req.headers.authorization);
+    if (handshakeToken) {
+      authenticate(handshakeToken).catch(error => {
+        console.error('WebSocket authentication error:', error);
+        ws.close(WS_CLOSE_UNAUTHORIZED, 'Authentication failed');
+      });
+    }
   });
   
   // Serve uploaded files
@@ -201,6 +848,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create user with emailVerified: false
       const user = await storage.createUser({
         ...userData,
+        password: await hashPassword(userData.password),
         emailVerified: false
       });
       
@@ -215,10 +863,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         expiresAt
       });
       
-      await sendVerificationEmail(userData.email, code);
+      await sendVerificationEmail(userData.email, code, user.language);
       
-      // Don't return password in response
-      const { password, ...userWithoutPassword } = user;
+      // Don't return credentials in response
+      const userWithoutPassword = withoutCredentials(user);
       
       res.status(201).json(userWithoutPassword);
     } catch (error) {
@@ -239,164 +887,746 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const user = await storage.getUserByUsername(username);
       
-      if (!user || user.password !== password) {
+      if (!user || !(await checkUserPassword(user.id, user.password, password))) {
         return res.status(401).json({ message: 'Invalid username or password' });
       }
       
-      // Генерируем токен
-      const token = await storage.createUserToken(user.id);
+      // С включенной 2FA токен выдается только после проверки кода
+      if (user.totpEnabled) {
+        return res.status(200).json({
+          twoFactorRequired: true,
+          challengeToken: await createLoginChallenge(user.id)
+        });
+      }
+      
+      res.status(200).json(await createSession(req, user));
+    } catch (error) {
+      res.status(500).json({ message: 'Login failed' });
+    }
+  });
+  
+  // Second login step for accounts with two-factor authentication
+  app.post('/api/auth/login/2fa', async (req, res) => {
+    try {
+      const { challengeToken, code, recoveryCode } = req.body;
+      
+      if (!challengeToken || (!code && !recoveryCode)) {
+        return res.status(400).json({ message: 'Challenge token and a code are required' });
+      }
+      
+      const challenge = await getLoginChallenge(challengeToken);
+      if (!challenge) {
+        return res.status(401).json({ message: 'Login attempt expired, please sign in again' });
+      }
+      
+      const user = await storage.getUser(challenge.userId);
+      if (!user) {
+        await completeLoginChallenge(challengeToken);
+        return res.status(401).json({ message: 'Login attempt expired, please sign in again' });
+      }
+      
+      if (isSecondFactorLocked(user)) {
+        return res.status(429).json({ message: 'Too many invalid codes, please try again later' });
+      }
+      
+      if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+        await failLoginChallenge(challengeToken);
+        return res.status(401).json({ message: 'Invalid authentication code' });
+      }
+      
+      // Only one request may turn a challenge into a session
+      if (!(await completeLoginChallenge(challengeToken))) {
+        return res.status(401).json({ message: 'Login attempt expired, please sign in again' });
+      }
+      
+      res.status(200).json(await createSession(req, user));
+    } catch (error) {
+      res.status(500).json({ message: 'Login failed' });
+    }
+  });
+  
+  app.get('/api/auth/me', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // Don't return credentials in response
+      const userWithoutPassword = withoutCredentials(user);
+      
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get current user' });
+    }
+  });
+  
+  app.post('/api/auth/logout', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      await revokeSession(req.user!.id, req.token!);
+      
+      res.status(200).json({ message: 'Logged out' });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to log out' });
+    }
+  });
+  
+  // Session routes
+  app.get('/api/auth/sessions', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const sessions = await storage.getUserTokensForUser(req.user!.id);
+      
+      // Never expose the token itself; sessions are addressed by row id
+      res.status(200).json(sessions.map(({ token, ...session }) => ({
+        ...session,
+        current: token === req.token
+      })));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get sessions' });
+    }
+  });
+  
+  app.patch('/api/auth/sessions/:id', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      const { name } = req.body;
+      
+      if (name !== null && typeof name !== 'string') {
+        return res.status(400).json({ message: 'Name must be a string or null' });
+      }
+      
+      const session = await storage.getUserTokenById(sessionId);
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+      
+      const updatedSession = await storage.updateUserTokenName(sessionId, name ? name.trim().slice(0, 100) : null);
+      const { token, ...sessionWithoutToken } = updatedSession!;
+      
+      res.status(200).json({ ...sessionWithoutToken, current: token === req.token });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to rename session' });
+    }
+  });
+  
+  app.delete('/api/auth/sessions/:id', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      
+      const session = await storage.getUserTokenById(sessionId);
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+      
+      await revokeSession(req.user!.id, session.token);
+      
+      res.status(200).json({ message: 'Session revoked' });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to revoke session' });
+    }
+  });
+  
+  // Signs out every device except the one making the request
+  app.delete('/api/auth/sessions', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      await revokeAllSessions(req.user!.id, req.token);
+      
+      res.status(200).json({ message: 'Other sessions revoked' });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to revoke sessions' });
+    }
+  });
+  
+  // Account routes
+  app.post('/api/users/me/password', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+      
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: 'Current and new password are required' });
+      }
+      
+      if (typeof newPassword !== 'string' || newPassword.length < 6) {
+        return res.status(400).json({ message: 'Password must be at least 6 characters long' });
+      }
+      
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      if (!(await checkUserPassword(user.id, user.password, currentPassword))) {
+        return res.status(400).json({ message: 'Current password is incorrect' });
+      }
       
-      // Не возвращаем пароль в ответе
-      const { password: _, ...userWithoutPassword } = user;
+      await setUserPassword(user.id, newPassword);
+      
+      // Sign out every other device but keep the session that made the change
+      await revokeAllSessions(user.id, req.token);
+      
+      res.status(200).json({ message: 'Password changed successfully' });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to change password' });
+    }
+  });
+  
+  app.delete('/api/users/me', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { password } = req.body;
+      
+      if (!password) {
+        return res.status(400).json({ message: 'Password is required' });
+      }
+      
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      if (!(await checkUserPassword(user.id, user.password, password))) {
+        return res.status(400).json({ message: 'Password is incorrect' });
+      }
+      
+      // The account is purged once the grace period ends; until then logging
+      // back in and restoring it cancels the deletion
+      const deletionScheduledAt = await scheduleAccountDeletion(user.id);
+      
+      res.status(202).json({ message: 'Account scheduled for deletion', deletionScheduledAt });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to delete account' });
+    }
+  });
+  
+  app.post('/api/users/me/restore', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      await restoreAccount(req.user!.id);
+      // Their open sockets start receiving room events again
+      for (const roomId of await storage.getMemberRoomIds(req.user!.id)) {
+        publish({ type: 'member_added', roomId, userId: req.user!.id });
+      }
+      
+      res.status(200).json({ message: 'Account restored' });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to restore account' });
+    }
+  });
+  
+  // Two-factor authentication routes
+  app.get('/api/users/me/2fa', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
       
       res.status(200).json({
-        user: userWithoutPassword,
-        token
+        enabled: !!user.totpEnabled,
+        recoveryCodesRemaining: user.totpEnabled ? (user.totpRecoveryCodes || []).length : 0
       });
     } catch (error) {
-      res.status(500).json({ message: 'Login failed' });
+      res.status(500).json({ message: 'Failed to get two-factor status' });
+    }
+  });
+  
+  // Starts enrollment; 2FA stays off until a first code is confirmed
+  app.post('/api/users/me/2fa/setup', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      if (user.totpEnabled) {
+        return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+      }
+      
+      const secret = generateTotpSecret();
+      await storage.updateUserProfile(user.id, { totpSecret: secret, totpLastUsedStep: null });
+      
+      res.status(200).json({ secret, otpauthUri: buildOtpauthUri(secret, user.username) });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to start two-factor setup' });
+    }
+  });
+  
+  app.post('/api/users/me/2fa/enable', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { code } = req.body;
+      
+      if (!code) {
+        return res.status(400).json({ message: 'Code is required' });
+      }
+      
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      if (user.totpEnabled) {
+        return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+      }
+      
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: 'Two-factor setup has not been started' });
+      }
+      
+      const step = verifyTotpCode(user.totpSecret, code, null);
+      if (step === null) {
+        return res.status(400).json({ message: 'Invalid authentication code' });
+      }
+      
+      // Recovery codes are shown once; only their hashes are kept
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUserProfile(user.id, {
+        totpEnabled: true,
+        totpLastUsedStep: step,
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode)
+      });
+      
+      res.status(200).json({ recoveryCodes });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to enable two-factor authentication' });
+    }
+  });
+  
+  app.post('/api/users/me/2fa/disable', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { password, code, recoveryCode } = req.body;
+      
+      if (!password || (!code && !recoveryCode)) {
+        return res.status(400).json({ message: 'Password and a code are required' });
+      }
+      
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      if (!user.totpEnabled) {
+        return res.status(409).json({ message: 'Two-factor authentication is not enabled' });
+      }
+      
+      if (!(await checkUserPassword(user.id, user.password, password))) {
+        return res.status(400).json({ message: 'Password is incorrect' });
+      }
+      
+      if (isSecondFactorLocked(user)) {
+        return res.status(429).json({ message: 'Too many invalid codes, please try again later' });
+      }
+      
+      if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+        return res.status(400).json({ message: 'Invalid authentication code' });
+      }
+      
+      await storage.updateUserProfile(user.id, {
+        totpEnabled: false,
+        totpSecret: null,
+        totpRecoveryCodes: null,
+        totpLastUsedStep: null
+      });
+      
+      res.status(200).json({ message: 'Two-factor authentication disabled' });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to disable two-factor authentication' });
+    }
+  });
+  
+  // Replaces all recovery codes, invalidating the old ones
+  app.post('/api/users/me/2fa/recovery-codes', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { password } = req.body;
+      
+      if (!password) {
+        return res.status(400).json({ message: 'Password is required' });
+      }
+      
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      if (!user.totpEnabled) {
+        return res.status(409).json({ message: 'Two-factor authentication is not enabled' });
+      }
+      
+      if (!(await checkUserPassword(user.id, user.password, password))) {
+        return res.status(400).json({ message: 'Password is incorrect' });
+      }
+      
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUserProfile(user.id, { totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+      
+      res.status(200).json({ recoveryCodes });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to regenerate recovery codes' });
+    }
+  });
+  
+  // Personal data export routes
+  app.post('/api/users/me/exports', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      // The archive is built in the background; clients poll the list below
+      const dataExport = await requestDataExport(req.user!.id);
+      
+      res.status(202).json(dataExport);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to request data export' });
+    }
+  });
+  
+  app.get('/api/users/me/exports', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      res.status(200).json(await getDataExports(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get data exports' });
+    }
+  });
+  
+  app.get('/api/users/me/exports/:id/download', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const dataExport = await getDataExport(req.user!.id, req.params.id);
+      
+      if (!dataExport) {
+        return res.status(404).json({ message: 'Export not found' });
+      }
+      
+      if (dataExport.status !== 'ready') {
+        return res.status(409).json({ message: 'Export is not ready yet' });
+      }
+      
+      const filename = `chatmod-export-${req.user!.username}-${dataExport.id.slice(0, 8)}.zip`;
+      res.download(archivePath(dataExport), filename, (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: 'Export file is no longer available' });
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to download data export' });
     }
   });
   
   // User routes
-  app.get('/api/users/:id', async (req, res) => {
+  app.get('/api/users/:id', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // Don't return credentials in response
+      const userWithoutPassword = userId === req.user!.id ? withoutCredentials(user) : toPublicUser(user);
+      
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get user' });
+    }
+  });
+  
+  app.get('/api/users', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      // Accounts scheduled for deletion are only listed for admins
+      const users = (await storage.getAllUsers())
+        .filter(user => req.user!.role === 'admin' || !user.deletionScheduledAt);
+      
+      // Remove credentials from response
+      const usersWithoutPasswords = users.map(toPublicUser);
+      
+      res.status(200).json(usersWithoutPasswords);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get users' });
+    }
+  });
+  
+  app.patch('/api/users/:id', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      
+      if (userId !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only edit your own profile' });
+      }
+      
+      // Only profile fields can be changed through this endpoint
+      const userData = updateUserProfileSchema.parse(req.body);
+      
+      const updatedUser = await storage.updateUserProfile(userId, userData);
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // To everyone else, going invisible looks like going offline and back
+      if (userData.invisible !== undefined && updatedUser.isOnline) {
+        await broadcastPresence(userId, !updatedUser.invisible, updatedUser.invisible ? null : new Date());
+      }
+      
+      // Don't return credentials in response
+      const userWithoutPassword = withoutCredentials(updatedUser);
+      
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid profile data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to update user' });
+    }
+  });
+  
+  app.post('/api/users/:id/profile-picture', authMiddleware, upload.single('image'), async (req: MulterRequest, res) => {
     try {
       const userId = parseInt(req.params.id);
+      
+      if (userId !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only change your own profile picture' });
+      }
+      
       const user = await storage.getUser(userId);
       
       if (!user) {
         return res.status(404).json({ message: 'User not found' });
       }
       
-      // Don't return password in response
-      const { password, ...userWithoutPassword } = user;
+      if (!req.file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+      
+      const profilePicture = `/uploads/profile-pics/${req.file.filename}`;
+      
+      const updatedUser = await storage.updateUserProfile(userId, { profilePicture });
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // Don't return credentials in response
+      const userWithoutPassword = withoutCredentials(updatedUser);
       
       res.status(200).json(userWithoutPassword);
     } catch (error) {
-      res.status(500).json({ message: 'Failed to get user' });
+      res.status(500).json({ message: 'Failed to upload profile picture' });
+    }
+  });
+  
+  // Message routes
+  app.post('/api/messages', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { message, created } = await sendDirectMessage(req.user!.id, req.body);
+      // Retried requests get the message stored the first time
+      res.status(created ? 201 : 200).json(message);
+    } catch (error) {
+      if (error instanceof MessageRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid message data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to create message' });
+    }
+  });
+  
+  // Registered before /api/messages/:userId/:otherUserId, which would otherwise match it
+  app.get('/api/messages/unread-count/:userId', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      
+      if (userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
+      
+      const count = await storage.getUnreadMessageCount(userId);
+      
+      res.status(200).json({ count });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get unread message count' });
     }
   });
   
-  app.get('/api/users', async (req, res) => {
+  app.patch('/api/messages/:id', authMiddleware, async (req: AuthRequest, res) => {
     try {
-      const users = await storage.getAllUsers();
+      const messageId = parseInt(req.params.id);
+      const { content } = editMessageSchema.parse(req.body);
       
-      // Remove passwords from response
-      const usersWithoutPasswords = users.map(user => {
-        const { password, ...userWithoutPassword } = user;
-        return userWithoutPassword;
-      });
+      const message = await storage.getMessageById(messageId);
+      if (!message || message.deletedAt) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      if (message.senderId !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only edit your own messages' });
+      }
       
-      res.status(200).json(usersWithoutPasswords);
+      const edited = await storage.editMessage(messageId, content, req.user!.id);
+      // Editing must not reveal whether the message was read
+      const [updated] = edited && !(await canShareReadReceipts(message.senderId, message.receiverId))
+        ? hideReadReceipts([edited], message.senderId)
+        : [edited];
+      sendToUsers([message.receiverId, message.senderId], { type: 'private_message_edited', message: updated });
+      
+      res.status(200).json(updated);
     } catch (error) {
-      res.status(500).json({ message: 'Failed to get users' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid message data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to edit message' });
     }
   });
   
-  app.patch('/api/users/:id', async (req, res) => {
+  app.delete('/api/messages/:id', authMiddleware, async (req: AuthRequest, res) => {
     try {
-      const userId = parseInt(req.params.id);
-      const userData = req.body;
+      const messageId = parseInt(req.params.id);
       
-      // Don't allow updating username or password through this endpoint
-      delete userData.username;
-      delete userData.password;
-      
-      const updatedUser = await storage.updateUserProfile(userId, userData);
-      
-      if (!updatedUser) {
-        return res.status(404).json({ message: 'User not found' });
+      const message = await storage.getMessageById(messageId);
+      if (!message || message.deletedAt) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      if (message.senderId !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only delete your own messages' });
       }
       
-      // Don't return password in response
-      const { password, ...userWithoutPassword } = updatedUser;
+      const tombstone = await storage.deleteMessage(messageId, req.user!.id);
+      sendToUsers([message.receiverId, message.senderId], { type: 'private_message_deleted', message: tombstone });
       
-      res.status(200).json(userWithoutPassword);
+      res.status(200).json(tombstone);
     } catch (error) {
-      res.status(500).json({ message: 'Failed to update user' });
+      res.status(500).json({ message: 'Failed to delete message' });
     }
   });
   
-  app.post('/api/users/:id/profile-picture', upload.single('image'), async (req: MulterRequest, res) => {
+  // Reactions can be added by either side of the conversation
+  const updateDirectReaction = (action: 'add' | 'remove') => async (req: AuthRequest, res: express.Response) => {
     try {
-      const userId = parseInt(req.params.id);
-      const user = await storage.getUser(userId);
-      
-      if (!user) {
-        return res.status(404).json({ message: 'User not found' });
-      }
+      const messageId = parseInt(req.params.id);
+      const { emoji } = reactionSchema.parse(action === 'add' ? req.body : req.params);
       
-      if (!req.file) {
-        return res.status(400).json({ message: 'No file uploaded' });
+      const message = await storage.getMessageById(messageId);
+      if (!message || message.deletedAt || (message.senderId !== req.user!.id && message.receiverId !== req.user!.id)) {
+        return res.status(404).json({ message: 'Message not found' });
       }
       
-      const profilePicture = `/uploads/profile-pics/${req.file.filename}`;
-      
-      const updatedUser = await storage.updateUserProfile(userId, { profilePicture });
-      
-      if (!updatedUser) {
-        return res.status(404).json({ message: 'User not found' });
+      const reaction = { messageType: 'direct', messageId, userId: req.user!.id, emoji };
+      if (action === 'add') {
+        await storage.addReaction(reaction);
+      } else {
+        await storage.removeReaction(reaction);
       }
       
-      // Don't return password in response
-      const { password, ...userWithoutPassword } = updatedUser;
+      const reactions = await getReactionSummary('direct', messageId);
+      sendToUsers([message.senderId, message.receiverId], {
+        type: 'private_message_reactions',
+        messageId,
+        senderId: message.senderId,
+        receiverId: message.receiverId,
+        reactions
+      });
       
-      res.status(200).json(userWithoutPassword);
+      res.status(200).json({ messageId, reactions });
     } catch (error) {
-      res.status(500).json({ message: 'Failed to upload profile picture' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid reaction', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to update reaction' });
     }
-  });
+  };
   
-  // Message routes
-  app.post('/api/messages', async (req, res) => {
+  app.post('/api/messages/:id/reactions', authMiddleware, updateDirectReaction('add'));
+  app.delete('/api/messages/:id/reactions/:emoji', authMiddleware, updateDirectReaction('remove'));
+  
+  // Previous versions of a DM, including the content of a deleted one; site admins only.
+  // Registered before /api/messages/:userId/:otherUserId, which would otherwise match it
+  app.get('/api/messages/:id/edits', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
     try {
-      const messageData = insertMessageSchema.parse(req.body);
+      const messageId = parseInt(req.params.id);
+      
+      const message = await storage.getMessageById(messageId);
+      if (!message) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
       
-      const message = await storage.createMessage(messageData);
+      const edits = await storage.getMessageEdits('direct', messageId);
       
-      res.status(201).json(message);
+      res.status(200).json(edits);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: 'Invalid message data', errors: error.errors });
-      }
-      res.status(500).json({ message: 'Failed to create message' });
+      res.status(500).json({ message: 'Failed to get message history' });
     }
   });
   
-  app.get('/api/messages/:userId/:otherUserId', async (req, res) => {
+  app.get('/api/messages/:userId/:otherUserId', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const otherUserId = parseInt(req.params.otherUserId);
       
-      const messages = await storage.getMessagesBetweenUsers(userId, otherUserId);
+      if (userId !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only read your own conversations' });
+      }
+      
+      const page = messagePageSchema.parse(req.query);
+      
+      // Loading the conversation delivers everything sent so far; reading it is
+      // reported separately through POST /api/conversations/:peerId/read
+      const lastDeliveredId = await storage.markMessagesAsDelivered(userId, otherUserId, Number.MAX_SAFE_INTEGER);
+      if (lastDeliveredId !== null) {
+        sendToUsers([otherUserId], { type: 'delivery_receipt', senderId: otherUserId, receiverId: userId, upToId: lastDeliveredId });
+      }
       
-      // Mark messages as read
-      await storage.markMessagesAsRead(userId, otherUserId);
+      const history = await storage.getMessagesBetweenUsers(userId, otherUserId, page);
+      const visible = (await canShareReadReceipts(userId, otherUserId)) ? history : hideReadReceipts(history, userId);
+      const messages = await withReactions('direct', await withDirectReplies(visible));
       
       res.status(200).json(messages);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid page parameters', errors: error.errors });
+      }
       res.status(500).json({ message: 'Failed to get messages' });
     }
   });
   
-  app.get('/api/messages/unread-count/:userId', async (req, res) => {
+  // DM inbox: everyone the user has talked to, most recent conversation first
+  app.get('/api/conversations', authMiddleware, async (req: AuthRequest, res) => {
     try {
-      const userId = parseInt(req.params.userId);
+      const conversations = await storage.getConversations(req.user!.id);
+      const user = await storage.getUser(req.user!.id);
+      
+      res.status(200).json(conversations.map(({ peer, lastMessage, ...conversation }) => ({
+        ...conversation,
+        lastMessage: user?.readReceipts !== false && peer.readReceipts !== false
+          ? lastMessage
+          : hideReadReceipts([lastMessage], req.user!.id)[0],
+        peer: toPublicUser(peer)
+      })));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get conversations' });
+    }
+  });
+  
+  app.post('/api/conversations/:peerId/read', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const peerId = parseInt(req.params.peerId);
+      const { upToId } = markReadSchema.parse(req.body);
       
-      const count = await storage.getUnreadMessageCount(userId);
+      await markConversationRead(req.user!.id, peerId, upToId);
       
-      res.status(200).json({ count });
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: 'Failed to get unread message count' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid read marker', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to mark messages as read' });
     }
   });
   
   // Chat room routes
-  app.post('/api/chat-rooms', async (req, res) => {
+  app.post('/api/chat-rooms', authMiddleware, async (req: AuthRequest, res) => {
     try {
-      const roomData = insertChatRoomSchema.parse(req.body);
+      const roomData = insertChatRoomSchema.parse({
+        ...req.body,
+        createdBy: req.user!.id
+      });
       
       const room = await storage.createChatRoom(roomData);
+      // Storage makes the creator the room's admin
+      publish({ type: 'member_added', roomId: room.id, userId: room.createdBy });
       
       res.status(201).json(room);
     } catch (error) {
@@ -407,7 +1637,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/chat-rooms', async (req, res) => {
+  app.get('/api/chat-rooms', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const rooms = await storage.getChatRooms();
       
@@ -417,13 +1647,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/chat-rooms/:id', async (req, res) => {
+  app.get('/api/chat-rooms/:id', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const roomId = parseInt(req.params.id);
       
       const room = await storage.getChatRoomById(roomId);
       
-      if (!room) {
+      if (!room || !(await canViewRoom(room, req.user!))) {
         return res.status(404).json({ message: 'Chat room not found' });
       }
       
@@ -433,10 +1663,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/chat-rooms/user/:userId', async (req, res) => {
+  app.get('/api/chat-rooms/user/:userId', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const userId = parseInt(req.params.userId);
       
+      if (userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
+      
       const rooms = await storage.getChatRoomsForUser(userId);
       
       res.status(200).json(rooms);
@@ -446,14 +1680,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Chat message routes
-  app.post('/api/chat-messages', async (req, res) => {
+  app.post('/api/chat-messages', authMiddleware, async (req: AuthRequest, res) => {
     try {
-      const messageData = insertChatMessageSchema.parse(req.body);
-      
-      const message = await storage.createChatMessage(messageData);
-      
-      res.status(201).json(message);
+      const { message, created } = await sendRoomMessage(req.user!.id, req.body);
+      // Retried requests get the message stored the first time
+      res.status(created ? 201 : 200).json(message);
     } catch (error) {
+      if (error instanceof MessageRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Invalid chat message data', errors: error.errors });
       }
@@ -461,24 +1696,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/chat-messages/:roomId', async (req, res) => {
+  app.get('/api/chat-messages/:roomId', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const roomId = parseInt(req.params.roomId);
       
-      const messages = await storage.getChatMessagesByRoomId(roomId);
+      const room = await storage.getChatRoomById(roomId);
+      if (!room || !(await canViewRoom(room, req.user!))) {
+        return res.status(404).json({ message: 'Chat room not found' });
+      }
+      
+      const page = messagePageSchema.parse(req.query);
+      const messages = await withReactions('room', await withRoomReplies(await storage.getChatMessagesByRoomId(roomId, page)));
       
       res.status(200).json(messages);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid page parameters', errors: error.errors });
+      }
       res.status(500).json({ message: 'Failed to get chat messages' });
     }
   });
   
+  app.patch('/api/chat-messages/:id', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const messageId = parseInt(req.params.id);
+      const { content } = editMessageSchema.parse(req.body);
+      
+      const message = await storage.getChatMessageById(messageId);
+      if (!message || message.deletedAt) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      if (message.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only edit your own messages' });
+      }
+      
+      const updated = await storage.editChatMessage(messageId, content, req.user!.id);
+      sendToRoom(message.roomId, { type: 'chat_message_edited', message: updated });
+      
+      res.status(200).json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid message data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to edit message' });
+    }
+  });
+  
+  // Authors can delete their own messages, room moderators and admins anyone's
+  app.delete('/api/chat-messages/:id', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const messageId = parseInt(req.params.id);
+      
+      const message = await storage.getChatMessageById(messageId);
+      if (!message || message.deletedAt) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      if (message.userId !== req.user!.id && !(await hasRoomRole(message.roomId, req.user!, ['admin', 'moderator']))) {
+        return res.status(403).json({ message: 'Not authorized to delete this message' });
+      }
+      
+      const tombstone = await storage.deleteChatMessage(messageId, req.user!.id);
+      sendToRoom(message.roomId, { type: 'chat_message_deleted', message: tombstone });
+      
+      res.status(200).json(tombstone);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to delete message' });
+    }
+  });
+  
+  // Previous versions of a room message, including the content of a deleted one
+  app.get('/api/chat-messages/:id/edits', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const messageId = parseInt(req.params.id);
+      
+      const message = await storage.getChatMessageById(messageId);
+      if (!message) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      if (!(await hasRoomRole(message.roomId, req.user!, ['admin', 'moderator']))) {
+        return res.status(403).json({ message: 'Only room moderators can view message history' });
+      }
+      
+      const edits = await storage.getMessageEdits('room', messageId);
+      
+      res.status(200).json(edits);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get message history' });
+    }
+  });
+  
+  // Anyone who can see the room can react
+  const updateRoomReaction = (action: 'add' | 'remove') => async (req: AuthRequest, res: express.Response) => {
+    try {
+      const messageId = parseInt(req.params.id);
+      const { emoji } = reactionSchema.parse(action === 'add' ? req.body : req.params);
+      
+      const message = await storage.getChatMessageById(messageId);
+      const room = message && await storage.getChatRoomById(message.roomId);
+      if (!message || message.deletedAt || !room || !(await canViewRoom(room, req.user!))) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      
+      const reaction = { messageType: 'room', messageId, userId: req.user!.id, emoji };
+      if (action === 'add') {
+        await storage.addReaction(reaction);
+      } else {
+        await storage.removeReaction(reaction);
+      }
+      
+      const reactions = await getReactionSummary('room', messageId);
+      sendToRoom(message.roomId, { type: 'chat_message_reactions', messageId, roomId: message.roomId, reactions });
+      
+      res.status(200).json({ messageId, reactions });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid reaction', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to update reaction' });
+    }
+  };
+  
+  app.post('/api/chat-messages/:id/reactions', authMiddleware, updateRoomReaction('add'));
+  app.delete('/api/chat-messages/:id/reactions/:emoji', authMiddleware, updateRoomReaction('remove'));
+  
   // Room member routes
-  app.post('/api/room-members', async (req, res) => {
+  app.post('/api/room-members', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const memberData = insertRoomMemberSchema.parse(req.body);
       
+      const room = await storage.getChatRoomById(memberData.roomId);
+      if (!room) {
+        return res.status(404).json({ message: 'Chat room not found' });
+      }
+      
+      // Anyone may join a public room as a plain member; adding other users,
+      // joining private rooms or granting roles is reserved for room managers
+      const isSelfJoin = memberData.userId === req.user!.id && !room.isPrivate;
+      const canManage = await hasRoomRole(room.id, req.user!, ['admin', 'moderator']);
+      if (!canManage && !isSelfJoin) {
+        return res.status(403).json({ message: 'Not authorized to add members to this room' });
+      }
+      if (!canManage) {
+        memberData.role = 'member';
+      }
+      
       const member = await storage.addUserToRoom(memberData);
+      publish({ type: 'member_added', roomId: member.roomId, userId: member.userId });
       
       res.status(201).json(member);
     } catch (error) {
@@ -489,12 +1852,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete('/api/room-members/:roomId/:userId', async (req, res) => {
+  app.delete('/api/room-members/:roomId/:userId', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const roomId = parseInt(req.params.roomId);
       const userId = parseInt(req.params.userId);
       
+      // Members may leave on their own; removing others requires a room manager
+      if (userId !== req.user!.id && !(await hasRoomRole(roomId, req.user!, ['admin', 'moderator']))) {
+        return res.status(403).json({ message: 'Not authorized to remove members from this room' });
+      }
+      
       await storage.removeUserFromRoom(roomId, userId);
+      const room = await storage.getChatRoomById(roomId);
+      publish({ type: 'member_removed', roomId, userId, roomIsPrivate: !!room?.isPrivate });
       
       res.status(204).send();
     } catch (error) {
@@ -502,17 +1872,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/room-members/:roomId', async (req, res) => {
+  app.get('/api/room-members/:roomId', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const roomId = parseInt(req.params.roomId);
       
+      const room = await storage.getChatRoomById(roomId);
+      if (!room || !(await canViewRoom(room, req.user!))) {
+        return res.status(404).json({ message: 'Chat room not found' });
+      }
+      
       const members = await storage.getRoomMembers(roomId);
       
-      // Remove passwords from response
-      const membersWithoutPasswords = members.map(member => {
-        const { password, ...memberWithoutPassword } = member;
-        return memberWithoutPassword;
-      });
+      // Remove credentials from response
+      const membersWithoutPasswords = members.map(toPublicUser);
       
       res.status(200).json(membersWithoutPasswords);
     } catch (error) {
@@ -521,22 +1893,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Media routes
-  app.post('/api/media', upload.single('file'), async (req: MulterRequest, res) => {
+  app.post('/api/media', authMiddleware, upload.single('file'), async (req: MulterRequest, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: 'No file uploaded' });
       }
       
-      const { userId, title, type, description, isPublic } = req.body;
+      const { title, type, description, isPublic } = req.body;
       
-      if (!userId || !title || !type) {
+      if (!title || !type) {
         return res.status(400).json({ message: 'Missing required fields' });
       }
       
       const mediaUrl = `/uploads/media/${req.file.filename}`;
       
       const mediaItem = await storage.createMediaItem({
-        userId: parseInt(userId),
+        userId: req.user!.id,
         title,
         type,
         url: mediaUrl,
@@ -550,7 +1922,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/media/user/:userId', async (req, res) => {
+  app.get('/api/media/user/:userId', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const userId = parseInt(req.params.userId);
       
@@ -562,7 +1934,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/media/public', async (req, res) => {
+  app.get('/api/media/public', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const mediaItems = await storage.getPublicMediaItems();
       
@@ -572,7 +1944,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/media/:id', async (req, res) => {
+  app.get('/api/media/:id', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -589,9 +1961,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Like/Match routes
-  app.post('/api/likes', async (req, res) => {
+  app.post('/api/likes', authMiddleware, async (req: AuthRequest, res) => {
     try {
-      const likeData = insertLikeSchema.parse(req.body);
+      const likeData = insertLikeSchema.parse({
+        ...req.body,
+        likerId: req.user!.id
+      });
       
       const like = await storage.createLike(likeData);
       
@@ -608,10 +1983,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/likes/user/:userId', async (req, res) => {
+  app.get('/api/likes/user/:userId', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const userId = parseInt(req.params.userId);
       
+      if (userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
+      
       const likes = await storage.getLikesByUser(userId);
       
       res.status(200).json(likes);
@@ -620,17 +1999,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/matches/:userId', async (req, res) => {
+  app.get('/api/matches/:userId', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const userId = parseInt(req.params.userId);
       
+      if (userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
+      
       const matches = await storage.getMatches(userId);
       
-      // Remove passwords from response
-      const matchesWithoutPasswords = matches.map(match => {
-        const { password, ...matchWithoutPassword } = match;
-        return matchWithoutPassword;
-      });
+      // Remove credentials from response
+      const matchesWithoutPasswords = matches.map(toPublicUser);
       
       res.status(200).json(matchesWithoutPasswords);
     } catch (error) {
@@ -641,7 +2021,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // New enhanced API routes
 
   // User search by username (with @ support)
-  app.get('/api/users/search', async (req, res) => {
+  app.get('/api/users/search', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const query = req.query.q as string;
       if (!query) {
@@ -650,11 +2030,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const users = await storage.searchUsersByUsername(query);
       
-      // Remove passwords from response
-      const usersWithoutPasswords = users.map(user => {
-        const { password, ...userWithoutPassword } = user;
-        return userWithoutPassword;
-      });
+      // Remove credentials from response
+      const usersWithoutPasswords = users.map(toPublicUser);
       
       res.status(200).json(usersWithoutPasswords);
     } catch (error) {
@@ -662,24 +2039,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update user online status
-  app.patch('/api/users/:userId/online-status', async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const { isOnline } = req.body;
-      
-      await storage.updateUserOnlineStatus(userId, isOnline);
-      
-      res.status(200).json({ success: true });
-    } catch (error) {
-      res.status(500).json({ message: 'Failed to update online status' });
-    }
-  });
-
   // Email verification routes
   app.post('/api/auth/send-verification', async (req, res) => {
     try {
-      const { email } = req.body;
+      const { email, language } = req.body;
       
       if (!email) {
         return res.status(400).json({ message: 'Email is required' });
@@ -701,7 +2064,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         expiresAt
       });
       
-      const emailSent = await sendVerificationEmail(email, code);
+      // Before registration there is no account yet, so the client says which language to use
+      const emailSent = await sendVerificationEmail(email, code, existingUser?.language || language);
       
       if (!emailSent) {
         return res.status(500).json({ message: 'Failed to send verification email' });
@@ -742,10 +2106,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Password reset routes
+  app.post('/api/auth/forgot-password', async (req, res) => {
+    try {
+      const { email } = req.body;
+      
+      if (!email) {
+        return res.status(400).json({ message: 'Email is required' });
+      }
+      
+      // Respond the same way whether or not the account exists so the
+      // endpoint can't be used to discover registered emails; a failed send
+      // is only logged, since an error here would give the account away
+      const user = await storage.getUserByEmail(email);
+      if (user) {
+        try {
+          const code = generateVerificationCode();
+          const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
+          
+          await storage.createVerificationCode({
+            email,
+            code,
+            type: 'password_reset',
+            expiresAt
+          });
+          
+          const emailSent = await sendPasswordResetEmail(email, code, user.language);
+          if (!emailSent) {
+            console.error(`Password reset email for user ${user.id} was not sent`);
+          }
+        } catch (error) {
+          console.error(`Password reset for user ${user.id} failed:`, error);
+        }
+      }
+      
+      res.status(200).json({ message: 'If the email is registered, a reset code has been sent' });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to send password reset code' });
+    }
+  });
+
+  app.post('/api/auth/reset-password', async (req, res) => {
+    try {
+      const { email, code, password } = req.body;
+      
+      if (!email || !code || !password) {
+        return res.status(400).json({ message: 'Email, code and new password are required' });
+      }
+      
+      if (typeof password !== 'string' || password.length < 6) {
+        return res.status(400).json({ message: 'Password must be at least 6 characters long' });
+      }
+      
+      const verificationCode = await storage.getVerificationCode(email, code, 'password_reset');
+      const user = await storage.getUserByEmail(email);
+      
+      if (!verificationCode || !user) {
+        // Six digits are few enough to guess within the code's lifetime otherwise
+        await storage.recordFailedVerificationAttempt(email, 'password_reset', RESET_CODE_MAX_ATTEMPTS);
+        return res.status(400).json({ message: 'Invalid or expired reset code' });
+      }
+      
+      await storage.markVerificationCodeAsUsed(verificationCode.id);
+      await setUserPassword(user.id, password);
+      
+      // Log out every existing session, including open sockets
+      await revokeAllSessions(user.id);
+      
+      res.status(200).json({ message: 'Password reset successfully' });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to reset password' });
+    }
+  });
+
+  // Email unsubscribe routes. They take the signed token from the digest
+  // instead of a session, so they work from any mail client. GET only asks
+  // for confirmation, since mail scanners and link previews fetch links
+  app.get('/api/email/unsubscribe', async (req, res) => {
+    try {
+      const token = String(req.query.token || '');
+      const userId = verifyUnsubscribeToken(token);
+      const user = userId === null ? undefined : await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(400).type('html').send('<p>This unsubscribe link is invalid.</p>');
+      }
+      
+      const [question, button] = user.language === 'ru'
+        ? ['Отписаться от писем о пропущенных сообщениях?', 'Отписаться']
+        : ['Unsubscribe from missed message emails?', 'Unsubscribe'];
+      // A verified token only holds digits and base64url, so it is safe to embed
+      res.status(200).type('html').send(
+        `<form method="post" action="/api/email/unsubscribe?token=${token}">` +
+        `<p>${question}</p>` +
+        '<input type="hidden" name="List-Unsubscribe" value="One-Click">' +
+        `<button type="submit">${button}</button>` +
+        '</form>'
+      );
+    } catch (error) {
+      res.status(500).type('html').send('<p>Failed to load this page, please try again later.</p>');
+    }
+  });
+
+  // Sent by the confirmation page and, as an RFC 8058 one-click unsubscribe,
+  // by mail clients from the List-Unsubscribe header
+  app.post('/api/email/unsubscribe', async (req, res) => {
+    try {
+      if (req.body?.['List-Unsubscribe'] !== 'One-Click') {
+        return res.status(400).type('html').send('<p>This unsubscribe request is invalid.</p>');
+      }
+      
+      const user = await unsubscribeFromDigests(String(req.query.token || ''));
+      
+      if (!user) {
+        return res.status(400).type('html').send('<p>This unsubscribe link is invalid.</p>');
+      }
+      
+      const message = user.language === 'ru'
+        ? 'Вы отписались от писем о пропущенных сообщениях. Включить их снова можно в настройках.'
+        : 'You have been unsubscribed from missed message emails. You can turn them back on in settings.';
+      res.status(200).type('html').send(`<p>${message}</p>`);
+    } catch (error) {
+      res.status(500).type('html').send('<p>Failed to unsubscribe, please try again later.</p>');
+    }
+  });
+
   // Admin routes
-  app.get('/api/admin/logs', async (req, res) => {
+  app.get('/api/admin/logs', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
     try {
-      // Check if user is admin (in real app, verify JWT token)
       const limit = parseInt(req.query.limit as string) || 50;
       
       const logs = await storage.getAdminLogs(limit);
@@ -756,15 +2244,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/admin/ban-user', async (req, res) => {
+  app.post('/api/admin/ban-user', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
     try {
-      const { userId, adminId, reason } = req.body;
+      const { userId, reason } = req.body;
       
-      if (!userId || !adminId || !reason) {
+      if (!userId || !reason) {
         return res.status(400).json({ message: 'Missing required fields' });
       }
       
-      await storage.banUser(userId, adminId, reason);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      await storage.banUser(userId, req.user!.id, reason);
+      disconnectUser(userId, WS_CLOSE_FORBIDDEN, 'Account is banned');
+      
+      // The ban stands even if the notice can't be sent
+      sendBanNoticeEmail(user, reason).catch(error => {
+        console.error('Failed to send ban notice:', error);
+      });
       
       res.status(200).json({ message: 'User banned successfully' });
     } catch (error) {
@@ -772,7 +2271,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/admin/unban-user', async (req, res) => {
+  // Email template routes
+  app.get('/api/admin/email-templates', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      res.status(200).json(await listEmailTemplates());
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get email templates' });
+    }
+  });
+
+  app.put('/api/admin/email-templates/:name/:locale', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { name, locale } = req.params;
+      
+      if (!isEmailTemplateName(name) || !isSupportedLanguage(locale)) {
+        return res.status(404).json({ message: 'Email template not found' });
+      }
+      
+      const content = emailTemplateContentSchema.parse(req.body);
+      const template = await saveEmailTemplate(name, locale, content);
+      
+      res.status(200).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid template data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to save email template' });
+    }
+  });
+
+  app.delete('/api/admin/email-templates/:name/:locale', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { name, locale } = req.params;
+      
+      if (!isEmailTemplateName(name) || !isSupportedLanguage(locale)) {
+        return res.status(404).json({ message: 'Email template not found' });
+      }
+      
+      const template = await resetEmailTemplate(name, locale);
+      
+      res.status(200).json(template);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to reset email template' });
+    }
+  });
+
+  app.post('/api/admin/unban-user', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
     try {
       const { userId } = req.body;
       
@@ -789,11 +2333,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Room management routes
-  app.delete('/api/chat-rooms/:roomId', async (req, res) => {
+  app.delete('/api/chat-rooms/:roomId', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const roomId = parseInt(req.params.roomId);
       
+      if (!(await hasRoomRole(roomId, req.user!, ['admin']))) {
+        return res.status(403).json({ message: 'Not authorized to delete this room' });
+      }
+      
       await storage.deleteChatRoom(roomId);
+      publish({ type: 'room_deleted', roomId });
       
       res.status(204).send();
     } catch (error) {
@@ -801,25 +2350,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/chat-rooms/:roomId', async (req, res) => {
+  app.patch('/api/chat-rooms/:roomId', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const roomId = parseInt(req.params.roomId);
-      const updates = req.body;
+      
+      if (!(await hasRoomRole(roomId, req.user!, ['admin']))) {
+        return res.status(403).json({ message: 'Not authorized to update this room' });
+      }
+      
+      const updates = updateChatRoomSchema.parse(req.body);
       
       const updatedRoom = await storage.updateChatRoom(roomId, updates);
       
       if (!updatedRoom) {
         return res.status(404).json({ message: 'Room not found' });
       }
+      if (updatedRoom.isPrivate) {
+        publish({ type: 'room_made_private', roomId });
+      }
       
       res.status(200).json(updatedRoom);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid room data', errors: error.errors });
+      }
       res.status(500).json({ message: 'Failed to update room' });
     }
   });
 
   // Room member role management
-  app.patch('/api/room-members/:roomId/:userId/role', async (req, res) => {
+  app.patch('/api/room-members/:roomId/:userId/role', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const roomId = parseInt(req.params.roomId);
       const userId = parseInt(req.params.userId);
@@ -829,6 +2389,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Role is required' });
       }
       
+      if (!(await hasRoomRole(roomId, req.user!, ['admin']))) {
+        return res.status(403).json({ message: 'Not authorized to change roles in this room' });
+      }
+      
       await storage.updateRoomMemberRole(roomId, userId, role);
       
       res.status(200).json({ message: 'Role updated successfully' });
@@ -837,7 +2401,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/room-members/:roomId/:userId/role', async (req, res) => {
+  app.get('/api/room-members/:roomId/:userId/role', authMiddleware, async (req: AuthRequest, res) => {
     try {
       const roomId = parseInt(req.params.roomId);
       const userId = parseInt(req.params.userId);
@@ -855,7 +2419,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File type detection route
-  app.post('/api/detect-file-type', upload.single('file'), async (req: MulterRequest, res) => {
+  app.post('/api/detect-file-type', authMiddleware, upload.single('file'), async (req: MulterRequest, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: 'No file uploaded' });
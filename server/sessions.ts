@@ -0,0 +1,24 @@
+import { EventEmitter } from 'events';
+import { storage } from './storage';
+
+export interface SessionRevocation {
+  userId: number;
+  // Set when a single session was revoked rather than all of them
+  token?: string;
+  // Session left signed in, e.g. the one that just changed the password
+  exceptToken?: string;
+}
+
+// Emits "revoked" whenever login tokens are invalidated so long-lived
+// connections (WebSockets) authenticated with them can be closed right away
+export const sessionEvents = new EventEmitter();
+
+export async function revokeAllSessions(userId: number, exceptToken?: string): Promise<void> {
+  await storage.deleteUserTokensForUser(userId, exceptToken);
+  sessionEvents.emit('revoked', { userId, exceptToken } satisfies SessionRevocation);
+}
+
+export async function revokeSession(userId: number, token: string): Promise<void> {
+  await storage.deleteUserToken(token);
+  sessionEvents.emit('revoked', { userId, token } satisfies SessionRevocation);
+}
@@ -0,0 +1,256 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestStorage } from './test-db';
+import { MemStorage, type IStorage } from './storage';
+
+async function createUser(storage: IStorage, username: string) {
+  return storage.createUser({ username, password: '-', displayName: username, email: `${username}@example.com` });
+}
+
+test('getConversations returns the latest message per peer', async () => {
+  const storage = await createTestStorage();
+  const [alice, bob, carol] = await Promise.all(['alice', 'bob', 'carol'].map(name => createUser(storage, name)));
+
+  await storage.createMessage({ senderId: alice.id, receiverId: bob.id, content: 'hi bob' });
+  await storage.createMessage({ senderId: bob.id, receiverId: alice.id, content: 'hi alice' });
+  await storage.createMessage({ senderId: carol.id, receiverId: alice.id, content: 'hello' });
+  await storage.createMessage({ senderId: bob.id, receiverId: carol.id, content: 'not for alice' });
+
+  const conversations = await storage.getConversations(alice.id);
+  assert.deepEqual(
+    conversations.map(conversation => [conversation.peer.id, conversation.lastMessage.content, conversation.unreadCount]),
+    [[carol.id, 'hello', 1], [bob.id, 'hi alice', 1]]
+  );
+});
+
+test('a verification code is used up after too many wrong attempts', async () => {
+  const storage = await createTestStorage();
+  const expiresAt = new Date(Date.now() + 60_000);
+  await storage.createVerificationCode({ email: 'a@example.com', code: '123456', type: 'password_reset', expiresAt });
+  await storage.createVerificationCode({ email: 'b@example.com', code: '654321', type: 'password_reset', expiresAt });
+
+  await storage.recordFailedVerificationAttempt('a@example.com', 'password_reset', 3);
+  await storage.recordFailedVerificationAttempt('a@example.com', 'password_reset', 3);
+  assert.ok(await storage.getVerificationCode('a@example.com', '123456', 'password_reset'));
+
+  await storage.recordFailedVerificationAttempt('a@example.com', 'password_reset', 3);
+  assert.equal(await storage.getVerificationCode('a@example.com', '123456', 'password_reset'), undefined);
+  assert.ok(await storage.getVerificationCode('b@example.com', '654321', 'password_reset'));
+});
+
+test('accounts scheduled for deletion are left out of lists', async () => {
+  const storage = await createTestStorage();
+  const [alice, bob] = await Promise.all(['alice', 'bob'].map(name => createUser(storage, name)));
+  const room = await storage.createChatRoom({ name: 'general', description: '', createdBy: bob.id, isPrivate: false });
+  await storage.addUserToRoom({ roomId: room.id, userId: alice.id });
+  await storage.createMessage({ senderId: alice.id, receiverId: bob.id, content: 'bye' });
+
+  await storage.updateUserProfile(alice.id, { deletionScheduledAt: new Date(Date.now() + 60_000) });
+
+  assert.deepEqual((await storage.getRoomMembers(room.id)).map(user => user.id), [bob.id]);
+  assert.deepEqual(await storage.searchUsersByUsername('alice'), []);
+  assert.deepEqual(await storage.getConversations(bob.id), []);
+});
+
+test('joining a room twice keeps one membership', async () => {
+  const storage = await createTestStorage();
+  const [alice, bob] = await Promise.all(['alice', 'bob'].map(name => createUser(storage, name)));
+  const room = await storage.createChatRoom({ name: 'general', description: '', createdBy: alice.id, isPrivate: false });
+
+  const first = await storage.addUserToRoom({ roomId: room.id, userId: bob.id });
+  const second = await storage.addUserToRoom({ roomId: room.id, userId: bob.id });
+
+  assert.equal(second.id, first.id);
+  assert.deepEqual((await storage.getRoomMembers(room.id)).map(user => user.id), [alice.id, bob.id]);
+});
+
+test('a recovery code can only be used once, even concurrently', async () => {
+  const storage = await createTestStorage();
+  const alice = await createUser(storage, 'alice');
+  await storage.updateUserProfile(alice.id, { totpRecoveryCodes: ['first', 'second'] });
+
+  const results = await Promise.all([
+    storage.consumeRecoveryCode(alice.id, 'first'),
+    storage.consumeRecoveryCode(alice.id, 'first')
+  ]);
+  assert.deepEqual(results.sort(), [false, true]);
+  assert.deepEqual((await storage.getUser(alice.id))!.totpRecoveryCodes, ['second']);
+  assert.equal(await storage.consumeRecoveryCode(alice.id, 'unknown'), false);
+});
+
+test('a TOTP step is only accepted once, even concurrently', async () => {
+  const storage = await createTestStorage();
+  const alice = await createUser(storage, 'alice');
+
+  const results = await Promise.all([storage.useTotpStep(alice.id, 100), storage.useTotpStep(alice.id, 100)]);
+  assert.deepEqual(results.sort(), [false, true]);
+  assert.equal(await storage.useTotpStep(alice.id, 99), false);
+  assert.equal(await storage.useTotpStep(alice.id, 101), true);
+});
+
+test('a login challenge is discarded after too many wrong codes and completes once', async () => {
+  const storage = await createTestStorage();
+  const alice = await createUser(storage, 'alice');
+  const expiresAt = new Date(Date.now() + 60_000);
+  await storage.createLoginChallenge({ token: 'wrong', userId: alice.id, expiresAt });
+  await storage.createLoginChallenge({ token: 'right', userId: alice.id, expiresAt });
+  await storage.createLoginChallenge({ token: 'old', userId: alice.id, expiresAt: new Date(Date.now() - 1000) });
+
+  await storage.recordFailedLoginChallengeAttempt('wrong', 2);
+  assert.equal((await storage.getLoginChallenge('wrong'))?.attempts, 1);
+  await storage.recordFailedLoginChallengeAttempt('wrong', 2);
+  assert.equal(await storage.getLoginChallenge('wrong'), undefined);
+
+  assert.equal(await storage.getLoginChallenge('old'), undefined);
+  const results = await Promise.all([storage.deleteLoginChallenge('right'), storage.deleteLoginChallenge('right')]);
+  assert.deepEqual(results.sort(), [false, true]);
+});
+
+test('expired and abandoned data exports are found for the sweep', async () => {
+  const storage = await createTestStorage();
+  const alice = await createUser(storage, 'alice');
+  const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+  for (const id of ['building', 'abandoned', 'ready', 'expired']) {
+    await storage.createDataExport({ id, userId: alice.id });
+  }
+  await storage.updateDataExport('ready', { status: 'ready', completedAt: new Date(), expiresAt: new Date(Date.now() + 60_000) });
+  await storage.updateDataExport('expired', { status: 'ready', completedAt: hourAgo, expiresAt: new Date(Date.now() - 1000) });
+
+  assert.deepEqual((await storage.getExpiredDataExports(hourAgo)).map(item => item.id), ['expired']);
+  assert.deepEqual(
+    (await storage.getExpiredDataExports(new Date(Date.now() + 1000))).map(item => item.id).sort(),
+    ['abandoned', 'building', 'expired']
+  );
+  assert.equal((await storage.getDataExportsForUser(alice.id)).length, 4);
+
+  await storage.deleteUser(alice.id);
+  assert.deepEqual(await storage.getDataExportsForUser(alice.id), []);
+});
+
+test('wrong 2FA codes lock the account once they reach the limit', async () => {
+  const storage = await createTestStorage();
+  const alice = await createUser(storage, 'alice');
+  const lockUntil = new Date(Date.now() + 60_000);
+
+  await Promise.all([1, 2].map(() => storage.recordFailedSecondFactor(alice.id, 3, lockUntil)));
+  let user = (await storage.getUser(alice.id))!;
+  assert.equal(user.totpFailedAttempts, 2);
+  assert.equal(user.totpLockedUntil, null);
+
+  await storage.recordFailedSecondFactor(alice.id, 3, lockUntil);
+  user = (await storage.getUser(alice.id))!;
+  assert.equal(user.totpFailedAttempts, 0);
+  assert.equal(user.totpLockedUntil?.getTime(), lockUntil.getTime());
+});
+
+for (const [name, create] of [['memory', async () => new MemStorage()], ['Postgres', createTestStorage]] as const) {
+  test(`deleting an unread message keeps it unread but off the unread count (${name})`, async () => {
+    const storage: IStorage = await create();
+    const [alice, bob] = await Promise.all(['alice', 'bob'].map(username => createUser(storage, username)));
+    const deleted = await storage.createMessage({ senderId: alice.id, receiverId: bob.id, content: 'oops' });
+    const kept = await storage.createMessage({ senderId: alice.id, receiverId: bob.id, content: 'hi' });
+
+    const tombstone = await storage.deleteMessage(deleted.id, alice.id);
+    assert.equal(tombstone?.read, false);
+    assert.equal(tombstone?.content, '');
+    assert.equal(await storage.getUnreadMessageCount(bob.id), 1);
+    assert.deepEqual((await storage.getUnreadMessagesSince(bob.id, new Date(0))).map(message => message.id), [kept.id]);
+
+    assert.equal(await storage.markMessagesAsRead(bob.id, alice.id, kept.id), kept.id);
+    assert.equal(await storage.getUnreadMessageCount(bob.id), 0);
+    assert.equal((await storage.getConversations(bob.id))[0].unreadCount, 0);
+    assert.deepEqual((await storage.getMessageEdits('direct', deleted.id)).map(edit => edit.content), ['oops']);
+  });
+}
+
+test('resetting presence keeps users still connected to other nodes online', async () => {
+  const storage = await createTestStorage();
+  const [alice, bob, carol] = await Promise.all(['alice', 'bob', 'carol'].map(name => createUser(storage, name)));
+  await Promise.all([alice, bob, carol].map(user => storage.updateUserOnlineStatus(user.id, true)));
+
+  await storage.resetOnlineStatus([bob.id]);
+  const online = await Promise.all([alice, bob, carol].map(async user => (await storage.getUser(user.id))!.isOnline));
+  assert.deepEqual(online, [false, true, false]);
+
+  await storage.resetOnlineStatus();
+  assert.equal((await storage.getUser(bob.id))!.isOnline, false);
+});
+
+for (const [name, create] of [['memory', async () => new MemStorage()], ['Postgres', createTestStorage]] as const) {
+  test(`a user is due one digest per period (${name})`, async () => {
+    const storage: IStorage = await create();
+    const alice = await createUser(storage, 'alice');
+    const now = Date.now();
+    await storage.updateUserProfile(alice.id, { emailVerified: true, isOnline: false, lastSeen: new Date(now - 2 * 60 * 60 * 1000) });
+
+    const offlineSince = new Date(now - 60 * 60 * 1000);
+    const lastDigestBefore = new Date(now - 24 * 60 * 60 * 1000);
+    assert.deepEqual((await storage.getUsersDueForDigest(offlineSince, lastDigestBefore)).map(user => user.id), [alice.id]);
+
+    await storage.updateUserProfile(alice.id, { lastDigestAt: new Date(now - 15 * 60 * 1000) });
+    assert.deepEqual(await storage.getUsersDueForDigest(offlineSince, lastDigestBefore), []);
+
+    await storage.updateUserProfile(alice.id, { lastDigestAt: new Date(now - 25 * 60 * 60 * 1000) });
+    assert.equal((await storage.getUsersDueForDigest(offlineSince, lastDigestBefore)).length, 1);
+  });
+}
+
+for (const [name, create] of [['memory', async () => new MemStorage()], ['Postgres', createTestStorage]] as const) {
+  test(`editing and deleting a room message keeps its earlier versions (${name})`, async () => {
+    const storage: IStorage = await create();
+    const [alice, moderator] = await Promise.all(['alice', 'moderator'].map(username => createUser(storage, username)));
+    const room = await storage.createChatRoom({ name: 'edits', description: '', createdBy: alice.id, isPrivate: false });
+    const message = await storage.createChatMessage({ roomId: room.id, userId: alice.id, content: 'helo' });
+
+    const edited = await storage.editChatMessage(message.id, 'hello', alice.id);
+    assert.equal(edited?.content, 'hello');
+    assert.ok(edited?.editedAt);
+
+    const tombstone = await storage.deleteChatMessage(message.id, moderator.id);
+    assert.equal(tombstone?.content, '');
+    assert.equal(tombstone?.deletedBy, moderator.id);
+    assert.ok(tombstone?.deletedAt);
+
+    const edits = await storage.getMessageEdits('room', message.id);
+    assert.deepEqual(edits.map(edit => [edit.content, edit.editedBy]), [['helo', alice.id], ['hello', moderator.id]]);
+  });
+}
+
+// The same calls must give the same results whichever backend is configured
+test('the memory and Postgres backends agree on users, rooms, messages and likes', async () => {
+  const scenario = async (storage: IStorage) => {
+    const [alice, bob, carol] = await Promise.all(['alice', 'bob', 'carol'].map(name => createUser(storage, name)));
+    await storage.updateUserProfile(alice.id, { bio: 'hello' });
+
+    const room = await storage.createChatRoom({ name: 'parity', description: '', createdBy: alice.id, isPrivate: false });
+    await storage.addUserToRoom({ roomId: room.id, userId: bob.id });
+    await storage.addUserToRoom({ roomId: room.id, userId: carol.id });
+    await storage.removeUserFromRoom(room.id, carol.id);
+    await storage.createChatMessage({ roomId: room.id, userId: bob.id, content: 'in the room' });
+
+    const messages = [];
+    for (const content of ['one', 'two', 'three']) {
+      messages.push(await storage.createMessage({ senderId: alice.id, receiverId: bob.id, content }));
+    }
+    await storage.markMessagesAsRead(bob.id, alice.id, messages[1].id);
+
+    await storage.createLike({ likerId: alice.id, likedId: bob.id });
+    await storage.createLike({ likerId: bob.id, likedId: alice.id });
+    await storage.createLike({ likerId: carol.id, likedId: alice.id });
+
+    return {
+      profile: (await storage.getUserByEmail('alice@example.com'))?.bio,
+      byUsername: (await storage.getUserByUsername('bob'))?.id === bob.id,
+      members: (await storage.getRoomMembers(room.id)).map(user => user.username).sort(),
+      roles: await Promise.all([alice, bob, carol].map(user => storage.getRoomMemberRole(room.id, user.id))),
+      roomMessages: (await storage.getChatMessagesByRoomId(room.id)).map(message => message.content),
+      page: (await storage.getMessagesBetweenUsers(bob.id, alice.id, { before: messages[2].id, limit: 1 })).map(message => message.content),
+      read: (await storage.getMessagesBetweenUsers(alice.id, bob.id)).map(message => message.read),
+      unread: await storage.getUnreadMessageCount(bob.id),
+      matches: (await storage.getMatches(alice.id)).map(user => user.username),
+      likesGiven: (await storage.getLikesByUser(carol.id)).length
+    };
+  };
+
+  assert.deepEqual(await scenario(await createTestStorage()), await scenario(new MemStorage()));
+});
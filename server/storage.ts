@@ -8,14 +8,63 @@ import {
   likes, type Like, type InsertLike,
   adminLogs, type AdminLog, type InsertAdminLog,
   verificationCodes, type VerificationCode, type InsertVerificationCode,
+  loginChallenges, type LoginChallenge, type InsertLoginChallenge,
+  dataExports, type DataExport, type InsertDataExport,
   userTokens, type UserToken, type InsertUserToken,
   templates, type Template, type InsertTemplate,
-  writingTemplates, type WritingTemplate, type InsertWritingTemplate
+  writingTemplates, type WritingTemplate, type InsertWritingTemplate,
+  messageEdits, type MessageEdit, type MessageType,
+  messageReactions, type MessageReaction, type InsertMessageReaction
 } from "@shared/schema";
-import { db } from './db';
-import { eq, and, or, desc } from 'drizzle-orm';
+import { createDb, type Database } from './db';
+import { addToIndex, removeFromIndex } from './index-map';
+import { eq, ne, and, or, desc, asc, gt, lt, lte, ilike, inArray, notInArray, isNull, sql, count, max } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
 import crypto from 'crypto';
 
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+
+// Message id cursors: `before` pages back through older history, `after` fetches
+// newer messages. Pages are always returned oldest first.
+export interface MessagePage {
+  before?: number;
+  after?: number;
+  limit?: number;
+}
+
+// One entry of a user's DM inbox
+export interface ConversationSummary {
+  peer: User;
+  lastMessage: Message;
+  unreadCount: number; // messages from the peer the user hasn't read
+}
+
+// Everything stored about a single user, gathered for personal data exports
+export interface UserDataSnapshot {
+  user: User;
+  messagesSent: Message[];
+  messagesReceived: Message[];
+  chatMessages: ChatMessage[];
+  roomMemberships: RoomMember[];
+  rooms: ChatRoom[]; // rooms the user is a member of or created
+  mediaItems: MediaItem[];
+  likesGiven: Like[];
+  likesReceived: Like[];
+  matches: User[];
+  adminLogs: AdminLog[]; // actions taken by the user or against them
+  verificationCodes: VerificationCode[];
+  tokens: UserToken[];
+}
+
+// Device details recorded with a login token
+export interface SessionDetails {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+// lastUsedAt is refreshed at most this often to avoid a write per request
+const TOKEN_TOUCH_INTERVAL_MS = 60 * 1000;
+
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
@@ -23,17 +72,42 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUserProfile(id: number, data: Partial<User>): Promise<User | undefined>;
+  // Removes a 2FA recovery code hash; false when it was not there, e.g. already used
+  consumeRecoveryCode(userId: number, hash: string): Promise<boolean>;
+  // Records the TOTP step a code was used for; false when that step or a later one already was
+  useTotpStep(userId: number, step: number): Promise<boolean>;
+  // Counts a wrong 2FA code; reaching maxAttempts locks the account until lockUntil and starts the count over
+  recordFailedSecondFactor(userId: number, maxAttempts: number, lockUntil: Date): Promise<void>;
   getAllUsers(): Promise<User[]>;
+  // Search and room member lists leave out accounts scheduled for deletion
   searchUsersByUsername(query: string): Promise<User[]>;
   updateUserOnlineStatus(userId: number, isOnline: boolean): Promise<void>;
+  // Nobody is connected right after a restart, except, in a cluster, the
+  // given users still connected to other nodes
+  resetOnlineStatus(exceptUserIds?: number[]): Promise<void>;
   banUser(userId: number, bannedBy: number, reason: string): Promise<void>;
   unbanUser(userId: number): Promise<void>;
+  getUsersDueForDeletion(now: Date): Promise<User[]>;
+  // Users offline since offlineSince who have not had a digest since lastDigestBefore
+  getUsersDueForDigest(offlineSince: Date, lastDigestBefore: Date): Promise<User[]>;
+  deleteUser(userId: number): Promise<void>;
+  getUserDataSnapshot(userId: number): Promise<UserDataSnapshot | undefined>;
   
   // Message operations
   createMessage(message: InsertMessage): Promise<Message>;
-  getMessagesBetweenUsers(user1Id: number, user2Id: number): Promise<Message[]>;
-  markMessagesAsRead(userId: number, otherUserId: number): Promise<void>;
+  getMessagesBetweenUsers(user1Id: number, user2Id: number, page?: MessagePage): Promise<Message[]>;
+  // Both mark the user's incoming messages from otherUserId up to upToId and
+  // return the highest id that changed, or null if none did
+  markMessagesAsDelivered(userId: number, otherUserId: number, upToId: number): Promise<number | null>;
+  markMessagesAsRead(userId: number, otherUserId: number, upToId: number): Promise<number | null>;
   getUnreadMessageCount(userId: number): Promise<number>;
+  // Peers whose accounts are scheduled for deletion are left out
+  getConversations(userId: number): Promise<ConversationSummary[]>;
+  getUnreadMessagesSince(userId: number, since: Date): Promise<Message[]>;
+  getMessageById(id: number): Promise<Message | undefined>;
+  getMessageByClientId(senderId: number, clientId: string): Promise<Message | undefined>;
+  editMessage(id: number, content: string, editedBy: number): Promise<Message | undefined>;
+  deleteMessage(id: number, deletedBy: number): Promise<Message | undefined>;
   
   // Chat room operations
   createChatRoom(room: InsertChatRoom): Promise<ChatRoom>;
@@ -45,7 +119,20 @@ export interface IStorage {
   
   // Chat message operations
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
-  getChatMessagesByRoomId(roomId: number): Promise<ChatMessage[]>;
+  getChatMessagesByRoomId(roomId: number, page?: MessagePage): Promise<ChatMessage[]>;
+  getRoomMessagesSince(userId: number, since: Date): Promise<ChatMessage[]>;
+  getChatMessageById(id: number): Promise<ChatMessage | undefined>;
+  getChatMessageByClientId(userId: number, clientId: string): Promise<ChatMessage | undefined>;
+  editChatMessage(id: number, content: string, editedBy: number): Promise<ChatMessage | undefined>;
+  deleteChatMessage(id: number, deletedBy: number): Promise<ChatMessage | undefined>;
+
+  // Edit history: previous versions of a message, oldest first
+  getMessageEdits(messageType: MessageType, messageId: number): Promise<MessageEdit[]>;
+
+  // Reaction operations; adding a reaction the user already made does nothing
+  addReaction(reaction: InsertMessageReaction): Promise<void>;
+  removeReaction(reaction: InsertMessageReaction): Promise<void>;
+  getReactions(messageType: MessageType, messageIds: number[]): Promise<MessageReaction[]>;
   
   // Room member operations
   addUserToRoom(member: InsertRoomMember): Promise<RoomMember>;
@@ -53,6 +140,8 @@ export interface IStorage {
   getRoomMembers(roomId: number): Promise<User[]>;
   updateRoomMemberRole(roomId: number, userId: number, role: string): Promise<void>;
   getRoomMemberRole(roomId: number, userId: number): Promise<string | undefined>;
+  // Rooms the user has joined, unlike getChatRoomsForUser which adds public rooms
+  getMemberRoomIds(userId: number): Promise<number[]>;
   
   // Media operations
   createMediaItem(item: InsertMediaItem): Promise<MediaItem>;
@@ -74,18 +163,88 @@ export interface IStorage {
   createVerificationCode(code: InsertVerificationCode): Promise<VerificationCode>;
   getVerificationCode(email: string, code: string, type: string): Promise<VerificationCode | undefined>;
   markVerificationCodeAsUsed(id: number): Promise<void>;
+  // Counts a wrong code against the email's active codes of that type and uses
+  // up those that reach maxAttempts
+  recordFailedVerificationAttempt(email: string, type: string, maxAttempts: number): Promise<void>;
   cleanupExpiredCodes(): Promise<void>;
 
+  // Login challenge operations
+  createLoginChallenge(challenge: InsertLoginChallenge): Promise<LoginChallenge>;
+  // Expired challenges are not returned
+  getLoginChallenge(token: string): Promise<LoginChallenge | undefined>;
+  // Counts a wrong code and deletes the challenge once it reaches maxAttempts
+  recordFailedLoginChallengeAttempt(token: string, maxAttempts: number): Promise<void>;
+  // False when the challenge was already gone, e.g. used by a concurrent request
+  deleteLoginChallenge(token: string): Promise<boolean>;
+  deleteExpiredLoginChallenges(): Promise<void>;
+
+  // Data export operations
+  createDataExport(dataExport: InsertDataExport): Promise<DataExport>;
+  updateDataExport(id: string, changes: Partial<DataExport>): Promise<DataExport | undefined>;
+  getDataExport(id: string): Promise<DataExport | undefined>;
+  // Newest first
+  getDataExportsForUser(userId: number): Promise<DataExport[]>;
+  // Exports past expiresAt, and pending ones created before staleBefore whose
+  // build never finished
+  getExpiredDataExports(staleBefore: Date): Promise<DataExport[]>;
+  deleteDataExport(id: string): Promise<void>;
+
   // Token operations
-  createUserToken(userId: number): Promise<string>;
+  createUserToken(userId: number, details?: SessionDetails): Promise<string>;
   getUserByToken(token: string): Promise<User | null>;
+  getUserTokensForUser(userId: number): Promise<UserToken[]>;
+  getUserTokenById(id: number): Promise<UserToken | undefined>;
+  updateUserTokenName(id: number, name: string | null): Promise<UserToken | undefined>;
+  touchUserToken(token: string): Promise<void>;
   deleteUserToken(token: string): Promise<void>;
+  deleteUserTokensForUser(userId: number, exceptToken?: string): Promise<void>;
 
   // Template operations
   getTemplates(): Promise<Template[]>;
+  getTemplate(name: string, type: string, locale: string): Promise<Template | undefined>;
+  upsertTemplate(template: InsertTemplate): Promise<Template>;
+  deleteTemplate(name: string, type: string, locale: string): Promise<void>;
   getWritingTemplates(): Promise<WritingTemplate[]>;
 }
 
+function reactionKey(messageType: MessageType, messageId: number): string {
+  return `${messageType}:${messageId}`;
+}
+
+function conversationKey(user1Id: number, user2Id: number): string {
+  return user1Id < user2Id ? `${user1Id}:${user2Id}` : `${user2Id}:${user1Id}`;
+}
+
+function clientMessageKey(messageType: MessageType, senderId: number, clientId: string): string {
+  return `${messageType}:${senderId}:${clientId}`;
+}
+
+// First index in the ascending id list whose id is greater than (or, with
+// inclusive set, equal to) the given id
+function findIdIndex(ids: number[], id: number, inclusive: boolean): number {
+  let low = 0;
+  let high = ids.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ids[mid] < id || (!inclusive && ids[mid] === id)) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function pageIds(ids: number[], { before, after, limit = DEFAULT_MESSAGE_PAGE_SIZE }: MessagePage): number[] {
+  const start = after !== undefined ? findIdIndex(ids, after, false) : 0;
+  const end = before !== undefined ? findIdIndex(ids, before, true) : ids.length;
+  if (start >= end) return [];
+
+  return after !== undefined
+    ? ids.slice(start, Math.min(start + limit, end))
+    : ids.slice(Math.max(start, end - limit), end);
+}
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private messages: Map<number, Message>;
@@ -96,7 +255,32 @@ export class MemStorage implements IStorage {
   private likes: Map<number, Like>;
   private adminLogs: Map<number, AdminLog>;
   private verificationCodes: Map<number, VerificationCode>;
+  private loginChallenges: Map<string, LoginChallenge>;
+  private dataExports: Map<string, DataExport>;
   private userTokens: Map<string, UserToken>;
+  private templates: Map<number, Template>;
+  private writingTemplates: Map<number, WritingTemplate>;
+  private messageEdits: Map<number, MessageEdit>;
+  // Reactions per message, keyed by "messageType:messageId"
+  private messageReactions: Map<string, MessageReaction[]>;
+  // Message ids in ascending order per conversation and per room, for paging
+  private conversationMessageIds: Map<string, number[]>;
+  private roomMessageIds: Map<number, number[]>;
+  // Everyone a user has exchanged DMs with, and unread counts keyed by "receiverId:senderId"
+  private conversationPeers: Map<number, Set<number>>;
+  private unreadCounts: Map<string, number>;
+  // Message ids by the client id their sender gave them, keyed by "messageType:senderId:clientId"
+  private clientMessageIds: Map<string, number>;
+  // User ids by username and by email, kept current by saveUser
+  private userIdsByUsername: Map<string, number>;
+  private userIdsByEmail: Map<string, number>;
+  // Membership ids by room and user, and the rooms each user has joined
+  private membershipIds: Map<number, Map<number, number>>;
+  private roomIdsByUser: Map<number, Set<number>>;
+  // Like ids keyed by "likerId:likedId", plus who each user liked and was liked by
+  private likeIds: Map<string, number>;
+  private likedUserIds: Map<number, Set<number>>;
+  private likerUserIds: Map<number, Set<number>>;
   
   currentUserId: number;
   currentMessageId: number;
@@ -107,6 +291,10 @@ export class MemStorage implements IStorage {
   currentLikeId: number;
   currentAdminLogId: number;
   currentVerificationCodeId: number;
+  currentUserTokenId: number;
+  currentTemplateId: number;
+  currentMessageEditId: number;
+  currentMessageReactionId: number;
 
   constructor() {
     this.users = new Map();
@@ -118,7 +306,25 @@ export class MemStorage implements IStorage {
     this.likes = new Map();
     this.adminLogs = new Map();
     this.verificationCodes = new Map();
+    this.loginChallenges = new Map();
+    this.dataExports = new Map();
     this.userTokens = new Map();
+    this.templates = new Map();
+    this.writingTemplates = new Map();
+    this.messageEdits = new Map();
+    this.messageReactions = new Map();
+    this.conversationMessageIds = new Map();
+    this.roomMessageIds = new Map();
+    this.conversationPeers = new Map();
+    this.unreadCounts = new Map();
+    this.clientMessageIds = new Map();
+    this.userIdsByUsername = new Map();
+    this.userIdsByEmail = new Map();
+    this.membershipIds = new Map();
+    this.roomIdsByUser = new Map();
+    this.likeIds = new Map();
+    this.likedUserIds = new Map();
+    this.likerUserIds = new Map();
     
     this.currentUserId = 1;
     this.currentMessageId = 1;
@@ -129,6 +335,10 @@ export class MemStorage implements IStorage {
     this.currentLikeId = 1;
     this.currentAdminLogId = 1;
     this.currentVerificationCodeId = 1;
+    this.currentUserTokenId = 1;
+    this.currentTemplateId = 1;
+    this.currentMessageEditId = 1;
+    this.currentMessageReactionId = 1;
     
     // Initialize with sample data
     this.initializeData();
@@ -164,9 +374,22 @@ export class MemStorage implements IStorage {
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
+    const id = this.userIdsByUsername.get(username);
+    return id !== undefined ? this.users.get(id) : undefined;
+  }
+
+  // Every write to users goes through here so the lookup indexes stay in step
+  private saveUser(user: User): void {
+    const previous = this.users.get(user.id);
+    if (previous && previous.username !== user.username) {
+      this.userIdsByUsername.delete(previous.username);
+    }
+    if (previous && previous.email !== user.email) {
+      this.userIdsByEmail.delete(previous.email);
+    }
+    this.users.set(user.id, user);
+    this.userIdsByUsername.set(user.username, user.id);
+    this.userIdsByEmail.set(user.email, user.id);
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
@@ -184,13 +407,25 @@ export class MemStorage implements IStorage {
       role: "user",
       isOnline: false,
       lastSeen: now,
+      invisible: false,
       isBanned: false,
       bannedBy: null,
       bannedAt: null,
       banReason: null,
+      language: insertUser.language || "en",
+      deletionScheduledAt: null,
+      totpSecret: null,
+      totpEnabled: false,
+      totpRecoveryCodes: null,
+      totpLastUsedStep: null,
+      totpFailedAttempts: 0,
+      totpLockedUntil: null,
+      emailNotifications: true,
+      readReceipts: true,
+      lastDigestAt: null,
       createdAt: now 
     };
-    this.users.set(id, user);
+    this.saveUser(user);
     return user;
   }
   
@@ -201,53 +436,270 @@ export class MemStorage implements IStorage {
     }
     
     const updatedUser = { ...user, ...data };
-    this.users.set(id, updatedUser);
+    this.saveUser(updatedUser);
     return updatedUser;
   }
   
+  async consumeRecoveryCode(userId: number, hash: string): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user?.totpRecoveryCodes?.includes(hash)) {
+      return false;
+    }
+    
+    this.saveUser({ ...user, totpRecoveryCodes: user.totpRecoveryCodes.filter(stored => stored !== hash) });
+    return true;
+  }
+  
+  async useTotpStep(userId: number, step: number): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user || (user.totpLastUsedStep !== null && user.totpLastUsedStep >= step)) {
+      return false;
+    }
+    
+    this.saveUser({ ...user, totpLastUsedStep: step });
+    return true;
+  }
+  
+  async recordFailedSecondFactor(userId: number, maxAttempts: number, lockUntil: Date): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user) return;
+    
+    const failedAttempts = user.totpFailedAttempts + 1;
+    this.saveUser(failedAttempts >= maxAttempts
+      ? { ...user, totpFailedAttempts: 0, totpLockedUntil: lockUntil }
+      : { ...user, totpFailedAttempts: failedAttempts });
+  }
+  
   async getAllUsers(): Promise<User[]> {
     return Array.from(this.users.values());
   }
   
   // Message operations
   async createMessage(message: InsertMessage): Promise<Message> {
+    // Mirrors the unique (sender, client id) constraint of the database
+    if (message.clientId && this.clientMessageIds.has(clientMessageKey("direct", message.senderId, message.clientId))) {
+      throw new Error("Duplicate client message id");
+    }
     const id = this.currentMessageId++;
     const now = new Date();
     const newMessage: Message = { 
       ...message, 
       id, 
+      delivered: false,
       read: false, 
+      editedAt: null,
+      deletedAt: null,
       createdAt: now,
       mediaType: message.mediaType || "text",
-      mediaUrl: message.mediaUrl || ""
+      mediaUrl: message.mediaUrl || "",
+      replyToId: message.replyToId ?? null,
+      clientId: message.clientId ?? null
     };
     this.messages.set(id, newMessage);
+    if (newMessage.clientId) {
+      this.clientMessageIds.set(clientMessageKey("direct", newMessage.senderId, newMessage.clientId), id);
+    }
+
+    // Ids only grow, so appending keeps the index sorted
+    const key = conversationKey(newMessage.senderId, newMessage.receiverId);
+    const ids = this.conversationMessageIds.get(key) || [];
+    ids.push(id);
+    this.conversationMessageIds.set(key, ids);
+
+    addToIndex(this.conversationPeers, newMessage.senderId, newMessage.receiverId);
+    addToIndex(this.conversationPeers, newMessage.receiverId, newMessage.senderId);
+    const unreadKey = `${newMessage.receiverId}:${newMessage.senderId}`;
+    this.unreadCounts.set(unreadKey, (this.unreadCounts.get(unreadKey) || 0) + 1);
+
     return newMessage;
   }
+
+  async getMessagesBetweenUsers(user1Id: number, user2Id: number, page: MessagePage = {}): Promise<Message[]> {
+    const ids = this.conversationMessageIds.get(conversationKey(user1Id, user2Id)) || [];
+    return pageIds(ids, page).map(id => this.messages.get(id)!);
+  }
   
-  async getMessagesBetweenUsers(user1Id: number, user2Id: number): Promise<Message[]> {
-    return Array.from(this.messages.values()).filter(
-      (message) => 
-        (message.senderId === user1Id && message.receiverId === user2Id) ||
-        (message.senderId === user2Id && message.receiverId === user1Id)
-    ).sort((a, b) => {
-      if (!a.createdAt || !b.createdAt) return 0;
-      return a.createdAt.getTime() - b.createdAt.getTime();
-    });
+  async markMessagesAsDelivered(userId: number, otherUserId: number, upToId: number): Promise<number | null> {
+    let lastChangedId: number | null = null;
+    for (const id of this.conversationMessageIds.get(conversationKey(userId, otherUserId)) || []) {
+      if (id > upToId) break;
+      const message = this.messages.get(id)!;
+      if (message.receiverId === userId && !message.delivered) {
+        this.messages.set(id, { ...message, delivered: true });
+        lastChangedId = id;
+      }
+    }
+    return lastChangedId;
   }
   
-  async markMessagesAsRead(userId: number, otherUserId: number): Promise<void> {
-    for (const [id, message] of this.messages.entries()) {
-      if (message.receiverId === userId && message.senderId === otherUserId) {
-        this.messages.set(id, { ...message, read: true });
+  async markMessagesAsRead(userId: number, otherUserId: number, upToId: number): Promise<number | null> {
+    const unreadKey = `${userId}:${otherUserId}`;
+    if (!this.unreadCounts.get(unreadKey)) return null;
+
+    let lastChangedId: number | null = null;
+    let readCount = 0;
+    for (const id of this.conversationMessageIds.get(conversationKey(userId, otherUserId)) || []) {
+      if (id > upToId) break;
+      const message = this.messages.get(id)!;
+      if (message.receiverId === userId && !message.read) {
+        this.messages.set(id, { ...message, delivered: true, read: true });
+        lastChangedId = id;
+        // Deleted messages were already taken off the unread count
+        if (!message.deletedAt) {
+          readCount++;
+        }
       }
     }
+
+    const unread = this.unreadCounts.get(unreadKey)! - readCount;
+    if (unread > 0) {
+      this.unreadCounts.set(unreadKey, unread);
+    } else {
+      this.unreadCounts.delete(unreadKey);
+    }
+    return lastChangedId;
   }
   
   async getUnreadMessageCount(userId: number): Promise<number> {
-    return Array.from(this.messages.values()).filter(
-      (message) => message.receiverId === userId && !message.read
-    ).length;
+    let total = 0;
+    for (const peerId of this.conversationPeers.get(userId) || []) {
+      total += this.unreadCounts.get(`${userId}:${peerId}`) || 0;
+    }
+    return total;
+  }
+
+  async getConversations(userId: number): Promise<ConversationSummary[]> {
+    const conversations: ConversationSummary[] = [];
+    for (const peerId of this.conversationPeers.get(userId) || []) {
+      const peer = this.users.get(peerId);
+      const ids = this.conversationMessageIds.get(conversationKey(userId, peerId)) || [];
+      if (!peer || peer.deletionScheduledAt || ids.length === 0) continue;
+
+      conversations.push({
+        peer,
+        lastMessage: this.messages.get(ids[ids.length - 1])!,
+        unreadCount: this.unreadCounts.get(`${userId}:${peerId}`) || 0
+      });
+    }
+    return conversations.sort((a, b) => b.lastMessage.id - a.lastMessage.id);
+  }
+
+  async getUnreadMessagesSince(userId: number, since: Date): Promise<Message[]> {
+    const result: Message[] = [];
+    // Like getRoomMessagesSince, each conversation is read from its newest message back
+    for (const peerId of this.conversationPeers.get(userId) || []) {
+      const ids = this.conversationMessageIds.get(conversationKey(userId, peerId)) || [];
+      for (let i = ids.length - 1; i >= 0; i--) {
+        const message = this.messages.get(ids[i])!;
+        if (!message.createdAt || message.createdAt <= since) break;
+        if (message.receiverId === userId && !message.read && !message.deletedAt) {
+          result.push(message);
+        }
+      }
+    }
+    return result.sort((a, b) => a.id - b.id);
+  }
+
+  async getMessageById(id: number): Promise<Message | undefined> {
+    return this.messages.get(id);
+  }
+
+  async getMessageByClientId(senderId: number, clientId: string): Promise<Message | undefined> {
+    const id = this.clientMessageIds.get(clientMessageKey("direct", senderId, clientId));
+    return id !== undefined ? this.messages.get(id) : undefined;
+  }
+
+  async editMessage(id: number, content: string, editedBy: number): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+
+    this.addMessageEdit("direct", message, editedBy);
+    const updated: Message = { ...message, content, editedAt: new Date() };
+    this.messages.set(id, updated);
+    return updated;
+  }
+
+  async deleteMessage(id: number, deletedBy: number): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+
+    this.addMessageEdit("direct", message, deletedBy);
+    // A deleted message is taken off the unread count. Its read flag is kept, so
+    // the sender is not shown a receipt the recipient never produced.
+    if (!message.read && !message.deletedAt) {
+      const unreadKey = `${message.receiverId}:${message.senderId}`;
+      const unread = (this.unreadCounts.get(unreadKey) || 0) - 1;
+      if (unread > 0) {
+        this.unreadCounts.set(unreadKey, unread);
+      } else {
+        this.unreadCounts.delete(unreadKey);
+      }
+    }
+
+    const tombstone: Message = { ...message, content: "", mediaUrl: "", deletedAt: new Date() };
+    this.messages.set(id, tombstone);
+    this.messageReactions.delete(reactionKey("direct", id));
+    return tombstone;
+  }
+
+  // Keeps the content being replaced or removed, so moderators can see it later
+  private addMessageEdit(messageType: MessageType, message: Message | ChatMessage, editedBy: number) {
+    const id = this.currentMessageEditId++;
+    this.messageEdits.set(id, {
+      id,
+      messageType,
+      messageId: message.id,
+      content: message.content,
+      editedBy,
+      createdAt: new Date()
+    });
+  }
+
+  private deleteMessageEdits(messageType: MessageType, messageIds: Set<number>) {
+    for (const [id, edit] of this.messageEdits.entries()) {
+      if (edit.messageType === messageType && messageIds.has(edit.messageId)) {
+        this.messageEdits.delete(id);
+      }
+    }
+  }
+
+  async getMessageEdits(messageType: MessageType, messageId: number): Promise<MessageEdit[]> {
+    return Array.from(this.messageEdits.values()).filter(
+      edit => edit.messageType === messageType && edit.messageId === messageId
+    );
+  }
+
+  async addReaction(reaction: InsertMessageReaction): Promise<void> {
+    const key = reactionKey(reaction.messageType as MessageType, reaction.messageId);
+    const reactions = this.messageReactions.get(key) || [];
+    if (reactions.some(existing => existing.userId === reaction.userId && existing.emoji === reaction.emoji)) {
+      return;
+    }
+
+    reactions.push({ ...reaction, id: this.currentMessageReactionId++, createdAt: new Date() });
+    this.messageReactions.set(key, reactions);
+  }
+
+  async removeReaction(reaction: InsertMessageReaction): Promise<void> {
+    const key = reactionKey(reaction.messageType as MessageType, reaction.messageId);
+    const remaining = (this.messageReactions.get(key) || []).filter(
+      existing => existing.userId !== reaction.userId || existing.emoji !== reaction.emoji
+    );
+    if (remaining.length > 0) {
+      this.messageReactions.set(key, remaining);
+    } else {
+      this.messageReactions.delete(key);
+    }
+  }
+
+  async getReactions(messageType: MessageType, messageIds: number[]): Promise<MessageReaction[]> {
+    return messageIds.flatMap(messageId => this.messageReactions.get(reactionKey(messageType, messageId)) || []);
+  }
+
+  private deleteMessageReactions(messageType: MessageType, messageIds: Iterable<number>) {
+    for (const messageId of messageIds) {
+      this.messageReactions.delete(reactionKey(messageType, messageId));
+    }
   }
   
   // Chat room operations
@@ -280,40 +732,102 @@ export class MemStorage implements IStorage {
   }
   
   async getChatRoomsForUser(userId: number): Promise<ChatRoom[]> {
-    const userRoomIds = Array.from(this.roomMembers.values())
-      .filter(member => member.userId === userId)
-      .map(member => member.roomId);
+    const userRoomIds = this.roomIdsByUser.get(userId) || new Set<number>();
     
     return Array.from(this.chatRooms.values())
-      .filter(room => userRoomIds.includes(room.id) || !room.isPrivate);
+      .filter(room => userRoomIds.has(room.id) || !room.isPrivate);
   }
   
   // Chat message operations
   async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+    if (message.clientId && this.clientMessageIds.has(clientMessageKey("room", message.userId, message.clientId))) {
+      throw new Error("Duplicate client message id");
+    }
     const id = this.currentChatMessageId++;
     const now = new Date();
     const newMessage: ChatMessage = { 
       ...message, 
       id, 
+      editedAt: null,
+      deletedAt: null,
+      deletedBy: null,
       createdAt: now,
       mediaType: message.mediaType || "text",
-      mediaUrl: message.mediaUrl || ""
+      mediaUrl: message.mediaUrl || "",
+      replyToId: message.replyToId ?? null,
+      clientId: message.clientId ?? null
     };
     this.chatMessages.set(id, newMessage);
+    if (newMessage.clientId) {
+      this.clientMessageIds.set(clientMessageKey("room", newMessage.userId, newMessage.clientId), id);
+    }
+
+    const ids = this.roomMessageIds.get(newMessage.roomId) || [];
+    ids.push(id);
+    this.roomMessageIds.set(newMessage.roomId, ids);
+
     return newMessage;
   }
   
-  async getChatMessagesByRoomId(roomId: number): Promise<ChatMessage[]> {
-    return Array.from(this.chatMessages.values())
-      .filter(message => message.roomId === roomId)
-      .sort((a, b) => {
-        if (!a.createdAt || !b.createdAt) return 0;
-        return a.createdAt.getTime() - b.createdAt.getTime();
-      });
+  async getChatMessagesByRoomId(roomId: number, page: MessagePage = {}): Promise<ChatMessage[]> {
+    const ids = this.roomMessageIds.get(roomId) || [];
+    return pageIds(ids, page).map(id => this.chatMessages.get(id)!);
+  }
+
+  async getRoomMessagesSince(userId: number, since: Date): Promise<ChatMessage[]> {
+    const result: ChatMessage[] = [];
+    // Messages are created in id order, so each room is read from its newest message back
+    for (const roomId of this.roomIdsByUser.get(userId) || []) {
+      const ids = this.roomMessageIds.get(roomId) || [];
+      for (let i = ids.length - 1; i >= 0; i--) {
+        const message = this.chatMessages.get(ids[i])!;
+        if (!message.createdAt || message.createdAt <= since) break;
+        if (message.userId !== userId && !message.deletedAt) {
+          result.push(message);
+        }
+      }
+    }
+    return result.sort((a, b) => a.id - b.id);
+  }
+
+  async getChatMessageById(id: number): Promise<ChatMessage | undefined> {
+    return this.chatMessages.get(id);
+  }
+
+  async getChatMessageByClientId(userId: number, clientId: string): Promise<ChatMessage | undefined> {
+    const id = this.clientMessageIds.get(clientMessageKey("room", userId, clientId));
+    return id !== undefined ? this.chatMessages.get(id) : undefined;
+  }
+
+  async editChatMessage(id: number, content: string, editedBy: number): Promise<ChatMessage | undefined> {
+    const message = this.chatMessages.get(id);
+    if (!message) return undefined;
+
+    this.addMessageEdit("room", message, editedBy);
+    const updated: ChatMessage = { ...message, content, editedAt: new Date() };
+    this.chatMessages.set(id, updated);
+    return updated;
+  }
+
+  async deleteChatMessage(id: number, deletedBy: number): Promise<ChatMessage | undefined> {
+    const message = this.chatMessages.get(id);
+    if (!message) return undefined;
+
+    this.addMessageEdit("room", message, deletedBy);
+    const tombstone: ChatMessage = { ...message, content: "", mediaUrl: "", deletedAt: new Date(), deletedBy };
+    this.chatMessages.set(id, tombstone);
+    this.messageReactions.delete(reactionKey("room", id));
+    return tombstone;
   }
   
   // Room member operations
   async addUserToRoom(member: InsertRoomMember): Promise<RoomMember> {
+    // Joining twice keeps the existing membership
+    const existingId = this.membershipIds.get(member.roomId)?.get(member.userId);
+    if (existingId !== undefined) {
+      return this.roomMembers.get(existingId)!;
+    }
+    
     const id = this.currentRoomMemberId++;
     const now = new Date();
     const newMember: RoomMember = { 
@@ -324,25 +838,34 @@ export class MemStorage implements IStorage {
       joinedAt: now
     };
     this.roomMembers.set(id, newMember);
+    if (!this.membershipIds.has(newMember.roomId)) {
+      this.membershipIds.set(newMember.roomId, new Map());
+    }
+    this.membershipIds.get(newMember.roomId)!.set(newMember.userId, id);
+    addToIndex(this.roomIdsByUser, newMember.userId, newMember.roomId);
     return newMember;
   }
   
   async removeUserFromRoom(roomId: number, userId: number): Promise<void> {
-    for (const [id, member] of this.roomMembers.entries()) {
-      if (member.roomId === roomId && member.userId === userId) {
-        this.roomMembers.delete(id);
-        break;
-      }
+    const members = this.membershipIds.get(roomId);
+    const id = members?.get(userId);
+    if (id === undefined) return;
+    
+    this.roomMembers.delete(id);
+    members!.delete(userId);
+    if (members!.size === 0) {
+      this.membershipIds.delete(roomId);
     }
+    removeFromIndex(this.roomIdsByUser, userId, roomId);
   }
   
   async getRoomMembers(roomId: number): Promise<User[]> {
-    const memberIds = Array.from(this.roomMembers.values())
-      .filter(member => member.roomId === roomId)
-      .map(member => member.userId);
+    const memberIds = Array.from(this.membershipIds.get(roomId)?.keys() || []);
     
-    return Array.from(this.users.values())
-      .filter(user => memberIds.includes(user.id));
+    return memberIds
+      .sort((a, b) => a - b)
+      .map(id => this.users.get(id))
+      .filter((user): user is User => !!user && !user.deletionScheduledAt);
   }
   
   // Media operations
@@ -383,11 +906,14 @@ export class MemStorage implements IStorage {
   }
   
   // Like/Match operations
+  private getLike(likerId: number, likedId: number): Like | undefined {
+    const id = this.likeIds.get(`${likerId}:${likedId}`);
+    return id !== undefined ? this.likes.get(id) : undefined;
+  }
+  
   async createLike(like: InsertLike): Promise<Like> {
     // Check if this like already exists
-    const existingLike = Array.from(this.likes.values()).find(
-      l => l.likerId === like.likerId && l.likedId === like.likedId
-    );
+    const existingLike = this.getLike(like.likerId, like.likedId);
     
     if (existingLike) {
       return existingLike;
@@ -397,44 +923,40 @@ export class MemStorage implements IStorage {
     const now = new Date();
     const newLike: Like = { ...like, id, createdAt: now };
     this.likes.set(id, newLike);
+    this.likeIds.set(`${like.likerId}:${like.likedId}`, id);
+    addToIndex(this.likedUserIds, like.likerId, like.likedId);
+    addToIndex(this.likerUserIds, like.likedId, like.likerId);
     return newLike;
   }
   
   async getLikesBetweenUsers(user1Id: number, user2Id: number): Promise<Like[]> {
-    return Array.from(this.likes.values()).filter(
-      (like) => 
-        (like.likerId === user1Id && like.likedId === user2Id) ||
-        (like.likerId === user2Id && like.likedId === user1Id)
-    );
+    return [this.getLike(user1Id, user2Id), this.getLike(user2Id, user1Id)]
+      .filter((like): like is Like => !!like)
+      .sort((a, b) => a.id - b.id);
   }
   
   async getLikesByUser(userId: number): Promise<Like[]> {
-    return Array.from(this.likes.values()).filter(
-      (like) => like.likerId === userId
-    );
+    return Array.from(this.likedUserIds.get(userId) || [])
+      .map(likedId => this.getLike(userId, likedId)!)
+      .sort((a, b) => a.id - b.id);
   }
   
+  // Matches are mutual likes
   async getMatches(userId: number): Promise<User[]> {
-    // Get users who user has liked
-    const likedUserIds = Array.from(this.likes.values())
-      .filter(like => like.likerId === userId)
-      .map(like => like.likedId);
+    const likedByUserIds = this.likerUserIds.get(userId) || new Set<number>();
+    const matchUserIds = Array.from(this.likedUserIds.get(userId) || [])
+      .filter(id => likedByUserIds.has(id));
     
-    // Get users who have liked this user
-    const likedByUserIds = Array.from(this.likes.values())
-      .filter(like => like.likedId === userId)
-      .map(like => like.likerId);
-    
-    // Find mutual likes (matches)
-    const matchUserIds = likedUserIds.filter(id => likedByUserIds.includes(id));
-    
-    return Array.from(this.users.values())
-      .filter(user => matchUserIds.includes(user.id));
+    return matchUserIds
+      .sort((a, b) => a - b)
+      .map(id => this.users.get(id))
+      .filter((user): user is User => !!user);
   }
 
   // New methods for enhanced functionality
   async getUserByEmail(email: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(user => user.email === email);
+    const id = this.userIdsByEmail.get(email);
+    return id !== undefined ? this.users.get(id) : undefined;
   }
 
   async searchUsersByUsername(query: string): Promise<User[]> {
@@ -444,7 +966,7 @@ export class MemStorage implements IStorage {
         user.username.toLowerCase().includes(searchTerm) ||
         user.displayName.toLowerCase().includes(searchTerm)
       )
-      .filter(user => !user.isBanned)
+      .filter(user => !user.isBanned && !user.deletionScheduledAt)
       .slice(0, 10); // Limit results
   }
 
@@ -456,7 +978,16 @@ export class MemStorage implements IStorage {
         isOnline, 
         lastSeen: new Date() 
       };
-      this.users.set(userId, updatedUser);
+      this.saveUser(updatedUser);
+    }
+  }
+
+  async resetOnlineStatus(exceptUserIds: number[] = []): Promise<void> {
+    const connected = new Set(exceptUserIds);
+    for (const user of this.users.values()) {
+      if (user.isOnline && !connected.has(user.id)) {
+        this.saveUser({ ...user, isOnline: false });
+      }
     }
   }
 
@@ -470,7 +1001,7 @@ export class MemStorage implements IStorage {
         bannedAt: new Date(), 
         banReason: reason 
       };
-      this.users.set(userId, updatedUser);
+      this.saveUser(updatedUser);
       
       // Log admin action
       await this.createAdminLog({
@@ -493,26 +1024,191 @@ export class MemStorage implements IStorage {
         bannedAt: null, 
         banReason: null 
       };
-      this.users.set(userId, updatedUser);
+      this.saveUser(updatedUser);
+    }
+  }
+
+  async getUsersDueForDeletion(now: Date): Promise<User[]> {
+    return Array.from(this.users.values()).filter(
+      (user) => user.deletionScheduledAt && user.deletionScheduledAt <= now
+    );
+  }
+
+  async getUsersDueForDigest(offlineSince: Date, lastDigestBefore: Date): Promise<User[]> {
+    return Array.from(this.users.values()).filter(
+      (user) => user.emailNotifications &&
+        user.emailVerified &&
+        !user.isOnline &&
+        !user.isBanned &&
+        !user.deletionScheduledAt &&
+        user.lastSeen && user.lastSeen <= offlineSince &&
+        (!user.lastDigestAt || user.lastDigestAt <= lastDigestBefore)
+    );
+  }
+
+  async deleteUser(userId: number): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user) return;
+
+    this.users.delete(userId);
+    if (this.userIdsByUsername.get(user.username) === userId) {
+      this.userIdsByUsername.delete(user.username);
+    }
+    if (this.userIdsByEmail.get(user.email) === userId) {
+      this.userIdsByEmail.delete(user.email);
+    }
+
+    const deletedMessageIds = new Set<number>();
+    for (const [id, message] of this.messages.entries()) {
+      if (message.senderId === userId || message.receiverId === userId) {
+        this.messages.delete(id);
+        deletedMessageIds.add(id);
+        if (message.clientId) {
+          this.clientMessageIds.delete(clientMessageKey("direct", message.senderId, message.clientId));
+        }
+        this.conversationMessageIds.delete(conversationKey(message.senderId, message.receiverId));
+      }
+    }
+    this.deleteMessageEdits("direct", deletedMessageIds);
+    this.deleteMessageReactions("direct", deletedMessageIds);
+    for (const peerId of this.conversationPeers.get(userId) || []) {
+      this.conversationPeers.get(peerId)?.delete(userId);
+      this.unreadCounts.delete(`${peerId}:${userId}`);
+      this.unreadCounts.delete(`${userId}:${peerId}`);
+    }
+    this.conversationPeers.delete(userId);
+
+    const affectedRoomIds = new Set<number>();
+    const deletedChatMessageIds = new Set<number>();
+    for (const [id, message] of this.chatMessages.entries()) {
+      if (message.userId === userId) {
+        this.chatMessages.delete(id);
+        deletedChatMessageIds.add(id);
+        if (message.clientId) {
+          this.clientMessageIds.delete(clientMessageKey("room", userId, message.clientId));
+        }
+        affectedRoomIds.add(message.roomId);
+      }
+    }
+    this.deleteMessageEdits("room", deletedChatMessageIds);
+    this.deleteMessageReactions("room", deletedChatMessageIds);
+    for (const [key, reactions] of this.messageReactions.entries()) {
+      const remaining = reactions.filter(reaction => reaction.userId !== userId);
+      if (remaining.length === 0) {
+        this.messageReactions.delete(key);
+      } else if (remaining.length < reactions.length) {
+        this.messageReactions.set(key, remaining);
+      }
+    }
+    for (const roomId of affectedRoomIds) {
+      const ids = this.roomMessageIds.get(roomId) || [];
+      this.roomMessageIds.set(roomId, ids.filter(id => this.chatMessages.has(id)));
+    }
+
+    for (const roomId of Array.from(this.roomIdsByUser.get(userId) || [])) {
+      await this.removeUserFromRoom(roomId, userId);
+    }
+
+    for (const likedId of Array.from(this.likedUserIds.get(userId) || [])) {
+      this.deleteLike(userId, likedId);
+    }
+    for (const likerId of Array.from(this.likerUserIds.get(userId) || [])) {
+      this.deleteLike(likerId, userId);
+    }
+
+    for (const [id, item] of this.mediaItems.entries()) {
+      if (item.userId === userId) {
+        this.mediaItems.delete(id);
+      }
+    }
+
+    for (const [id, code] of this.verificationCodes.entries()) {
+      if (code.email === user.email) {
+        this.verificationCodes.delete(id);
+      }
+    }
+
+    for (const [token, challenge] of this.loginChallenges.entries()) {
+      if (challenge.userId === userId) {
+        this.loginChallenges.delete(token);
+      }
+    }
+
+    // Archives left without a record are removed by the export sweep
+    for (const [id, dataExport] of this.dataExports.entries()) {
+      if (dataExport.userId === userId) {
+        this.dataExports.delete(id);
+      }
     }
+
+    await this.deleteUserTokensForUser(userId);
+  }
+
+  private deleteLike(likerId: number, likedId: number): void {
+    const key = `${likerId}:${likedId}`;
+    const id = this.likeIds.get(key);
+    if (id === undefined) return;
+
+    this.likes.delete(id);
+    this.likeIds.delete(key);
+    removeFromIndex(this.likedUserIds, likerId, likedId);
+    removeFromIndex(this.likerUserIds, likedId, likerId);
+  }
+
+  async getUserDataSnapshot(userId: number): Promise<UserDataSnapshot | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    const messages = Array.from(this.messages.values());
+    const memberRoomIds = this.roomIdsByUser.get(userId) || new Set<number>();
+    const roomMemberships = Array.from(memberRoomIds)
+      .map(roomId => this.getMembership(roomId, userId)!)
+      .sort((a, b) => a.id - b.id);
+    const likesReceived = Array.from(this.likerUserIds.get(userId) || [])
+      .map(likerId => this.getLike(likerId, userId)!)
+      .sort((a, b) => a.id - b.id);
+
+    return {
+      user,
+      messagesSent: messages.filter(m => m.senderId === userId),
+      messagesReceived: messages.filter(m => m.receiverId === userId),
+      chatMessages: Array.from(this.chatMessages.values()).filter(m => m.userId === userId),
+      roomMemberships,
+      rooms: Array.from(this.chatRooms.values()).filter(
+        room => memberRoomIds.has(room.id) || room.createdBy === userId
+      ),
+      mediaItems: Array.from(this.mediaItems.values()).filter(item => item.userId === userId),
+      likesGiven: await this.getLikesByUser(userId),
+      likesReceived,
+      matches: await this.getMatches(userId),
+      adminLogs: Array.from(this.adminLogs.values()).filter(
+        log => log.adminId === userId || (log.targetType === 'user' && log.targetId === userId)
+      ),
+      verificationCodes: Array.from(this.verificationCodes.values()).filter(code => code.email === user.email),
+      tokens: Array.from(this.userTokens.values()).filter(token => token.userId === userId)
+    };
   }
 
   async deleteChatRoom(roomId: number): Promise<void> {
     this.chatRooms.delete(roomId);
     
     // Remove all members from the room
-    for (const [id, member] of this.roomMembers.entries()) {
-      if (member.roomId === roomId) {
-        this.roomMembers.delete(id);
-      }
+    for (const userId of Array.from(this.membershipIds.get(roomId)?.keys() || [])) {
+      await this.removeUserFromRoom(roomId, userId);
     }
     
     // Remove all messages from the room
-    for (const [id, message] of this.chatMessages.entries()) {
-      if (message.roomId === roomId) {
-        this.chatMessages.delete(id);
+    const roomMessageIds = this.roomMessageIds.get(roomId) || [];
+    for (const id of roomMessageIds) {
+      const message = this.chatMessages.get(id);
+      if (message?.clientId) {
+        this.clientMessageIds.delete(clientMessageKey("room", message.userId, message.clientId));
       }
+      this.chatMessages.delete(id);
     }
+    this.deleteMessageEdits("room", new Set(roomMessageIds));
+    this.deleteMessageReactions("room", roomMessageIds);
+    this.roomMessageIds.delete(roomId);
   }
 
   async updateChatRoom(roomId: number, data: Partial<ChatRoom>): Promise<ChatRoom | undefined> {
@@ -524,20 +1220,24 @@ export class MemStorage implements IStorage {
     return updatedRoom;
   }
 
+  private getMembership(roomId: number, userId: number): RoomMember | undefined {
+    const id = this.membershipIds.get(roomId)?.get(userId);
+    return id !== undefined ? this.roomMembers.get(id) : undefined;
+  }
+
   async updateRoomMemberRole(roomId: number, userId: number, role: string): Promise<void> {
-    for (const [id, member] of this.roomMembers.entries()) {
-      if (member.roomId === roomId && member.userId === userId) {
-        const updatedMember = { ...member, role };
-        this.roomMembers.set(id, updatedMember);
-        break;
-      }
+    const member = this.getMembership(roomId, userId);
+    if (member) {
+      this.roomMembers.set(member.id, { ...member, role });
     }
   }
 
   async getRoomMemberRole(roomId: number, userId: number): Promise<string | undefined> {
-    const member = Array.from(this.roomMembers.values())
-      .find(m => m.roomId === roomId && m.userId === userId);
-    return member?.role || undefined;
+    return this.getMembership(roomId, userId)?.role || undefined;
+  }
+
+  async getMemberRoomIds(userId: number): Promise<number[]> {
+    return Array.from(this.roomIdsByUser.get(userId) || []);
   }
 
   // Admin operations
@@ -571,7 +1271,8 @@ export class MemStorage implements IStorage {
       ...code, 
       id, 
       createdAt: now,
-      used: false
+      used: false,
+      failedAttempts: 0
     };
     this.verificationCodes.set(id, newCode);
     return newCode;
@@ -595,6 +1296,16 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async recordFailedVerificationAttempt(email: string, type: string, maxAttempts: number): Promise<void> {
+    const now = new Date();
+    this.verificationCodes.forEach((vc, id) => {
+      if (vc.email !== email || vc.type !== type || vc.used || vc.expiresAt <= now) return;
+
+      const failedAttempts = vc.failedAttempts + 1;
+      this.verificationCodes.set(id, { ...vc, failedAttempts, used: failedAttempts >= maxAttempts });
+    });
+  }
+
   async cleanupExpiredCodes(): Promise<void> {
     const now = new Date();
     for (const [id, code] of this.verificationCodes.entries()) {
@@ -604,54 +1315,1222 @@ export class MemStorage implements IStorage {
     }
   }
 
+  // Login challenge operations
+  async createLoginChallenge(insertChallenge: InsertLoginChallenge): Promise<LoginChallenge> {
+    const challenge: LoginChallenge = { ...insertChallenge, attempts: 0, createdAt: new Date() };
+    this.loginChallenges.set(challenge.token, challenge);
+    return challenge;
+  }
+
+  async getLoginChallenge(token: string): Promise<LoginChallenge | undefined> {
+    const challenge = this.loginChallenges.get(token);
+    return challenge && challenge.expiresAt > new Date() ? challenge : undefined;
+  }
+
+  async recordFailedLoginChallengeAttempt(token: string, maxAttempts: number): Promise<void> {
+    const challenge = this.loginChallenges.get(token);
+    if (!challenge) return;
+
+    if (challenge.attempts + 1 >= maxAttempts) {
+      this.loginChallenges.delete(token);
+    } else {
+      this.loginChallenges.set(token, { ...challenge, attempts: challenge.attempts + 1 });
+    }
+  }
+
+  async deleteLoginChallenge(token: string): Promise<boolean> {
+    return this.loginChallenges.delete(token);
+  }
+
+  async deleteExpiredLoginChallenges(): Promise<void> {
+    const now = new Date();
+    for (const [token, challenge] of this.loginChallenges.entries()) {
+      if (challenge.expiresAt <= now) {
+        this.loginChallenges.delete(token);
+      }
+    }
+  }
+
+  // Data export operations
+  async createDataExport(insertExport: InsertDataExport): Promise<DataExport> {
+    const dataExport: DataExport = {
+      ...insertExport,
+      status: 'pending',
+      createdAt: new Date(),
+      completedAt: null,
+      expiresAt: null
+    };
+    this.dataExports.set(dataExport.id, dataExport);
+    return dataExport;
+  }
+
+  async updateDataExport(id: string, changes: Partial<DataExport>): Promise<DataExport | undefined> {
+    const dataExport = this.dataExports.get(id);
+    if (!dataExport) return undefined;
+
+    const updated = { ...dataExport, ...changes, id };
+    this.dataExports.set(id, updated);
+    return updated;
+  }
+
+  async getDataExport(id: string): Promise<DataExport | undefined> {
+    return this.dataExports.get(id);
+  }
+
+  async getDataExportsForUser(userId: number): Promise<DataExport[]> {
+    return Array.from(this.dataExports.values())
+      .filter(dataExport => dataExport.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getExpiredDataExports(staleBefore: Date): Promise<DataExport[]> {
+    const now = new Date();
+    return Array.from(this.dataExports.values()).filter(dataExport =>
+      dataExport.expiresAt
+        ? dataExport.expiresAt <= now
+        : dataExport.status === 'pending' && dataExport.createdAt < staleBefore
+    );
+  }
+
+  async deleteDataExport(id: string): Promise<void> {
+    this.dataExports.delete(id);
+  }
+
   // Token operations
-  async createUserToken(userId: number): Promise<string> {
+  async createUserToken(userId: number, details: SessionDetails = {}): Promise<string> {
     const token = crypto.randomBytes(32).toString('hex');
     const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 дней
+    const now = new Date();
 
-    await db.insert(userTokens).values({
+    this.userTokens.set(token, {
+      id: this.currentUserTokenId++,
       userId,
       token,
-      expiresAt
+      name: null,
+      userAgent: details.userAgent || null,
+      ipAddress: details.ipAddress || null,
+      expiresAt,
+      lastUsedAt: now,
+      createdAt: now
     });
 
     return token;
   }
 
   async getUserByToken(token: string): Promise<User | null> {
-    const result = await db
-      .select()
-      .from(userTokens)
-      .where(
-        and(
-          eq(userTokens.token, token),
-          eq(userTokens.expiresAt, new Date())
-        )
-      )
-      .leftJoin(users, eq(userTokens.userId, users.id))
-      .limit(1);
-
-    if (result.length === 0) {
+    const userToken = this.userTokens.get(token);
+    if (!userToken || !userToken.userId || userToken.expiresAt <= new Date()) {
       return null;
     }
 
-    return result[0].user;
+    return this.users.get(userToken.userId) || null;
   }
 
-  async deleteUserToken(token: string): Promise<void> {
-    await db
-      .delete(userTokens)
-      .where(eq(userTokens.token, token));
+  async getUserTokensForUser(userId: number): Promise<UserToken[]> {
+    const now = new Date();
+    return Array.from(this.userTokens.values())
+      .filter(userToken => userToken.userId === userId && userToken.expiresAt > now)
+      .sort((a, b) => (b.lastUsedAt?.getTime() || 0) - (a.lastUsedAt?.getTime() || 0));
+  }
+
+  async getUserTokenById(id: number): Promise<UserToken | undefined> {
+    return Array.from(this.userTokens.values()).find(userToken => userToken.id === id);
+  }
+
+  async updateUserTokenName(id: number, name: string | null): Promise<UserToken | undefined> {
+    const userToken = await this.getUserTokenById(id);
+    if (!userToken) return undefined;
+
+    const updatedToken = { ...userToken, name };
+    this.userTokens.set(userToken.token, updatedToken);
+    return updatedToken;
+  }
+
+  async touchUserToken(token: string): Promise<void> {
+    const userToken = this.userTokens.get(token);
+    const now = new Date();
+    if (userToken && (!userToken.lastUsedAt || now.getTime() - userToken.lastUsedAt.getTime() >= TOKEN_TOUCH_INTERVAL_MS)) {
+      this.userTokens.set(token, { ...userToken, lastUsedAt: now });
+    }
+  }
+
+  async deleteUserToken(token: string): Promise<void> {
+    this.userTokens.delete(token);
+  }
+
+  async deleteUserTokensForUser(userId: number, exceptToken?: string): Promise<void> {
+    for (const [token, userToken] of this.userTokens.entries()) {
+      if (userToken.userId === userId && token !== exceptToken) {
+        this.userTokens.delete(token);
+      }
+    }
+  }
+
+  // Template operations
+  async getTemplates(): Promise<Template[]> {
+    return Array.from(this.templates.values());
+  }
+
+  async getTemplate(name: string, type: string, locale: string): Promise<Template | undefined> {
+    return Array.from(this.templates.values()).find(
+      template => template.name === name && template.type === type && template.locale === locale
+    );
+  }
+
+  async upsertTemplate(template: InsertTemplate): Promise<Template> {
+    const existing = await this.getTemplate(template.name, template.type, template.locale || 'en');
+    const now = new Date();
+    const saved: Template = {
+      id: existing?.id ?? this.currentTemplateId++,
+      name: template.name,
+      content: template.content,
+      type: template.type,
+      locale: template.locale || 'en',
+      subject: template.subject ?? null,
+      textContent: template.textContent ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+    this.templates.set(saved.id, saved);
+    return saved;
+  }
+
+  async deleteTemplate(name: string, type: string, locale: string): Promise<void> {
+    const existing = await this.getTemplate(name, type, locale);
+    if (existing) {
+      this.templates.delete(existing.id);
+    }
+  }
+
+  async getWritingTemplates(): Promise<WritingTemplate[]> {
+    return Array.from(this.writingTemplates.values());
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUserProfile(id: number, data: Partial<User>): Promise<User | undefined> {
+    const { id: _, ...changes } = data;
+    if (Object.keys(changes).length === 0) {
+      return this.getUser(id);
+    }
+
+    const [user] = await this.db
+      .update(users)
+      .set(changes)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Concurrent logins with the same code race on this update, and only one matches
+  async consumeRecoveryCode(userId: number, hash: string): Promise<boolean> {
+    const changed = await this.db
+      .update(users)
+      .set({ totpRecoveryCodes: sql`array_remove(${users.totpRecoveryCodes}, ${hash})` })
+      .where(and(
+        eq(users.id, userId),
+        sql`${hash} = any(${users.totpRecoveryCodes})`
+      ))
+      .returning({ id: users.id });
+    return changed.length > 0;
+  }
+
+  // Like recovery codes, a code replayed by a concurrent login must not match twice
+  async useTotpStep(userId: number, step: number): Promise<boolean> {
+    const changed = await this.db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))
+      ))
+      .returning({ id: users.id });
+    return changed.length > 0;
+  }
+
+  // A single update, so concurrent wrong codes are all counted
+  async recordFailedSecondFactor(userId: number, maxAttempts: number, lockUntil: Date): Promise<void> {
+    const reachesLimit = sql`${users.totpFailedAttempts} + 1 >= ${maxAttempts}`;
+    await this.db
+      .update(users)
+      .set({
+        totpFailedAttempts: sql`case when ${reachesLimit} then 0 else ${users.totpFailedAttempts} + 1 end`,
+        totpLockedUntil: sql`case when ${reachesLimit} then ${lockUntil} else ${users.totpLockedUntil} end`
+      })
+      .where(eq(users.id, userId));
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await this.db.select().from(users);
+  }
+
+  async searchUsersByUsername(query: string): Promise<User[]> {
+    const pattern = `%${query.replace('@', '')}%`;
+    return await this.db
+      .select()
+      .from(users)
+      .where(
+        and(
+          or(ilike(users.username, pattern), ilike(users.displayName, pattern)),
+          eq(users.isBanned, false),
+          isNull(users.deletionScheduledAt)
+        )
+      )
+      .limit(10);
+  }
+
+  async updateUserOnlineStatus(userId: number, isOnline: boolean): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ isOnline, lastSeen: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  async resetOnlineStatus(exceptUserIds: number[] = []): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ isOnline: false })
+      .where(and(
+        eq(users.isOnline, true),
+        exceptUserIds.length > 0 ? notInArray(users.id, exceptUserIds) : undefined
+      ));
+  }
+
+  async banUser(userId: number, bannedBy: number, reason: string): Promise<void> {
+    const [user] = await this.db
+      .update(users)
+      .set({ isBanned: true, bannedBy, bannedAt: new Date(), banReason: reason })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (user) {
+      await this.createAdminLog({
+        adminId: bannedBy,
+        action: "ban_user",
+        targetType: "user",
+        targetId: userId,
+        details: { reason }
+      });
+    }
+  }
+
+  async unbanUser(userId: number): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ isBanned: false, bannedBy: null, bannedAt: null, banReason: null })
+      .where(eq(users.id, userId));
+  }
+
+  async getUsersDueForDeletion(now: Date): Promise<User[]> {
+    return await this.db
+      .select()
+      .from(users)
+      .where(lte(users.deletionScheduledAt, now));
+  }
+
+  async getUsersDueForDigest(offlineSince: Date, lastDigestBefore: Date): Promise<User[]> {
+    return await this.db
+      .select()
+      .from(users)
+      .where(and(
+        eq(users.emailNotifications, true),
+        eq(users.emailVerified, true),
+        eq(users.isOnline, false),
+        eq(users.isBanned, false),
+        isNull(users.deletionScheduledAt),
+        lte(users.lastSeen, offlineSince),
+        or(isNull(users.lastDigestAt), lte(users.lastDigestAt, lastDigestBefore))
+      ));
+  }
+
+  async deleteUser(userId: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId));
+      if (!user) return;
+
+      const userMessages = or(eq(messages.senderId, userId), eq(messages.receiverId, userId));
+      const userMessageIds = tx.select({ id: messages.id }).from(messages).where(userMessages);
+      const userChatMessageIds = tx.select({ id: chatMessages.id }).from(chatMessages).where(eq(chatMessages.userId, userId));
+      await tx.delete(messageEdits).where(or(
+        and(eq(messageEdits.messageType, "direct"), inArray(messageEdits.messageId, userMessageIds)),
+        and(eq(messageEdits.messageType, "room"), inArray(messageEdits.messageId, userChatMessageIds))
+      ));
+      await tx.delete(messageReactions).where(or(
+        eq(messageReactions.userId, userId),
+        and(eq(messageReactions.messageType, "direct"), inArray(messageReactions.messageId, userMessageIds)),
+        and(eq(messageReactions.messageType, "room"), inArray(messageReactions.messageId, userChatMessageIds))
+      ));
+      await tx.delete(messages).where(userMessages);
+      await tx.delete(chatMessages).where(eq(chatMessages.userId, userId));
+      await tx.delete(roomMembers).where(eq(roomMembers.userId, userId));
+      await tx.delete(likes).where(or(eq(likes.likerId, userId), eq(likes.likedId, userId)));
+      await tx.delete(mediaItems).where(eq(mediaItems.userId, userId));
+      await tx.delete(verificationCodes).where(eq(verificationCodes.email, user.email));
+      await tx.delete(loginChallenges).where(eq(loginChallenges.userId, userId));
+      // Archives left without a record are removed by the export sweep
+      await tx.delete(dataExports).where(eq(dataExports.userId, userId));
+      await tx.delete(userTokens).where(eq(userTokens.userId, userId));
+      await tx.delete(users).where(eq(users.id, userId));
+    });
+  }
+
+  async getUserDataSnapshot(userId: number): Promise<UserDataSnapshot | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+
+    const roomMemberships = await this.db.select().from(roomMembers).where(eq(roomMembers.userId, userId));
+    const memberRoomIds = roomMemberships.map(m => m.roomId);
+
+    return {
+      user,
+      messagesSent: await this.db.select().from(messages).where(eq(messages.senderId, userId)).orderBy(asc(messages.createdAt)),
+      messagesReceived: await this.db.select().from(messages).where(eq(messages.receiverId, userId)).orderBy(asc(messages.createdAt)),
+      chatMessages: await this.db.select().from(chatMessages).where(eq(chatMessages.userId, userId)).orderBy(asc(chatMessages.createdAt)),
+      roomMemberships,
+      rooms: await this.db
+        .select()
+        .from(chatRooms)
+        .where(
+          memberRoomIds.length > 0
+            ? or(inArray(chatRooms.id, memberRoomIds), eq(chatRooms.createdBy, userId))
+            : eq(chatRooms.createdBy, userId)
+        ),
+      mediaItems: await this.db.select().from(mediaItems).where(eq(mediaItems.userId, userId)),
+      likesGiven: await this.db.select().from(likes).where(eq(likes.likerId, userId)),
+      likesReceived: await this.db.select().from(likes).where(eq(likes.likedId, userId)),
+      matches: await this.getMatches(userId),
+      adminLogs: await this.db
+        .select()
+        .from(adminLogs)
+        .where(
+          or(
+            eq(adminLogs.adminId, userId),
+            and(eq(adminLogs.targetType, 'user'), eq(adminLogs.targetId, userId))
+          )
+        )
+        .orderBy(asc(adminLogs.createdAt)),
+      verificationCodes: await this.db.select().from(verificationCodes).where(eq(verificationCodes.email, user.email)),
+      tokens: await this.db.select().from(userTokens).where(eq(userTokens.userId, userId))
+    };
+  }
+
+  // Message operations
+  async createMessage(message: InsertMessage): Promise<Message> {
+    const [newMessage] = await this.db
+      .insert(messages)
+      .values({
+        ...message,
+        mediaType: message.mediaType || "text",
+        mediaUrl: message.mediaUrl || ""
+      })
+      .returning();
+    return newMessage;
+  }
+
+  async getMessagesBetweenUsers(user1Id: number, user2Id: number, page: MessagePage = {}): Promise<Message[]> {
+    const { before, after, limit = DEFAULT_MESSAGE_PAGE_SIZE } = page;
+    const rows = await this.db
+      .select()
+      .from(messages)
+      .where(and(
+        or(
+          and(eq(messages.senderId, user1Id), eq(messages.receiverId, user2Id)),
+          and(eq(messages.senderId, user2Id), eq(messages.receiverId, user1Id))
+        ),
+        before !== undefined ? lt(messages.id, before) : undefined,
+        after !== undefined ? gt(messages.id, after) : undefined
+      ))
+      // Without `after` the page ends at the newest message, so read backwards
+      .orderBy(after !== undefined ? asc(messages.id) : desc(messages.id))
+      .limit(limit);
+
+    return after !== undefined ? rows : rows.reverse();
+  }
+
+  async markMessagesAsDelivered(userId: number, otherUserId: number, upToId: number): Promise<number | null> {
+    const changed = await this.db
+      .update(messages)
+      .set({ delivered: true })
+      .where(and(
+        eq(messages.receiverId, userId),
+        eq(messages.senderId, otherUserId),
+        lte(messages.id, upToId),
+        eq(messages.delivered, false)
+      ))
+      .returning({ id: messages.id });
+    return changed.length > 0 ? Math.max(...changed.map(message => message.id)) : null;
+  }
+
+  async markMessagesAsRead(userId: number, otherUserId: number, upToId: number): Promise<number | null> {
+    const changed = await this.db
+      .update(messages)
+      .set({ delivered: true, read: true })
+      .where(and(
+        eq(messages.receiverId, userId),
+        eq(messages.senderId, otherUserId),
+        lte(messages.id, upToId),
+        eq(messages.read, false)
+      ))
+      .returning({ id: messages.id });
+    return changed.length > 0 ? Math.max(...changed.map(message => message.id)) : null;
+  }
+
+  async getUnreadMessageCount(userId: number): Promise<number> {
+    return await this.db.$count(
+      messages,
+      and(eq(messages.receiverId, userId), eq(messages.read, false), isNull(messages.deletedAt))
+    );
+  }
+
+  async getConversations(userId: number): Promise<ConversationSummary[]> {
+    const peerId = sql<number>`case when ${messages.senderId} = ${userId} then ${messages.receiverId} else ${messages.senderId} end`;
+
+    // Latest message per peer. Grouping needs the expression only once; DISTINCT ON
+    // would repeat it in ORDER BY with its own parameter, which Postgres rejects.
+    const lastMessageIds = this.db
+      .select({ id: max(messages.id) })
+      .from(messages)
+      .where(or(eq(messages.senderId, userId), eq(messages.receiverId, userId)))
+      .groupBy(peerId);
+    const lastMessages = await this.db
+      .select()
+      .from(messages)
+      .where(inArray(messages.id, lastMessageIds));
+    if (lastMessages.length === 0) return [];
+
+    const unread = await this.db
+      .select({ senderId: messages.senderId, count: count() })
+      .from(messages)
+      .where(and(eq(messages.receiverId, userId), eq(messages.read, false), isNull(messages.deletedAt)))
+      .groupBy(messages.senderId);
+    const unreadBySender = new Map(unread.map(row => [row.senderId, row.count]));
+
+    const peers = await this.db
+      .select()
+      .from(users)
+      .where(and(
+        inArray(users.id, lastMessages.map(message => message.senderId === userId ? message.receiverId : message.senderId)),
+        isNull(users.deletionScheduledAt)
+      ));
+    const peersById = new Map(peers.map(peer => [peer.id, peer]));
+
+    const conversations: ConversationSummary[] = [];
+    for (const message of lastMessages) {
+      const peer = peersById.get(message.senderId === userId ? message.receiverId : message.senderId);
+      if (!peer) continue;
+
+      conversations.push({ peer, lastMessage: message, unreadCount: unreadBySender.get(peer.id) || 0 });
+    }
+    return conversations.sort((a, b) => b.lastMessage.id - a.lastMessage.id);
+  }
+
+  async getUnreadMessagesSince(userId: number, since: Date): Promise<Message[]> {
+    return await this.db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.receiverId, userId), eq(messages.read, false), isNull(messages.deletedAt), gt(messages.createdAt, since)));
+  }
+
+  async getMessageById(id: number): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async getMessageByClientId(senderId: number, clientId: string): Promise<Message | undefined> {
+    const [message] = await this.db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.senderId, senderId), eq(messages.clientId, clientId)));
+    return message;
+  }
+
+  async editMessage(id: number, content: string, editedBy: number): Promise<Message | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [message] = await tx.select().from(messages).where(eq(messages.id, id));
+      if (!message) return undefined;
+
+      await tx.insert(messageEdits).values({ messageType: "direct", messageId: id, content: message.content, editedBy });
+      const [updated] = await tx
+        .update(messages)
+        .set({ content, editedAt: new Date() })
+        .where(eq(messages.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async deleteMessage(id: number, deletedBy: number): Promise<Message | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [message] = await tx.select().from(messages).where(eq(messages.id, id));
+      if (!message) return undefined;
+
+      // The previous content is kept for moderators. The read flag is left as it
+      // is, since the recipient never read the message; the unread queries skip it.
+      await tx.insert(messageEdits).values({ messageType: "direct", messageId: id, content: message.content, editedBy: deletedBy });
+      await tx.delete(messageReactions).where(and(eq(messageReactions.messageType, "direct"), eq(messageReactions.messageId, id)));
+      const [tombstone] = await tx
+        .update(messages)
+        .set({ content: "", mediaUrl: "", deletedAt: new Date() })
+        .where(eq(messages.id, id))
+        .returning();
+      return tombstone;
+    });
+  }
+
+  async getMessageEdits(messageType: MessageType, messageId: number): Promise<MessageEdit[]> {
+    return await this.db
+      .select()
+      .from(messageEdits)
+      .where(and(eq(messageEdits.messageType, messageType), eq(messageEdits.messageId, messageId)))
+      .orderBy(asc(messageEdits.id));
+  }
+
+  async addReaction(reaction: InsertMessageReaction): Promise<void> {
+    await this.db.insert(messageReactions).values(reaction).onConflictDoNothing();
+  }
+
+  async removeReaction(reaction: InsertMessageReaction): Promise<void> {
+    await this.db.delete(messageReactions).where(and(
+      eq(messageReactions.messageType, reaction.messageType),
+      eq(messageReactions.messageId, reaction.messageId),
+      eq(messageReactions.userId, reaction.userId),
+      eq(messageReactions.emoji, reaction.emoji)
+    ));
+  }
+
+  async getReactions(messageType: MessageType, messageIds: number[]): Promise<MessageReaction[]> {
+    if (messageIds.length === 0) return [];
+
+    return await this.db
+      .select()
+      .from(messageReactions)
+      .where(and(eq(messageReactions.messageType, messageType), inArray(messageReactions.messageId, messageIds)))
+      .orderBy(asc(messageReactions.id));
+  }
+
+  // Chat room operations
+  async createChatRoom(room: InsertChatRoom): Promise<ChatRoom> {
+    const [newRoom] = await this.db
+      .insert(chatRooms)
+      .values({
+        ...room,
+        description: room.description || "",
+        isPrivate: room.isPrivate || false
+      })
+      .returning();
+
+    // Add creator as a member if this is a user-created room
+    if (room.createdBy > 0) {
+      await this.addUserToRoom({ roomId: newRoom.id, userId: room.createdBy, role: "admin" });
+    }
+
+    return newRoom;
+  }
+
+  async getChatRooms(): Promise<ChatRoom[]> {
+    return await this.db.select().from(chatRooms);
+  }
+
+  async getChatRoomById(id: number): Promise<ChatRoom | undefined> {
+    const [room] = await this.db.select().from(chatRooms).where(eq(chatRooms.id, id));
+    return room;
+  }
+
+  async getChatRoomsForUser(userId: number): Promise<ChatRoom[]> {
+    const userRoomIds = this.db
+      .select({ roomId: roomMembers.roomId })
+      .from(roomMembers)
+      .where(eq(roomMembers.userId, userId));
+
+    return await this.db
+      .select()
+      .from(chatRooms)
+      .where(or(eq(chatRooms.isPrivate, false), inArray(chatRooms.id, userRoomIds)));
+  }
+
+  async deleteChatRoom(roomId: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(roomMembers).where(eq(roomMembers.roomId, roomId));
+      const roomMessageIds = tx.select({ id: chatMessages.id }).from(chatMessages).where(eq(chatMessages.roomId, roomId));
+      await tx.delete(messageEdits).where(and(
+        eq(messageEdits.messageType, "room"),
+        inArray(messageEdits.messageId, roomMessageIds)
+      ));
+      await tx.delete(messageReactions).where(and(
+        eq(messageReactions.messageType, "room"),
+        inArray(messageReactions.messageId, roomMessageIds)
+      ));
+      await tx.delete(chatMessages).where(eq(chatMessages.roomId, roomId));
+      await tx.delete(chatRooms).where(eq(chatRooms.id, roomId));
+    });
+  }
+
+  async updateChatRoom(roomId: number, data: Partial<ChatRoom>): Promise<ChatRoom | undefined> {
+    const { id: _, ...changes } = data;
+    if (Object.keys(changes).length === 0) {
+      return this.getChatRoomById(roomId);
+    }
+
+    const [room] = await this.db
+      .update(chatRooms)
+      .set(changes)
+      .where(eq(chatRooms.id, roomId))
+      .returning();
+    return room;
+  }
+
+  // Chat message operations
+  async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+    const [newMessage] = await this.db
+      .insert(chatMessages)
+      .values({
+        ...message,
+        mediaType: message.mediaType || "text",
+        mediaUrl: message.mediaUrl || ""
+      })
+      .returning();
+    return newMessage;
+  }
+
+  async getChatMessagesByRoomId(roomId: number, page: MessagePage = {}): Promise<ChatMessage[]> {
+    const { before, after, limit = DEFAULT_MESSAGE_PAGE_SIZE } = page;
+    const rows = await this.db
+      .select()
+      .from(chatMessages)
+      .where(and(
+        eq(chatMessages.roomId, roomId),
+        before !== undefined ? lt(chatMessages.id, before) : undefined,
+        after !== undefined ? gt(chatMessages.id, after) : undefined
+      ))
+      .orderBy(after !== undefined ? asc(chatMessages.id) : desc(chatMessages.id))
+      .limit(limit);
+
+    return after !== undefined ? rows : rows.reverse();
+  }
+
+  async getRoomMessagesSince(userId: number, since: Date): Promise<ChatMessage[]> {
+    const userRoomIds = this.db
+      .select({ roomId: roomMembers.roomId })
+      .from(roomMembers)
+      .where(eq(roomMembers.userId, userId));
+
+    return await this.db
+      .select()
+      .from(chatMessages)
+      .where(and(
+        inArray(chatMessages.roomId, userRoomIds),
+        ne(chatMessages.userId, userId),
+        isNull(chatMessages.deletedAt),
+        gt(chatMessages.createdAt, since)
+      ));
+  }
+
+  async getChatMessageById(id: number): Promise<ChatMessage | undefined> {
+    const [message] = await this.db.select().from(chatMessages).where(eq(chatMessages.id, id));
+    return message;
+  }
+
+  async getChatMessageByClientId(userId: number, clientId: string): Promise<ChatMessage | undefined> {
+    const [message] = await this.db
+      .select()
+      .from(chatMessages)
+      .where(and(eq(chatMessages.userId, userId), eq(chatMessages.clientId, clientId)));
+    return message;
+  }
+
+  async editChatMessage(id: number, content: string, editedBy: number): Promise<ChatMessage | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [message] = await tx.select().from(chatMessages).where(eq(chatMessages.id, id));
+      if (!message) return undefined;
+
+      await tx.insert(messageEdits).values({ messageType: "room", messageId: id, content: message.content, editedBy });
+      const [updated] = await tx
+        .update(chatMessages)
+        .set({ content, editedAt: new Date() })
+        .where(eq(chatMessages.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async deleteChatMessage(id: number, deletedBy: number): Promise<ChatMessage | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [message] = await tx.select().from(chatMessages).where(eq(chatMessages.id, id));
+      if (!message) return undefined;
+
+      await tx.insert(messageEdits).values({ messageType: "room", messageId: id, content: message.content, editedBy: deletedBy });
+      await tx.delete(messageReactions).where(and(eq(messageReactions.messageType, "room"), eq(messageReactions.messageId, id)));
+      const [tombstone] = await tx
+        .update(chatMessages)
+        .set({ content: "", mediaUrl: "", deletedAt: new Date(), deletedBy })
+        .where(eq(chatMessages.id, id))
+        .returning();
+      return tombstone;
+    });
+  }
+
+  // Room member operations
+  // Joining twice keeps the existing membership
+  async addUserToRoom(member: InsertRoomMember): Promise<RoomMember> {
+    const [newMember] = await this.db
+      .insert(roomMembers)
+      .values({ ...member, role: member.role || "member" })
+      .onConflictDoNothing({ target: [roomMembers.roomId, roomMembers.userId] })
+      .returning();
+    if (newMember) return newMember;
+
+    const [existing] = await this.db
+      .select()
+      .from(roomMembers)
+      .where(and(eq(roomMembers.roomId, member.roomId), eq(roomMembers.userId, member.userId)));
+    return existing;
+  }
+
+  async removeUserFromRoom(roomId: number, userId: number): Promise<void> {
+    await this.db
+      .delete(roomMembers)
+      .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, userId)));
+  }
+
+  async getRoomMembers(roomId: number): Promise<User[]> {
+    const rows = await this.db
+      .select({ user: users })
+      .from(roomMembers)
+      .innerJoin(users, eq(roomMembers.userId, users.id))
+      .where(and(eq(roomMembers.roomId, roomId), isNull(users.deletionScheduledAt)));
+    return rows.map(row => row.user);
+  }
+
+  async updateRoomMemberRole(roomId: number, userId: number, role: string): Promise<void> {
+    await this.db
+      .update(roomMembers)
+      .set({ role })
+      .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, userId)));
+  }
+
+  async getRoomMemberRole(roomId: number, userId: number): Promise<string | undefined> {
+    const [member] = await this.db
+      .select({ role: roomMembers.role })
+      .from(roomMembers)
+      .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, userId)))
+      .limit(1);
+    return member?.role || undefined;
+  }
+
+  async getMemberRoomIds(userId: number): Promise<number[]> {
+    const rows = await this.db
+      .select({ roomId: roomMembers.roomId })
+      .from(roomMembers)
+      .where(eq(roomMembers.userId, userId));
+    return rows.map(row => row.roomId);
+  }
+
+  // Media operations
+  async createMediaItem(item: InsertMediaItem): Promise<MediaItem> {
+    const [newItem] = await this.db
+      .insert(mediaItems)
+      .values({
+        ...item,
+        description: item.description || "",
+        isPublic: item.isPublic !== undefined ? item.isPublic : true
+      })
+      .returning();
+    return newItem;
+  }
+
+  async getMediaItemsByUserId(userId: number): Promise<MediaItem[]> {
+    return await this.db
+      .select()
+      .from(mediaItems)
+      .where(eq(mediaItems.userId, userId))
+      .orderBy(desc(mediaItems.createdAt));
+  }
+
+  async getPublicMediaItems(): Promise<MediaItem[]> {
+    return await this.db
+      .select()
+      .from(mediaItems)
+      .where(eq(mediaItems.isPublic, true))
+      .orderBy(desc(mediaItems.createdAt));
+  }
+
+  async getMediaItemById(id: number): Promise<MediaItem | undefined> {
+    const [item] = await this.db.select().from(mediaItems).where(eq(mediaItems.id, id));
+    return item;
+  }
+
+  // Like/Match operations
+  async createLike(like: InsertLike): Promise<Like> {
+    const [existingLike] = await this.db
+      .select()
+      .from(likes)
+      .where(and(eq(likes.likerId, like.likerId), eq(likes.likedId, like.likedId)));
+
+    if (existingLike) {
+      return existingLike;
+    }
+
+    const [newLike] = await this.db.insert(likes).values(like).returning();
+    return newLike;
+  }
+
+  async getLikesBetweenUsers(user1Id: number, user2Id: number): Promise<Like[]> {
+    return await this.db
+      .select()
+      .from(likes)
+      .where(
+        or(
+          and(eq(likes.likerId, user1Id), eq(likes.likedId, user2Id)),
+          and(eq(likes.likerId, user2Id), eq(likes.likedId, user1Id))
+        )
+      );
+  }
+
+  async getLikesByUser(userId: number): Promise<Like[]> {
+    return await this.db.select().from(likes).where(eq(likes.likerId, userId));
+  }
+
+  async getMatches(userId: number): Promise<User[]> {
+    // A match is a like that has been reciprocated
+    const reciprocal = alias(likes, "reciprocal");
+    const rows = await this.db
+      .select({ user: users })
+      .from(likes)
+      .innerJoin(
+        reciprocal,
+        and(eq(reciprocal.likerId, likes.likedId), eq(reciprocal.likedId, likes.likerId))
+      )
+      .innerJoin(users, eq(users.id, likes.likedId))
+      .where(eq(likes.likerId, userId));
+    return rows.map(row => row.user);
+  }
+
+  // Admin operations
+  async createAdminLog(log: InsertAdminLog): Promise<AdminLog> {
+    const [newLog] = await this.db
+      .insert(adminLogs)
+      .values({ ...log, details: log.details || null })
+      .returning();
+    return newLog;
+  }
+
+  async getAdminLogs(limit = 50): Promise<AdminLog[]> {
+    return await this.db
+      .select()
+      .from(adminLogs)
+      .orderBy(desc(adminLogs.createdAt))
+      .limit(limit);
+  }
+
+  // Verification operations
+  async createVerificationCode(code: InsertVerificationCode): Promise<VerificationCode> {
+    const [newCode] = await this.db.insert(verificationCodes).values(code).returning();
+    return newCode;
+  }
+
+  async getVerificationCode(email: string, code: string, type: string): Promise<VerificationCode | undefined> {
+    const [verificationCode] = await this.db
+      .select()
+      .from(verificationCodes)
+      .where(
+        and(
+          eq(verificationCodes.email, email),
+          eq(verificationCodes.code, code),
+          eq(verificationCodes.type, type),
+          eq(verificationCodes.used, false),
+          gt(verificationCodes.expiresAt, new Date())
+        )
+      )
+      .limit(1);
+    return verificationCode;
+  }
+
+  async markVerificationCodeAsUsed(id: number): Promise<void> {
+    await this.db
+      .update(verificationCodes)
+      .set({ used: true })
+      .where(eq(verificationCodes.id, id));
+  }
+
+  // A single statement, so concurrent wrong guesses are all counted
+  async recordFailedVerificationAttempt(email: string, type: string, maxAttempts: number): Promise<void> {
+    await this.db
+      .update(verificationCodes)
+      .set({
+        failedAttempts: sql`${verificationCodes.failedAttempts} + 1`,
+        used: sql`${verificationCodes.failedAttempts} + 1 >= ${maxAttempts}`
+      })
+      .where(and(
+        eq(verificationCodes.email, email),
+        eq(verificationCodes.type, type),
+        eq(verificationCodes.used, false),
+        gt(verificationCodes.expiresAt, new Date())
+      ));
+  }
+
+  async cleanupExpiredCodes(): Promise<void> {
+    await this.db
+      .delete(verificationCodes)
+      .where(lt(verificationCodes.expiresAt, new Date()));
+  }
+
+  // Login challenge operations
+  async createLoginChallenge(insertChallenge: InsertLoginChallenge): Promise<LoginChallenge> {
+    const [challenge] = await this.db.insert(loginChallenges).values(insertChallenge).returning();
+    return challenge;
+  }
+
+  async getLoginChallenge(token: string): Promise<LoginChallenge | undefined> {
+    const [challenge] = await this.db
+      .select()
+      .from(loginChallenges)
+      .where(and(eq(loginChallenges.token, token), gt(loginChallenges.expiresAt, new Date())));
+    return challenge;
+  }
+
+  async recordFailedLoginChallengeAttempt(token: string, maxAttempts: number): Promise<void> {
+    const [challenge] = await this.db
+      .update(loginChallenges)
+      .set({ attempts: sql`${loginChallenges.attempts} + 1` })
+      .where(eq(loginChallenges.token, token))
+      .returning({ attempts: loginChallenges.attempts });
+    if (challenge && challenge.attempts >= maxAttempts) {
+      await this.deleteLoginChallenge(token);
+    }
+  }
+
+  async deleteLoginChallenge(token: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(loginChallenges)
+      .where(eq(loginChallenges.token, token))
+      .returning({ token: loginChallenges.token });
+    return deleted.length > 0;
+  }
+
+  async deleteExpiredLoginChallenges(): Promise<void> {
+    await this.db
+      .delete(loginChallenges)
+      .where(lte(loginChallenges.expiresAt, new Date()));
+  }
+
+  // Data export operations
+  async createDataExport(insertExport: InsertDataExport): Promise<DataExport> {
+    const [dataExport] = await this.db.insert(dataExports).values(insertExport).returning();
+    return dataExport;
+  }
+
+  async updateDataExport(id: string, changes: Partial<DataExport>): Promise<DataExport | undefined> {
+    const { id: _, ...values } = changes;
+    const [dataExport] = await this.db
+      .update(dataExports)
+      .set(values)
+      .where(eq(dataExports.id, id))
+      .returning();
+    return dataExport;
+  }
+
+  async getDataExport(id: string): Promise<DataExport | undefined> {
+    const [dataExport] = await this.db.select().from(dataExports).where(eq(dataExports.id, id));
+    return dataExport;
+  }
+
+  async getDataExportsForUser(userId: number): Promise<DataExport[]> {
+    return await this.db
+      .select()
+      .from(dataExports)
+      .where(eq(dataExports.userId, userId))
+      .orderBy(desc(dataExports.createdAt));
+  }
+
+  async getExpiredDataExports(staleBefore: Date): Promise<DataExport[]> {
+    return await this.db
+      .select()
+      .from(dataExports)
+      .where(or(
+        lte(dataExports.expiresAt, new Date()),
+        and(isNull(dataExports.expiresAt), eq(dataExports.status, 'pending'), lt(dataExports.createdAt, staleBefore))
+      ));
+  }
+
+  async deleteDataExport(id: string): Promise<void> {
+    await this.db.delete(dataExports).where(eq(dataExports.id, id));
+  }
+
+  // Token operations
+  async createUserToken(userId: number, details: SessionDetails = {}): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 дней
+
+    await this.db.insert(userTokens).values({
+      userId,
+      token,
+      userAgent: details.userAgent || null,
+      ipAddress: details.ipAddress || null,
+      expiresAt
+    });
+
+    return token;
+  }
+
+  async getUserByToken(token: string): Promise<User | null> {
+    const result = await this.db
+      .select({ user: users })
+      .from(userTokens)
+      .innerJoin(users, eq(userTokens.userId, users.id))
+      .where(
+        and(
+          eq(userTokens.token, token),
+          gt(userTokens.expiresAt, new Date())
+        )
+      )
+      .limit(1);
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return result[0].user;
+  }
+
+  async getUserTokensForUser(userId: number): Promise<UserToken[]> {
+    return await this.db
+      .select()
+      .from(userTokens)
+      .where(and(eq(userTokens.userId, userId), gt(userTokens.expiresAt, new Date())))
+      .orderBy(desc(userTokens.lastUsedAt));
+  }
+
+  async getUserTokenById(id: number): Promise<UserToken | undefined> {
+    const [userToken] = await this.db.select().from(userTokens).where(eq(userTokens.id, id));
+    return userToken;
+  }
+
+  async updateUserTokenName(id: number, name: string | null): Promise<UserToken | undefined> {
+    const [userToken] = await this.db
+      .update(userTokens)
+      .set({ name })
+      .where(eq(userTokens.id, id))
+      .returning();
+    return userToken;
+  }
+
+  async touchUserToken(token: string): Promise<void> {
+    const now = new Date();
+    await this.db
+      .update(userTokens)
+      .set({ lastUsedAt: now })
+      .where(
+        and(
+          eq(userTokens.token, token),
+          or(
+            isNull(userTokens.lastUsedAt),
+            lt(userTokens.lastUsedAt, new Date(now.getTime() - TOKEN_TOUCH_INTERVAL_MS))
+          )
+        )
+      );
+  }
+
+  async deleteUserToken(token: string): Promise<void> {
+    await this.db
+      .delete(userTokens)
+      .where(eq(userTokens.token, token));
+  }
+
+  async deleteUserTokensForUser(userId: number, exceptToken?: string): Promise<void> {
+    await this.db
+      .delete(userTokens)
+      .where(
+        exceptToken
+          ? and(eq(userTokens.userId, userId), ne(userTokens.token, exceptToken))
+          : eq(userTokens.userId, userId)
+      );
   }
 
   // Template operations
   async getTemplates(): Promise<Template[]> {
-    return await db.select().from(templates);
+    return await this.db.select().from(templates);
+  }
+
+  async getTemplate(name: string, type: string, locale: string): Promise<Template | undefined> {
+    const [template] = await this.db
+      .select()
+      .from(templates)
+      .where(and(eq(templates.name, name), eq(templates.type, type), eq(templates.locale, locale)));
+    return template;
+  }
+
+  async upsertTemplate(template: InsertTemplate): Promise<Template> {
+    const [saved] = await this.db
+      .insert(templates)
+      .values(template)
+      .onConflictDoUpdate({
+        target: [templates.name, templates.type, templates.locale],
+        set: {
+          content: template.content,
+          subject: template.subject,
+          textContent: template.textContent,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteTemplate(name: string, type: string, locale: string): Promise<void> {
+    await this.db
+      .delete(templates)
+      .where(and(eq(templates.name, name), eq(templates.type, type), eq(templates.locale, locale)));
   }
 
   async getWritingTemplates(): Promise<WritingTemplate[]> {
-    return await db.select().from(writingTemplates);
+    return await this.db.select().from(writingTemplates);
+  }
+}
+
+// STORAGE_DRIVER selects the backend explicitly ("postgres" or "memory").
+// Without it, PostgreSQL is used whenever DATABASE_URL is set and the
+// in-memory store otherwise, which keeps local development zero-config.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "postgres":
+      if (!process.env.DATABASE_URL) {
+        throw new Error("DATABASE_URL must be set when STORAGE_DRIVER=postgres");
+      }
+      return new DrizzleStorage(createDb(process.env.DATABASE_URL));
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
   }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = createStorage();
@@ -0,0 +1,21 @@
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { createRequire } from 'module';
+import * as schema from '@shared/schema';
+import { DrizzleStorage } from './storage';
+import type { Database } from './db';
+
+// The ESM build of drizzle-kit/api can't load its own dependencies
+const { generateDrizzleJson, generateMigration }: typeof import('drizzle-kit/api') = createRequire(import.meta.url)('drizzle-kit/api');
+
+// A DrizzleStorage on a fresh in-memory Postgres (PGlite) with the current
+// schema, so tests run the same SQL as production
+export async function createTestStorage(): Promise<DrizzleStorage> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  // Both drivers build the same queries; only the connection type differs
+  return new DrizzleStorage(drizzle(client, { schema }) as unknown as Database);
+}
@@ -0,0 +1,63 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from './storage';
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isSecondFactorLocked,
+  verifySecondFactor,
+  verifyTotpCode
+} from './two-factor';
+
+// The RFC 6238 test secret "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+async function createTwoFactorUser(username: string) {
+  const recoveryCodes = generateRecoveryCodes();
+  const user = await storage.createUser({ username, password: '-', displayName: username, email: `${username}@example.com` });
+  await storage.updateUserProfile(user.id, {
+    totpSecret: generateTotpSecret(),
+    totpEnabled: true,
+    totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode)
+  });
+  return { user: (await storage.getUser(user.id))!, recoveryCodes };
+}
+
+test('a TOTP code matches the RFC 6238 test vector and is not accepted for a used step', () => {
+  mock.timers.enable({ apis: ['Date'], now: 59 * 1000 });
+  try {
+    assert.equal(verifyTotpCode(RFC_SECRET, '287 082', null), 1);
+    assert.equal(verifyTotpCode(RFC_SECRET, '287082', 1), null);
+    assert.equal(verifyTotpCode(RFC_SECRET, '287083', null), null);
+    assert.equal(verifyTotpCode(RFC_SECRET, 'abcdef', null), null);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('recovery codes are unique and work once, whatever their formatting', async () => {
+  const { user, recoveryCodes } = await createTwoFactorUser('recovering');
+  assert.equal(new Set(recoveryCodes).size, recoveryCodes.length);
+
+  const code = recoveryCodes[0].toUpperCase().replace('-', ' ');
+  assert.equal(await verifySecondFactor(user, { recoveryCode: code }), true);
+  assert.equal(await verifySecondFactor((await storage.getUser(user.id))!, { recoveryCode: code }), false);
+});
+
+test('the account locks after too many wrong codes and a right code resets the count', async () => {
+  const { user, recoveryCodes } = await createTwoFactorUser('guessing');
+
+  for (let i = 0; i < 9; i++) {
+    assert.equal(await verifySecondFactor((await storage.getUser(user.id))!, { code: '000000' }), false);
+  }
+  assert.equal(await verifySecondFactor((await storage.getUser(user.id))!, { recoveryCode: recoveryCodes[0] }), true);
+  assert.equal((await storage.getUser(user.id))!.totpFailedAttempts, 0);
+
+  for (let i = 0; i < 10; i++) {
+    await verifySecondFactor((await storage.getUser(user.id))!, { code: '000000' });
+  }
+  const locked = (await storage.getUser(user.id))!;
+  assert.equal(isSecondFactorLocked(locked), true);
+  assert.equal(await verifySecondFactor(locked, { recoveryCode: recoveryCodes[1] }), false);
+});
@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import { storage } from './storage';
+import type { User, LoginChallenge } from '@shared/schema';
+
+// RFC 6238 parameters understood by every common authenticator app
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'ChatMod';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+// Codes from one step before or after are accepted to allow for clock drift
+const TOTP_WINDOW = 1;
+const SECRET_LENGTH = 20;
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Login challenges bridge the password step and the code step
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const CHALLENGE_MAX_ATTEMPTS = 5;
+// Every password login starts a new challenge, so wrong codes are also
+// counted per account, which locks the code step for a while
+const ACCOUNT_MAX_FAILED_CODES = 10;
+const ACCOUNT_LOCK_MS = 15 * 60 * 1000; // 15 minutes
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of input.toUpperCase().replace(/=+$/, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+function currentStep(): number {
+  return Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_LENGTH));
+}
+
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Returns the time step the code belongs to, or null when it doesn't match.
+// Steps at or before lastUsedStep are rejected so a code only works once.
+export function verifyTotpCode(secret: string, code: string, lastUsedStep: number | null): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const now = currentStep();
+  for (let step = now - TOTP_WINDOW; step <= now + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (safeEqual(totpCode(secret, step), normalized)) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Recovery codes are random, so a plain digest is enough to store them
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+export function isSecondFactorLocked(user: User): boolean {
+  return !!user.totpLockedUntil && user.totpLockedUntil > new Date();
+}
+
+// Checks a TOTP or recovery code for a user with 2FA enabled, recording the
+// used step or consuming the recovery code on success. Always fails while the
+// account is locked after too many wrong codes.
+export async function verifySecondFactor(user: User, factor: SecondFactor): Promise<boolean> {
+  if (isSecondFactorLocked(user)) {
+    return false;
+  }
+
+  const verified = await checkSecondFactor(user, factor);
+  if (!verified) {
+    await storage.recordFailedSecondFactor(user.id, ACCOUNT_MAX_FAILED_CODES, new Date(Date.now() + ACCOUNT_LOCK_MS));
+  } else if (user.totpFailedAttempts > 0) {
+    await storage.updateUserProfile(user.id, { totpFailedAttempts: 0 });
+  }
+  return verified;
+}
+
+async function checkSecondFactor(user: User, { code, recoveryCode }: SecondFactor): Promise<boolean> {
+  if (!user.totpEnabled || !user.totpSecret) {
+    return false;
+  }
+
+  if (code) {
+    const step = verifyTotpCode(user.totpSecret, code, user.totpLastUsedStep);
+    if (step === null) return false;
+
+    return storage.useTotpStep(user.id, step);
+  }
+
+  if (recoveryCode) {
+    // Checking and removing the code in one step keeps it single-use
+    return storage.consumeRecoveryCode(user.id, hashRecoveryCode(recoveryCode));
+  }
+
+  return false;
+}
+
+// Challenges are stored rather than kept in memory, so the code step may
+// reach another instance than the password step did
+export async function createLoginChallenge(userId: number): Promise<string> {
+  // Drop expired challenges so abandoned logins don't pile up
+  await storage.deleteExpiredLoginChallenges();
+
+  const challenge = await storage.createLoginChallenge({
+    token: crypto.randomBytes(32).toString('hex'),
+    userId,
+    expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS)
+  });
+  return challenge.token;
+}
+
+export function getLoginChallenge(challengeToken: string): Promise<LoginChallenge | undefined> {
+  return storage.getLoginChallenge(challengeToken);
+}
+
+// Counts a wrong code; the challenge is discarded after too many of them
+export function failLoginChallenge(challengeToken: string): Promise<void> {
+  return storage.recordFailedLoginChallengeAttempt(challengeToken, CHALLENGE_MAX_ATTEMPTS);
+}
+
+// False when a concurrent request already completed the challenge
+export function completeLoginChallenge(challengeToken: string): Promise<boolean> {
+  return storage.deleteLoginChallenge(challengeToken);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
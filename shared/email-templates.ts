@@ -0,0 +1,70 @@
+// Transactional email templates: names, the variables each one receives and
+// the interpolation used both to send them and to preview them in the admin panel
+
+export const EMAIL_TEMPLATE_NAMES = ["verification", "password_reset", "digest", "ban_notice"] as const;
+export type EmailTemplateName = typeof EMAIL_TEMPLATE_NAMES[number];
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export type TemplateVariables = Record<string, string | number>;
+
+// Every variable a template can use, with sample values for previews
+export const EMAIL_TEMPLATE_VARIABLES: Record<EmailTemplateName, TemplateVariables> = {
+  verification: {
+    code: "123456",
+    expiresInMinutes: 15,
+  },
+  password_reset: {
+    code: "654321",
+    expiresInMinutes: 15,
+  },
+  digest: {
+    displayName: "Alice",
+    unreadCount: 3,
+    conversationsText: "- Bob: 2\n- Carol: 1",
+    conversationsHtml: "<ul><li>Bob: 2</li><li>Carol: 1</li></ul>",
+    roomMessageCount: 5,
+    roomsText: "- General: 5",
+    roomsHtml: "<ul><li>General: 5</li></ul>",
+    appUrl: "https://example.com",
+    unsubscribeUrl: "https://example.com/api/email/unsubscribe?token=sample",
+  },
+  ban_notice: {
+    displayName: "Alice",
+    reason: "Spam",
+  },
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Replaces {{name}} with the variable's value. With escape set (HTML bodies),
+// values are HTML-escaped unless written as {{{name}}}. Unknown variables are
+// left untouched so typos stay visible in the preview.
+export function interpolate(template: string, variables: TemplateVariables, escape = false): string {
+  return template.replace(/\{\{\{\s*(\w+)\s*\}\}\}|\{\{\s*(\w+)\s*\}\}/g, (match, rawName, name) => {
+    const key = rawName || name;
+    if (!Object.prototype.hasOwnProperty.call(variables, key)) return match;
+
+    const value = String(variables[key]);
+    return escape && !rawName ? escapeHtml(value) : value;
+  });
+}
+
+export function renderEmailTemplate(template: EmailTemplateContent, variables: TemplateVariables): EmailTemplateContent {
+  return {
+    subject: interpolate(template.subject, variables),
+    html: interpolate(template.html, variables, true),
+    text: interpolate(template.text, variables),
+  };
+}
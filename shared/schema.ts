@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -12,28 +12,61 @@ export const users = pgTable("users", {
   profilePicture: text("profile_picture").default(""),
   profileHtml: text("profile_html").default(""),
   theme: text("theme").default("default"),
+  language: text("language").default("en"), // en, ru; picks the locale of emails sent to the user
   email: text("email").notNull().unique(),
   emailVerified: boolean("email_verified").default(false),
   verificationCode: text("verification_code"),
   role: text("role").default("user"), // user, moderator, admin
-  isOnline: boolean("is_online").default(false),
+  isOnline: boolean("is_online").default(false), // has a connected socket, maintained by the server
   lastSeen: timestamp("last_seen").defaultNow(),
+  invisible: boolean("invisible").default(false), // appears offline to everyone else
   isBanned: boolean("is_banned").default(false),
   bannedBy: integer("banned_by"),
   bannedAt: timestamp("banned_at"),
   banReason: text("ban_reason"),
+  deletionScheduledAt: timestamp("deletion_scheduled_at"), // set while a deleted account can still be restored
+  totpSecret: text("totp_secret"), // base32 secret, kept while enrollment is pending too
+  totpEnabled: boolean("totp_enabled").default(false),
+  totpRecoveryCodes: text("totp_recovery_codes").array(), // sha256 hashes of unused recovery codes
+  totpLastUsedStep: integer("totp_last_used_step"), // rejects replay of an already accepted code
+  totpFailedAttempts: integer("totp_failed_attempts").notNull().default(0), // wrong codes since the last lock or success
+  totpLockedUntil: timestamp("totp_locked_until"), // no codes are accepted before this
+  emailNotifications: boolean("email_notifications").default(true), // digests of missed messages
+  readReceipts: boolean("read_receipts").default(true), // off also hides other people's receipts from the user
+  lastDigestAt: timestamp("last_digest_at"), // when the last digest was sent; activity before it was already emailed
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const SUPPORTED_LANGUAGES = ["en", "ru"] as const;
+export type SupportedLanguage = typeof SUPPORTED_LANGUAGES[number];
+
+export const insertUserSchema = createInsertSchema(users, {
+  language: z.enum(SUPPORTED_LANGUAGES).optional(),
+}).pick({
   username: true,
   password: true,
   displayName: true,
   email: true,
   emailVerified: true,
+  language: true,
 });
 
+export const updateUserProfileSchema = createInsertSchema(users, {
+  language: z.enum(SUPPORTED_LANGUAGES),
+}).pick({
+  displayName: true,
+  bio: true,
+  profilePicture: true,
+  profileHtml: true,
+  theme: true,
+  language: true,
+  emailNotifications: true,
+  readReceipts: true,
+  invisible: true,
+}).partial();
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUserProfile = z.infer<typeof updateUserProfileSchema>;
 export type User = typeof users.$inferSelect;
 
 // Message schema
@@ -44,16 +77,32 @@ export const messages = pgTable("messages", {
   content: text("content").notNull(),
   mediaType: text("media_type").default("text"), // text, image, audio, video
   mediaUrl: text("media_url").default(""),
+  delivered: boolean("delivered").default(false), // pushed to one of the receiver's sockets or loaded by them
   read: boolean("read").default(false),
+  replyToId: integer("reply_to_id"), // a message in the same conversation
+  clientId: text("client_id"), // generated by the sending client so retries don't create duplicates
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"), // deleted messages stay as tombstones without content
   createdAt: timestamp("created_at").defaultNow(),
-});
-
-export const insertMessageSchema = createInsertSchema(messages).pick({
+}, (table) => [
+  // History is paged by id within a conversation
+  index("messages_conversation_idx").on(table.senderId, table.receiverId, table.id),
+  unique("messages_client_id_unique").on(table.senderId, table.clientId),
+]);
+
+// Client message ids are opaque to the server, only their length is limited
+export const clientMessageIdSchema = z.string().min(1).max(64);
+
+export const insertMessageSchema = createInsertSchema(messages, {
+  clientId: clientMessageIdSchema.optional(),
+}).pick({
   senderId: true,
   receiverId: true,
   content: true,
   mediaType: true,
   mediaUrl: true,
+  replyToId: true,
+  clientId: true,
 });
 
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
@@ -76,7 +125,12 @@ export const insertChatRoomSchema = createInsertSchema(chatRooms).pick({
   isPrivate: true,
 });
 
+export const updateChatRoomSchema = insertChatRoomSchema.omit({
+  createdBy: true,
+}).partial();
+
 export type InsertChatRoom = z.infer<typeof insertChatRoomSchema>;
+export type UpdateChatRoom = z.infer<typeof updateChatRoomSchema>;
 export type ChatRoom = typeof chatRooms.$inferSelect;
 
 // Chat room messages schema
@@ -87,20 +141,101 @@ export const chatMessages = pgTable("chat_messages", {
   content: text("content").notNull(),
   mediaType: text("media_type").default("text"), // text, image, audio, video
   mediaUrl: text("media_url").default(""),
+  replyToId: integer("reply_to_id"), // a message in the same room
+  clientId: text("client_id"), // generated by the sending client so retries don't create duplicates
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: integer("deleted_by"), // differs from userId when a moderator removed it
   createdAt: timestamp("created_at").defaultNow(),
-});
-
-export const insertChatMessageSchema = createInsertSchema(chatMessages).pick({
+}, (table) => [
+  index("chat_messages_room_idx").on(table.roomId, table.id),
+  unique("chat_messages_client_id_unique").on(table.userId, table.clientId),
+]);
+
+export const insertChatMessageSchema = createInsertSchema(chatMessages, {
+  clientId: clientMessageIdSchema.optional(),
+}).pick({
   roomId: true,
   userId: true,
   content: true,
   mediaType: true,
   mediaUrl: true,
+  replyToId: true,
+  clientId: true,
 });
 
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 
+// Compact version of a quoted message, sent along with replies
+export interface ReplyPreview {
+  id: number;
+  authorId: number;
+  content: string; // shortened; empty when the original was deleted
+  mediaType: string | null;
+  deleted: boolean;
+}
+
+export const editMessageSchema = z.object({
+  content: z.string().trim().min(1),
+});
+
+// Marks a DM conversation read up to and including this message id
+export const markReadSchema = z.object({
+  upToId: z.number().int().positive(),
+});
+
+// Previous versions of edited messages, for both DMs and room messages
+export const messageEdits = pgTable("message_edits", {
+  id: serial("id").primaryKey(),
+  messageType: text("message_type").notNull(), // direct, room
+  messageId: integer("message_id").notNull(),
+  content: text("content").notNull(), // the content before this edit
+  editedBy: integer("edited_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("message_edits_message_idx").on(table.messageType, table.messageId),
+]);
+
+export type MessageEdit = typeof messageEdits.$inferSelect;
+export type MessageType = "direct" | "room";
+
+// The emoji offered by the reaction picker; nothing else is accepted
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🙏"] as const;
+
+// One row per user and emoji on a DM or room message
+export const messageReactions = pgTable("message_reactions", {
+  id: serial("id").primaryKey(),
+  messageType: text("message_type").notNull(), // direct, room
+  messageId: integer("message_id").notNull(),
+  userId: integer("user_id").notNull(),
+  emoji: text("emoji").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("message_reactions_unique").on(table.messageType, table.messageId, table.userId, table.emoji),
+]);
+
+export const reactionSchema = z.object({
+  emoji: z.enum(REACTION_EMOJIS),
+});
+
+export const insertMessageReactionSchema = createInsertSchema(messageReactions).pick({
+  messageType: true,
+  messageId: true,
+  userId: true,
+  emoji: true,
+});
+
+export type MessageReaction = typeof messageReactions.$inferSelect;
+export type InsertMessageReaction = z.infer<typeof insertMessageReactionSchema>;
+
+// Reactions as sent to clients: one entry per emoji, in the order they were first used
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: number[];
+}
+
 // Room memberships schema
 export const roomMembers = pgTable("room_members", {
   id: serial("id").primaryKey(),
@@ -109,7 +244,9 @@ export const roomMembers = pgTable("room_members", {
   role: text("role").default("member"), // member, moderator, admin
   joinedAt: timestamp("joined_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  unique("room_members_room_user_unique").on(table.roomId, table.userId),
+]);
 
 export const insertRoomMemberSchema = createInsertSchema(roomMembers).pick({
   roomId: true,
@@ -190,6 +327,7 @@ export const verificationCodes = pgTable("verification_codes", {
   type: text("type").notNull(), // registration, password_reset
   expiresAt: timestamp("expires_at").notNull(),
   used: boolean("used").default(false),
+  failedAttempts: integer("failed_attempts").notNull().default(0), // wrong codes entered for this email
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -203,12 +341,54 @@ export const insertVerificationCodeSchema = createInsertSchema(verificationCodes
 export type InsertVerificationCode = z.infer<typeof insertVerificationCodeSchema>;
 export type VerificationCode = typeof verificationCodes.$inferSelect;
 
+// The second login step for accounts with 2FA, between the password and the code
+export const loginChallenges = pgTable("login_challenges", {
+  token: text("token").primaryKey(),
+  userId: integer("user_id").notNull(),
+  attempts: integer("attempts").notNull().default(0), // wrong codes entered for this challenge
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertLoginChallengeSchema = createInsertSchema(loginChallenges).pick({
+  token: true,
+  userId: true,
+  expiresAt: true,
+});
+
+export type InsertLoginChallenge = z.infer<typeof insertLoginChallengeSchema>;
+export type LoginChallenge = typeof loginChallenges.$inferSelect;
+
+// Personal data export requests; the archives are stored as exports/<id>.zip
+export const dataExports = pgTable("data_exports", {
+  id: text("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  status: text("status").notNull().default("pending"), // pending, ready, failed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+  expiresAt: timestamp("expires_at"), // set once the build ends; the archive and record are removed after it
+}, (table) => [
+  index("data_exports_user_idx").on(table.userId),
+]);
+
+export const insertDataExportSchema = createInsertSchema(dataExports).pick({
+  id: true,
+  userId: true,
+});
+
+export type InsertDataExport = z.infer<typeof insertDataExportSchema>;
+export type DataExport = typeof dataExports.$inferSelect;
+
 // Таблица для токенов пользователей
 export const userTokens = pgTable('user_tokens', {
   id: serial('id').primaryKey(),
   userId: integer('user_id').references(() => users.id),
   token: text('token').notNull().unique(),
+  name: text('name'), // подпись сессии, заданная пользователем
+  userAgent: text('user_agent'),
+  ipAddress: text('ip_address'),
   expiresAt: timestamp('expires_at').notNull(),
+  lastUsedAt: timestamp('last_used_at').defaultNow(),
   createdAt: timestamp('created_at').defaultNow()
 });
 
@@ -216,11 +396,16 @@ export const userTokens = pgTable('user_tokens', {
 export const templates = pgTable('templates', {
   id: serial('id').primaryKey(),
   name: text('name').notNull(),
-  content: text('content').notNull(),
-  type: text('type').notNull(),
+  content: text('content').notNull(), // для писем — HTML-версия
+  type: text('type').notNull(), // email, ...
+  locale: text('locale').notNull().default('en'),
+  subject: text('subject'), // тема письма
+  textContent: text('text_content'), // текстовая версия письма
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow()
-});
+}, (table) => [
+  unique('templates_name_type_locale_unique').on(table.name, table.type, table.locale)
+]);
 
 // Таблица для шаблонов письма
 export const writingTemplates = pgTable('writing_templates', {